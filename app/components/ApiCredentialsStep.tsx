@@ -31,17 +31,57 @@ import {
   FileIcon,
   LinkIcon,
   DatabaseIcon,
-  KeyIcon
+  KeyIcon,
+  DeleteIcon
 } from '@shopify/polaris-icons';
+import {
+  DEFAULT_API_KEY_HEADER,
+  DEFAULT_TOKEN_QUERY_PARAM,
+  authRequiresSecret,
+  getMissingAuthFields,
+  SUPPLIER_AUTH_TYPES
+} from '../utils/supplierAuth';
+import type { SupplierAuthConfig, SupplierAuthType } from '../utils/supplierAuth';
+import { DEFAULT_REQUEST_CONFIG, isDefaultRequestConfig, REQUEST_METHOD_OPTIONS } from '../utils/supplierRequestConfig';
+import type { RequestPair, SupplierRequestConfig } from '../utils/supplierRequestConfig';
+import { normalizeItemsPath } from '../utils/itemsPath';
+import type { ItemsPathCandidate } from '../utils/itemsPath';
+import RequestTestPanel from './RequestTestPanel';
 
 type ValidationStatus = 'success' | 'error' | null;
 
+interface PaginationSettings {
+  type: 'none' | 'page' | 'link' | 'next_url' | 'cursor';
+  pageParam?: string;
+  sizeParam?: string;
+  pageSize?: string;
+  startPage?: string;
+  nextUrlPath?: string;
+  cursorParam?: string;
+  cursorPath?: string;
+  maxPages?: string;
+}
+
 interface Credentials {
   apiUrl: string;
   accessToken: string;
+  authType?: SupplierAuthType;
+  authConfig?: SupplierAuthConfig;
+  requestConfig?: SupplierRequestConfig;
+  itemsPath?: string;
+  feedFormat?: 'json' | 'xml' | 'csv';
   connectionId?: string;
+  paginationConfig?: PaginationSettings;
 }
 
+const paginationOptions = [
+  { label: 'No pagination (single request)', value: 'none' },
+  { label: 'Page number & size (?page=1&size=50)', value: 'page' },
+  { label: 'Link header (rel="next")', value: 'link' },
+  { label: 'Next page URL in response body', value: 'next_url' },
+  { label: 'Cursor token in response body', value: 'cursor' }
+];
+
 interface ApiCredentialsStepProps {
   credentials: Credentials;
   onCredentialsChange: (next: Credentials) => void;
@@ -66,6 +106,9 @@ export default function ApiCredentialsStep({ credentials, onCredentialsChange, o
   const [selectedSupplier, setSelectedSupplier] = useState<string>('');
   const [savedConnections, setSavedConnections] = useState<any[]>([]);
   const [isLoadingConnections, setIsLoadingConnections] = useState(false);
+  const [isDetectingItemsPath, setIsDetectingItemsPath] = useState(false);
+  const [itemsPathPreview, setItemsPathPreview] = useState<{ itemsPath: string; candidates: ItemsPathCandidate[]; resolvedCount: number | null } | null>(null);
+  const [itemsPathError, setItemsPathError] = useState('');
   
   // Load saved connections from database
   useEffect(() => {
@@ -116,6 +159,130 @@ export default function ApiCredentialsStep({ credentials, onCredentialsChange, o
     setValidationMessage('');
   };
 
+  const pagination: PaginationSettings = credentials.paginationConfig || { type: 'none' };
+
+  const authType: SupplierAuthType = credentials.authType || 'bearer';
+  const authConfig: SupplierAuthConfig = credentials.authConfig || {};
+  const secretLabel = SUPPLIER_AUTH_TYPES.find(option => option.value === authType)?.secretLabel || 'Access Token';
+  const missingAuthFields = getMissingAuthFields(authType, authConfig);
+  const needsSecret = authRequiresSecret(authType);
+  const hasSecret = !needsSecret || Boolean(credentials.accessToken);
+
+  const handleAuthTypeChange = (value: string) => {
+    onCredentialsChange({ ...credentials, authType: value as SupplierAuthType, authConfig: {} });
+    setValidationStatus(null);
+    setValidationMessage('');
+  };
+
+  const handleAuthConfigChange = (field: keyof SupplierAuthConfig, value: string) => {
+    onCredentialsChange({ ...credentials, authConfig: { ...authConfig, [field]: value } });
+    setValidationStatus(null);
+    setValidationMessage('');
+  };
+
+  const requestConfig: SupplierRequestConfig = credentials.requestConfig || DEFAULT_REQUEST_CONFIG;
+  // XML and CSV feeds are API connections that return an XML document or a CSV file instead of JSON
+  const feedFormat = connectionType === 'api' ? credentials.feedFormat || 'json' : 'json';
+  const isXmlFeed = feedFormat === 'xml';
+  const isCsvFeed = feedFormat === 'csv';
+
+  const handleRequestConfigChange = (changes: Partial<SupplierRequestConfig>) => {
+    onCredentialsChange({ ...credentials, requestConfig: { ...requestConfig, ...changes } });
+    setValidationStatus(null);
+    setValidationMessage('');
+  };
+
+  const handlePairChange = (list: 'headers' | 'queryParams', index: number, field: keyof RequestPair, value: string) => {
+    handleRequestConfigChange({
+      [list]: requestConfig[list].map((pair, i) => (i === index ? { ...pair, [field]: value } : pair))
+    });
+  };
+
+  // Key/value rows for custom headers and query parameters
+  const renderPairs = (list: 'headers' | 'queryParams', keyLabel: string, addLabel: string) => (
+    <BlockStack gap="200">
+      {requestConfig[list].map((pair, index) => (
+        <InlineStack key={index} gap="200" blockAlign="end" wrap={false}>
+          <div style={{ flex: 1 }}>
+            <TextField
+              label={keyLabel}
+              labelHidden={index > 0}
+              autoComplete="off"
+              value={pair.key}
+              onChange={(value) => handlePairChange(list, index, 'key', value)}
+            />
+          </div>
+          <div style={{ flex: 2 }}>
+            <TextField
+              label="Value"
+              labelHidden={index > 0}
+              autoComplete="off"
+              value={pair.value}
+              onChange={(value) => handlePairChange(list, index, 'value', value)}
+            />
+          </div>
+          <Button
+            icon={DeleteIcon}
+            accessibilityLabel={`Remove ${pair.key || keyLabel.toLowerCase()}`}
+            onClick={() => handleRequestConfigChange({ [list]: requestConfig[list].filter((_, i) => i !== index) })}
+          />
+        </InlineStack>
+      ))}
+      <InlineStack>
+        <Button
+          variant="plain"
+          icon={PlusIcon}
+          onClick={() => handleRequestConfigChange({ [list]: [...requestConfig[list], { key: '', value: '' }] })}
+        >
+          {addLabel}
+        </Button>
+      </InlineStack>
+    </BlockStack>
+  );
+
+  // Fetches one page and asks the server where the product arrays are and how many items the
+  // current items path resolves to
+  const detectItemsPath = async () => {
+    setIsDetectingItemsPath(true);
+    setItemsPathError('');
+    try {
+      const formData = new FormData();
+      formData.append('action', 'detectItemsPath');
+      formData.append('apiUrl', credentials.apiUrl);
+      formData.append('accessToken', credentials.accessToken);
+      formData.append('authType', authType);
+      formData.append('authConfig', JSON.stringify(authConfig));
+      formData.append('requestConfig', JSON.stringify(requestConfig));
+      formData.append('itemsPath', credentials.itemsPath || '');
+      formData.append('feedFormat', feedFormat);
+
+      const resp = await fetch('/app/api/external', { method: 'POST', body: formData });
+      const data = await resp.json().catch(() => ({}));
+      if (resp.ok && data?.success) {
+        setItemsPathPreview(data);
+      } else {
+        setItemsPathPreview(null);
+        setItemsPathError(data?.error || 'Could not read the API response');
+      }
+    } catch (error: any) {
+      setItemsPathError(error?.message || 'Could not read the API response');
+    } finally {
+      setIsDetectingItemsPath(false);
+    }
+  };
+
+  const selectItemsPath = (candidate: ItemsPathCandidate) => {
+    handleInputChange('itemsPath', candidate.path);
+    setItemsPathPreview(prev => prev && { ...prev, itemsPath: candidate.path, resolvedCount: candidate.count });
+  };
+
+  const handlePaginationChange = (field: keyof PaginationSettings, value: string) => {
+    onCredentialsChange({
+      ...credentials,
+      paginationConfig: { ...pagination, [field]: value } as PaginationSettings
+    });
+  };
+
   const handleSupplierChange = (value: string) => {
     setSelectedSupplier(value);
     if (value === 'add-new') {
@@ -257,9 +424,16 @@ export default function ApiCredentialsStep({ credentials, onCredentialsChange, o
 
     // Check validation based on connection type
     if (connectionType === 'api') {
-      if (!credentials.apiUrl || !credentials.accessToken) {
+      if (!credentials.apiUrl || !hasSecret) {
         setValidationStatus('error');
-        setValidationMessage('Please fill in both API URL and access token for API connection');
+        setValidationMessage(needsSecret
+          ? `Please fill in both API URL and ${secretLabel.toLowerCase()} for API connection`
+          : 'Please fill in the feed URL');
+        return;
+      }
+      if (missingAuthFields.length > 0) {
+        setValidationStatus('error');
+        setValidationMessage(`Please fill in the ${missingAuthFields.join(' and ')} for this authentication type`);
         return;
       }
     } else if (connectionType === 'csv') {
@@ -277,6 +451,11 @@ export default function ApiCredentialsStep({ credentials, onCredentialsChange, o
         formData.append('action', 'validateConnection');
         formData.append('apiUrl', credentials.apiUrl);
         formData.append('accessToken', credentials.accessToken);
+        formData.append('authType', authType);
+        formData.append('authConfig', JSON.stringify(authConfig));
+        formData.append('requestConfig', JSON.stringify(requestConfig));
+        formData.append('itemsPath', credentials.itemsPath || '');
+        formData.append('feedFormat', feedFormat);
 
         const resp = await fetch('/app/api/external', {
           method: 'POST',
@@ -325,6 +504,12 @@ export default function ApiCredentialsStep({ credentials, onCredentialsChange, o
       name: editingApi?.name || supplierName || 'API Connection',
       apiUrl: connectionType === 'api' ? credentials.apiUrl : null,
       accessToken: connectionType === 'api' ? credentials.accessToken : null,
+      authType: connectionType === 'api' ? authType : undefined,
+      authConfig: connectionType === 'api' && Object.keys(authConfig).length > 0 ? authConfig : null,
+      requestConfig: connectionType === 'api' && !isDefaultRequestConfig(requestConfig) ? requestConfig : null,
+      itemsPath: connectionType === 'api' ? credentials.itemsPath || null : null,
+      feedFormat: feedFormat,
+      paginationConfig: connectionType === 'api' && pagination.type !== 'none' ? pagination : null,
       csvFileName: connectionType === 'csv' ? csvFile?.name : null,
       supplierName,
       supplierEmail,
@@ -355,7 +540,7 @@ export default function ApiCredentialsStep({ credentials, onCredentialsChange, o
   const canValidate = () => {
     const hasSupplierInfo = Boolean(supplierName) && Boolean(supplierEmail);
     if (connectionType === 'api') {
-      return hasSupplierInfo && Boolean(credentials.apiUrl) && Boolean(credentials.accessToken);
+      return hasSupplierInfo && Boolean(credentials.apiUrl) && hasSecret && missingAuthFields.length === 0;
     } else if (connectionType === 'csv') {
       return hasSupplierInfo && Boolean(csvFile);
     }
@@ -479,11 +664,11 @@ export default function ApiCredentialsStep({ credentials, onCredentialsChange, o
                   </div>
                   
                   <BlockStack>
-               <InlineGrid gap="400" columns={2}>
+               <InlineGrid gap="400" columns={{ xs: 2, md: 4 }}>
 
                     <RadioButton
                       label="API Connection"
-                      checked={connectionType === 'api'}
+                      checked={connectionType === 'api' && feedFormat === 'json'}
                       id="api"
                       name="connectionType"
                       onChange={() => {
@@ -492,6 +677,41 @@ export default function ApiCredentialsStep({ credentials, onCredentialsChange, o
                         setValidationMessage('');
                         setCsvFile(null);
                         setCsvUploadSuccess(false); // Reset CSV upload success
+                        onCredentialsChange({ ...credentials, feedFormat: 'json' });
+                        onConnectionTypeChange?.('api');
+                      }}
+                    />
+                    <RadioButton
+                      label="XML Feed"
+                      helpText="Product or stock feed published as XML"
+                      checked={isXmlFeed}
+                      id="xml"
+                      name="connectionType"
+                      onChange={() => {
+                        setConnectionType('api');
+                        setValidationStatus(null);
+                        setValidationMessage('');
+                        setCsvFile(null);
+                        setCsvUploadSuccess(false);
+                        setItemsPathPreview(null);
+                        onCredentialsChange({ ...credentials, feedFormat: 'xml' });
+                        onConnectionTypeChange?.('api');
+                      }}
+                    />
+                    <RadioButton
+                      label="CSV Feed URL"
+                      helpText="CSV or TSV file downloaded on every sync"
+                      checked={isCsvFeed}
+                      id="csvFeed"
+                      name="connectionType"
+                      onChange={() => {
+                        setConnectionType('api');
+                        setValidationStatus(null);
+                        setValidationMessage('');
+                        setCsvFile(null);
+                        setCsvUploadSuccess(false);
+                        setItemsPathPreview(null);
+                        onCredentialsChange({ ...credentials, feedFormat: 'csv', itemsPath: '' });
                         onConnectionTypeChange?.('api');
                       }}
                     />
@@ -522,7 +742,7 @@ export default function ApiCredentialsStep({ credentials, onCredentialsChange, o
                       <div>
                       <Icon source={LinkIcon} tone='info' />
                       </div>
-                      <Text as="h2" variant="headingMd">API Connection Details</Text>
+                      <Text as="h2" variant="headingMd">{isXmlFeed ? 'XML Feed Details' : isCsvFeed ? 'CSV Feed Details' : 'API Connection Details'}</Text>
                     </div>
                     
                     <FormLayout>
@@ -537,24 +757,269 @@ export default function ApiCredentialsStep({ credentials, onCredentialsChange, o
                       )}
                       
                       <TextField
-                        label="API URL *"
+                        label={feedFormat === 'json' ? 'API URL *' : 'Feed URL *'}
                         type="url"
                         autoComplete="url"
                         value={credentials.apiUrl}
                         onChange={(value) => handleInputChange('apiUrl', value)}
-                        placeholder="https://api.example.com/products"
+                        placeholder={isXmlFeed ? 'https://feeds.example.com/products.xml' : isCsvFeed ? 'https://feeds.example.com/stock.csv' : 'https://api.example.com/products'}
                       />
                       
-                      <TextField
-                        label="Access Token *"
-                        type="password"
-                        autoComplete="off"
-                        value={credentials.accessToken}
-                        onChange={(value) => handleInputChange('accessToken', value)}
-                        placeholder="Enter your access token"
-                        prefix={<Icon source={KeyIcon} />}
+                      <Select
+                        label="Authentication"
+                        options={SUPPLIER_AUTH_TYPES.map(({ value, label }) => ({ value, label }))}
+                        value={authType}
+                        onChange={handleAuthTypeChange}
+                        helpText="How the supplier API expects its credentials"
+                      />
+
+                      {authType === 'api_key' && (
+                        <TextField
+                          label="Header name"
+                          autoComplete="off"
+                          value={authConfig.headerName || ''}
+                          onChange={(value) => handleAuthConfigChange('headerName', value)}
+                          placeholder={DEFAULT_API_KEY_HEADER}
+                        />
+                      )}
+
+                      {authType === 'query' && (
+                        <TextField
+                          label="Query parameter"
+                          autoComplete="off"
+                          value={authConfig.queryParam || ''}
+                          onChange={(value) => handleAuthConfigChange('queryParam', value)}
+                          placeholder={DEFAULT_TOKEN_QUERY_PARAM}
+                          helpText="Added to every request URL, e.g. ?api_key=..."
+                        />
+                      )}
+
+                      {authType === 'basic' && (
+                        <TextField
+                          label="Username *"
+                          autoComplete="off"
+                          value={authConfig.username || ''}
+                          onChange={(value) => handleAuthConfigChange('username', value)}
+                        />
+                      )}
+
+                      {authType === 'oauth2' && (
+                        <>
+                          <TextField
+                            label="Token URL *"
+                            type="url"
+                            autoComplete="off"
+                            value={authConfig.tokenUrl || ''}
+                            onChange={(value) => handleAuthConfigChange('tokenUrl', value)}
+                            placeholder="https://auth.example.com/oauth/token"
+                          />
+                          <FormLayout.Group>
+                            <TextField
+                              label="Client ID *"
+                              autoComplete="off"
+                              value={authConfig.clientId || ''}
+                              onChange={(value) => handleAuthConfigChange('clientId', value)}
+                            />
+                            <TextField
+                              label="Scope"
+                              autoComplete="off"
+                              value={authConfig.scope || ''}
+                              onChange={(value) => handleAuthConfigChange('scope', value)}
+                              placeholder="Optional"
+                            />
+                          </FormLayout.Group>
+                        </>
+                      )}
+
+                      {needsSecret && (
+                        <TextField
+                          label={`${secretLabel} *`}
+                          type="password"
+                          autoComplete="off"
+                          value={credentials.accessToken}
+                          onChange={(value) => handleInputChange('accessToken', value)}
+                          placeholder={`Enter your ${secretLabel.toLowerCase()}`}
+                          prefix={<Icon source={KeyIcon} />}
+                        />
+                      )}
+
+                      <Select
+                        label="Request method"
+                        options={REQUEST_METHOD_OPTIONS}
+                        value={requestConfig.method}
+                        onChange={(value) => handleRequestConfigChange({ method: value as SupplierRequestConfig['method'] })}
+                        helpText="Most feeds are a plain GET; some suppliers expect a POST with a JSON body"
                       />
+
+                      {requestConfig.method === 'POST' && (
+                        <TextField
+                          label="Request body"
+                          autoComplete="off"
+                          multiline={4}
+                          monospaced
+                          value={requestConfig.bodyTemplate || ''}
+                          onChange={(value) => handleRequestConfigChange({ bodyTemplate: value })}
+                          placeholder={'{ "warehouse": "EU-1", "page": {{page}} }'}
+                          helpText="Sent as JSON. {{page}}, {{pageSize}}, {{cursor}} and {{now}} are filled in on every request."
+                        />
+                      )}
+
+                      {renderPairs('headers', 'Header', 'Add header')}
+                      {renderPairs('queryParams', 'Query parameter', 'Add query parameter')}
+
+                      <Select
+                        label="Pagination"
+                        options={paginationOptions}
+                        value={pagination.type}
+                        onChange={(value) => handlePaginationChange('type', value)}
+                        helpText="How the supplier API splits large product feeds across pages"
+                      />
+
+                      {pagination.type === 'page' && (
+                        <FormLayout.Group>
+                          <TextField
+                            label="Page parameter"
+                            autoComplete="off"
+                            value={pagination.pageParam || ''}
+                            onChange={(value) => handlePaginationChange('pageParam', value)}
+                            placeholder="page"
+                          />
+                          <TextField
+                            label="Size parameter"
+                            autoComplete="off"
+                            value={pagination.sizeParam || ''}
+                            onChange={(value) => handlePaginationChange('sizeParam', value)}
+                            placeholder="size"
+                          />
+                          <TextField
+                            label="Page size"
+                            type="number"
+                            autoComplete="off"
+                            value={pagination.pageSize || ''}
+                            onChange={(value) => handlePaginationChange('pageSize', value)}
+                            placeholder="50"
+                          />
+                          <TextField
+                            label="First page"
+                            type="number"
+                            autoComplete="off"
+                            value={pagination.startPage || ''}
+                            onChange={(value) => handlePaginationChange('startPage', value)}
+                            placeholder="1"
+                          />
+                        </FormLayout.Group>
+                      )}
+
+                      {pagination.type === 'next_url' && (
+                        <TextField
+                          label="Next URL path"
+                          autoComplete="off"
+                          value={pagination.nextUrlPath || ''}
+                          onChange={(value) => handlePaginationChange('nextUrlPath', value)}
+                          placeholder="links.next"
+                          helpText="Dot path to the next page URL in the JSON response"
+                        />
+                      )}
+
+                      {pagination.type === 'cursor' && (
+                        <FormLayout.Group>
+                          <TextField
+                            label="Cursor path"
+                            autoComplete="off"
+                            value={pagination.cursorPath || ''}
+                            onChange={(value) => handlePaginationChange('cursorPath', value)}
+                            placeholder="meta.next_cursor"
+                            helpText="Dot path to the next cursor in the JSON response"
+                          />
+                          <TextField
+                            label="Cursor parameter"
+                            autoComplete="off"
+                            value={pagination.cursorParam || ''}
+                            onChange={(value) => handlePaginationChange('cursorParam', value)}
+                            placeholder="cursor"
+                          />
+                        </FormLayout.Group>
+                      )}
+
+                      {pagination.type !== 'none' && (
+                        <TextField
+                          label="Max pages"
+                          type="number"
+                          autoComplete="off"
+                          value={pagination.maxPages || ''}
+                          onChange={(value) => handlePaginationChange('maxPages', value)}
+                          placeholder="100"
+                          helpText="Safety limit - fetching stops after this many pages"
+                        />
+                      )}
+
+                      {!isCsvFeed && (
+                        <BlockStack gap="200">
+                          <TextField
+                            label={isXmlFeed ? 'Product element' : 'Items root'}
+                            autoComplete="off"
+                            value={credentials.itemsPath || ''}
+                            onChange={(value) => handleInputChange('itemsPath', value)}
+                            placeholder={isXmlFeed ? 'Auto-detect (most likely repeating element)' : 'Auto-detect (first array in the response)'}
+                            helpText={isXmlFeed
+                              ? 'Path to the repeating product element, e.g. catalog.products.product. Its child elements and attributes become the fields to map.'
+                              : 'Dot path to the product list in the response, e.g. data.catalog.products'}
+                            connectedRight={
+                              <Button
+                                onClick={detectItemsPath}
+                                loading={isDetectingItemsPath}
+                                disabled={!credentials.apiUrl || !hasSecret}
+                              >
+                                Detect
+                              </Button>
+                            }
+                          />
+
+                          {itemsPathError && (
+                            <Banner tone="critical" onDismiss={() => setItemsPathError('')}>
+                              <p>{itemsPathError}</p>
+                            </Banner>
+                          )}
+
+                          {itemsPathPreview && (
+                            <BlockStack gap="200">
+                              {itemsPathPreview.itemsPath && itemsPathPreview.itemsPath === normalizeItemsPath(credentials.itemsPath) && (
+                                <InlineStack gap="200" blockAlign="center">
+                                  {itemsPathPreview.resolvedCount === null ? (
+                                    <Badge tone="critical">No array at this path</Badge>
+                                  ) : (
+                                    <Badge tone="success">{`${itemsPathPreview.resolvedCount} items on the first page`}</Badge>
+                                  )}
+                                </InlineStack>
+                              )}
+                              {itemsPathPreview.candidates.length === 0 ? (
+                                <Text as="p" variant="bodySm" tone="subdued">
+                                  {isXmlFeed ? 'No repeating elements found in the feed.' : 'No arrays of objects found in the response.'}
+                                </Text>
+                              ) : (
+                                <InlineStack gap="200" blockAlign="center">
+                                  <Text as="span" variant="bodySm" tone="subdued">Found:</Text>
+                                  {itemsPathPreview.candidates.map((candidate) => (
+                                    <Button
+                                      key={candidate.path || '$'}
+                                      size="slim"
+                                      pressed={candidate.path === normalizeItemsPath(credentials.itemsPath)}
+                                      onClick={() => selectItemsPath(candidate)}
+                                    >
+                                      {`${candidate.path || '(response body)'} · ${candidate.count}`}
+                                    </Button>
+                                  ))}
+                                </InlineStack>
+                              )}
+                            </BlockStack>
+                          )}
+                        </BlockStack>
+                      )}
                     </FormLayout>
+
+                    <Box paddingBlockStart="400">
+                      <RequestTestPanel credentials={{ ...credentials, authType, authConfig, requestConfig, feedFormat: feedFormat }} />
+                    </Box>
                   </BlockStack>
                 </Card>
               )}
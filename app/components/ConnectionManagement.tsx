@@ -18,6 +18,7 @@ import {
   Modal,
   Select,
   Checkbox,
+  ChoiceList,
   Banner
 } from '@shopify/polaris';
 import {
@@ -34,10 +35,21 @@ import {
   MenuHorizontalIcon,
   UploadIcon,
   ClockIcon,
-  PlayIcon
+  PlayIcon,
+  ViewIcon,
+  LockIcon,
+  AlertTriangleIcon,
+  UndoIcon
 } from '@shopify/polaris-icons';
 import { useState, useEffect } from 'react';
 import { useNavigate, useLocation } from '@remix-run/react';
+import { downloadChangePlan } from '../utils/changePlan';
+import { UPDATE_FIELD_GROUPS, UPDATE_SCOPE_PRESETS, getUpdateScopePreset, parseUpdateScope } from '../utils/updateScope';
+import type { UpdateFieldGroup } from '../utils/updateScope';
+import { waitForSyncJob } from '../utils/syncJobs';
+import ProductLocksModal from './ProductLocksModal';
+import SyncConflictsModal from './SyncConflictsModal';
+import ImportHistoryModal from './ImportHistoryModal';
 
 interface ScheduleConfig {
   enabled: boolean;
@@ -51,6 +63,43 @@ interface ScheduleConfig {
   conditionOperator: string;
 }
 
+// Mirrors InventorySyncConfig in inventorySync.server.ts, with form-friendly string values
+interface InventorySyncSettings {
+  enabled: boolean;
+  quantityField: string;
+  locationIds: string[];
+  bufferQuantity: string;
+  continueSelling: '' | 'CONTINUE' | 'DENY';
+}
+
+const DEFAULT_INVENTORY_SYNC: InventorySyncSettings = {
+  enabled: false,
+  quantityField: '',
+  locationIds: [],
+  bufferQuantity: '0',
+  continueSelling: ''
+};
+
+// Connections from the loader carry the JSON string; ones edited in this session carry the object
+const parseInventorySyncSettings = (raw: any): InventorySyncSettings => {
+  let config = raw;
+  if (typeof raw === 'string') {
+    try {
+      config = JSON.parse(raw);
+    } catch {
+      config = null;
+    }
+  }
+  if (!config || typeof config !== 'object') return { ...DEFAULT_INVENTORY_SYNC };
+  return {
+    enabled: !!config.enabled,
+    quantityField: config.quantityField || '',
+    locationIds: Array.isArray(config.locationIds) ? config.locationIds : [],
+    bufferQuantity: String(config.bufferQuantity ?? 0),
+    continueSelling: config.continueSelling || ''
+  };
+};
+
 const ConnectionManagement = () => {
 
   const [searchQuery, setSearchQuery] = useState('');
@@ -74,14 +123,23 @@ const ConnectionManagement = () => {
   
   // Edit connection state
   const [editModalOpen, setEditModalOpen] = useState(false);
+  const [locksConnection, setLocksConnection] = useState<any>(null);
+  const [conflictsConnection, setConflictsConnection] = useState<any>(null);
+  const [historyConnection, setHistoryConnection] = useState<any>(null);
   const [editingConnection, setEditingConnection] = useState<any>(null);
   const [editFormData, setEditFormData] = useState({
     name: '',
     apiUrl: '',
     accessToken: '',
     supplierName: '',
-    supplierEmail: ''
+    supplierEmail: '',
+    missingProductPolicy: 'none',
+    missingProductThreshold: '3',
+    inventorySyncConfig: { ...DEFAULT_INVENTORY_SYNC },
+    updateScope: parseUpdateScope(null),
+    conflictPolicy: 'supplier_wins'
   });
+  const [storeLocations, setStoreLocations] = useState<Array<{ label: string; value: string }>>([]);
 
   // Cron job test timer
   const [testTimer, setTestTimer] = useState<number | null>(null);
@@ -89,6 +147,9 @@ const ConnectionManagement = () => {
 
   // Schedule countdown timers
   const [scheduleTimers, setScheduleTimers] = useState<Record<string, number>>({});
+
+  // Progress of per-connection "Sync Now" runs, keyed by connection id
+  const [syncProgress, setSyncProgress] = useState<Record<string, { processed: number; total: number }>>({});
   
 
 
@@ -275,6 +336,11 @@ const ConnectionManagement = () => {
               let scheduleFrequency: any = 'daily';
               let scheduleTime = '09:00';
               
+              // Prefer the dedicated schedule columns used by the server-side scheduler
+              if (c.scheduleFrequency) {
+                return c;
+              }
+
               // Parse schedule data from scheduledTime field
               if (c.scheduledTime) {
                 try {
@@ -424,14 +490,40 @@ const ConnectionManagement = () => {
       apiUrl: connection.apiUrl || '',
       accessToken: connection.accessToken || '',
       supplierName: connection.supplierName || '',
-      supplierEmail: connection.supplierEmail || ''
+      supplierEmail: connection.supplierEmail || '',
+      missingProductPolicy: connection.missingProductPolicy || 'none',
+      missingProductThreshold: String(connection.missingProductThreshold ?? 3),
+      inventorySyncConfig: parseInventorySyncSettings(connection.inventorySyncConfig),
+      updateScope: parseUpdateScope(connection.updateScope),
+      conflictPolicy: connection.conflictPolicy || 'supplier_wins'
     });
+    if (storeLocations.length === 0) {
+      loadStoreLocations();
+    }
     setEditModalOpen(true);
     setMenuOpen(prev => ({ ...prev, [`api${connection.id}`]: false }));
   };
 
 
 
+  const loadStoreLocations = async () => {
+    try {
+      const response = await fetch('/api/fetchStoreLocation');
+      const data = await response.json();
+      const edges = data?.data?.data?.shop?.locations?.edges ?? [];
+      setStoreLocations(edges.map((e: any) => ({ label: e.node.name, value: e.node.id })));
+    } catch (error) {
+      console.error('❌ Error loading store locations:', error);
+    }
+  };
+
+  const updateInventorySync = (field: keyof InventorySyncSettings, value: any) => {
+    setEditFormData(prev => ({
+      ...prev,
+      inventorySyncConfig: { ...prev.inventorySyncConfig, [field]: value }
+    }));
+  };
+
   const handleDeleteConnection = async (connection: any) => {
     const confirmed = confirm(`Are you sure you want to delete the connection "${connection.name}"?\n\nThis action cannot be undone and will remove all associated data.`);
     
@@ -546,25 +638,16 @@ const ConnectionManagement = () => {
                   ...conn, 
                   scheduleEnabled: scheduleConfig.enabled,
                   scheduleFrequency: scheduleConfig.frequency,
-                  scheduleTime: scheduleConfig.time
+                  scheduleTime: scheduleConfig.time,
+                  nextSyncAt: data.connection?.nextSyncAt || null
                 }
               : conn
           ));
         }
         
-        // If it's a test schedule (5 minutes), start the test timer
-        if (scheduleConfig.frequency === 'test' && scheduleConfig.enabled) {
-          console.log('🕐 Starting test schedule for 5 minutes...');
-          startTestTimer();
-          alert('Test schedule started! Cron job will run in 5 minutes.');
-        } else if (scheduleConfig.enabled) {
-          // Start schedule countdown timer
-          const timeUntilSchedule = calculateTimeUntilSchedule(scheduleConfig.time, scheduleConfig.frequency);
-          setScheduleTimers(prev => ({
-            ...prev,
-            [selectedConnection.id]: timeUntilSchedule
-          }));
-          alert('Schedule saved successfully!');
+        // The server-side scheduler runs the sync; nothing needs to stay open in the browser
+        if (scheduleConfig.enabled && data.connection?.nextSyncAt) {
+          alert(`Schedule saved! Next sync: ${new Date(data.connection.nextSyncAt).toLocaleString()}`);
         } else {
           alert('Schedule saved successfully!');
         }
@@ -591,9 +674,8 @@ const ConnectionManagement = () => {
       const data = await response.json();
       
       if (data.success) {
-        console.log('✅ Manual sync completed:', data.results);
-        // TODO: Show success message to user
-        alert('Manual sync completed successfully!');
+        console.log('✅ Manual sync queued:', data.jobs);
+        alert(`${data.message}. The syncs run in the background.`);
       } else {
         console.error('❌ Manual sync failed:', data.error);
         alert('Manual sync failed: ' + data.error);
@@ -606,6 +688,101 @@ const ConnectionManagement = () => {
 
 
 
+  const handleSyncConnection = async (connection: any) => {
+    setMenuOpen(prev => ({ ...prev, [`api${connection.id}`]: false }));
+    setSyncProgress(prev => ({ ...prev, [connection.id]: { processed: 0, total: 0 } }));
+
+    // The sync runs on the job worker; poll its SyncRun for progress while waiting for the job
+    const progressInterval = setInterval(async () => {
+      try {
+        const response = await fetch(`/app/api/sync-runs?connectionId=${connection.id}&limit=1`);
+        const data = await response.json();
+        const run = data.syncRuns?.[0];
+        if (run && run.status === 'running') {
+          setSyncProgress(prev => ({
+            ...prev,
+            [connection.id]: {
+              processed: run.created + run.updated + run.unchanged + run.skipped + run.failed,
+              total: run.totalProducts
+            }
+          }));
+        }
+      } catch (error) {
+        console.error('❌ Error loading sync progress:', error);
+      }
+    }, 2000);
+
+    try {
+      console.log('🚀 Starting sync for connection:', connection.name);
+
+      const formData = new FormData();
+      formData.append('connectionId', connection.id);
+
+      const response = await fetch('/app/api/cron', {
+        method: 'POST',
+        body: formData
+      });
+
+      const data = await response.json();
+      const queuedJob = data.jobs?.[0];
+      const result = queuedJob ? await waitForSyncJob(queuedJob.jobId, connection.name) : data.results?.[0];
+
+      if (data.success && result?.success) {
+        console.log('✅ Connection sync completed:', result);
+        setConnections(prev => prev.map(conn =>
+          conn.id === connection.id
+            ? { ...conn, lastSync: new Date().toISOString(), productCount: result.totalProducts }
+            : conn
+        ));
+        alert(`Sync completed for ${connection.name}: ${result.created} created, ${result.updated} updated, ${result.unchanged || 0} unchanged, ${result.skipped} skipped, ${result.missing || 0} missing, ${result.failed || 0} failed${result.inventoryUpdated ? `, inventory set for ${result.inventoryUpdated}` : ''}`);
+      } else if (result?.stillQueued) {
+        alert(`${connection.name}: ${result.error}`);
+      } else if (data.inProgressSince || result?.inProgressSince) {
+        // Another sync or import holds this connection's lock
+        alert(`Sync already in progress since ${new Date(data.inProgressSince || result.inProgressSince).toLocaleString()}`);
+      } else {
+        console.error('❌ Connection sync failed:', result?.error || data.error);
+        alert('Sync failed: ' + (result?.error || data.error));
+      }
+    } catch (error) {
+      console.error('❌ Error during connection sync:', error);
+      alert('Error during sync');
+    } finally {
+      clearInterval(progressInterval);
+      setSyncProgress(prev => {
+        const { [connection.id]: _finished, ...rest } = prev;
+        return rest;
+      });
+    }
+  };
+
+  // Dry run: see what a sync would change without touching Shopify, as a downloadable CSV plan
+  const handleDryRunConnection = async (connection: any) => {
+    try {
+      const formData = new FormData();
+      formData.append('connectionId', connection.id);
+      formData.append('dryRun', 'true');
+
+      const response = await fetch('/app/api/cron', {
+        method: 'POST',
+        body: formData
+      });
+
+      const data = await response.json();
+      const result = data.results?.[0];
+
+      if (data.success && result?.success) {
+        downloadChangePlan(result.plan || [], `${connection.name}-sync-plan-${new Date().toISOString().slice(0, 10)}.csv`);
+        alert(`Dry run for ${connection.name}: ${result.created} to create, ${result.updated} to update, ${result.unchanged || 0} unchanged, ${result.skipped} skipped. The change plan has been downloaded.`);
+      } else {
+        alert('Dry run failed: ' + (result?.error || data.error));
+      }
+    } catch (error) {
+      console.error('❌ Error during dry run:', error);
+      alert('Error during dry run');
+    }
+  };
+
   // Filter API connections with search
   const apiConnections = connections
     .filter(c => c.type === 'api')
@@ -882,9 +1059,34 @@ const ConnectionManagement = () => {
                                   <Text as="span" variant="bodySm" tone="subdued">
                                     Products: {(connection.productCount || 0).toLocaleString()}
                                   </Text>
+                                  <Text as="span" variant="bodySm" tone="subdued">
+                                    Last sync: {getTimeAgo(connection.lastSync)}
+                                  </Text>
                                   <Text as="span" variant="bodySm" tone="subdued">
                                     Last activity: {getTimeAgo(connection.updatedAt)}
                                   </Text>
+                                  {syncProgress[connection.id] && (
+                                    <Badge tone="info">
+                                      {syncProgress[connection.id].total > 0
+                                        ? `Syncing ${syncProgress[connection.id].processed}/${syncProgress[connection.id].total}`
+                                        : 'Syncing...'}
+                                    </Badge>
+                                  )}
+                                  {!syncProgress[connection.id] && connection.syncInProgress && (
+                                    <Badge tone="attention">
+                                      {`Sync already in progress since ${new Date(connection.syncInProgress.since).toLocaleString()}`}
+                                    </Badge>
+                                  )}
+                                  {connection.openConflicts > 0 && (
+                                    <Badge tone="warning">
+                                      {`${connection.openConflicts} Shopify edit${connection.openConflicts === 1 ? '' : 's'} to review`}
+                                    </Badge>
+                                  )}
+                                  {connection.jobDefinitionVersion && (
+                                    <Text as="span" variant="bodySm" tone="subdued">
+                                      Import settings v{connection.jobDefinitionVersion}
+                                    </Text>
+                                  )}
                                 </InlineStack>
                               </BlockStack>
                             </div>
@@ -905,6 +1107,11 @@ const ConnectionManagement = () => {
                                         {connection.scheduleFrequency}
                                       </Text>
                                     </div>
+                                    {connection.nextSyncAt && (
+                                      <Text as="p" variant="bodySm" tone="subdued">
+                                        Next: {new Date(connection.nextSyncAt).toLocaleString()}
+                                      </Text>
+                                    )}
                                   </BlockStack>
                                 ) : (
                                   <Text as="p" variant="bodySm" tone="subdued">
@@ -927,16 +1134,51 @@ const ConnectionManagement = () => {
                             >
                               <ActionList
                                 items={[
+                                    { 
+                                      content: 'Sync Now', 
+                                      prefix: <Icon source={PlayIcon} />,
+                                      disabled: !!syncProgress[connection.id],
+                                      onAction: () => handleSyncConnection(connection)
+                                    },
+                                    { 
+                                      content: 'Dry Run (download plan)', 
+                                      prefix: <Icon source={ViewIcon} />,
+                                      onAction: () => handleDryRunConnection(connection)
+                                    },
                                     { 
                                       content: 'Edit Connection', 
                                       prefix: <Icon source={LinkIcon} />,
                                       onAction: () => handleEditConnection(connection)
                                     },
-                                    // { 
-                                    //   content: 'Edit Schedule', 
-                                    //   prefix: <Icon source={CalendarIcon} />,
-                                    //   onAction: () => handleEditSchedule(connection)
-                                    // },
+                                    { 
+                                      content: 'Edit Schedule', 
+                                      prefix: <Icon source={CalendarIcon} />,
+                                      onAction: () => handleEditSchedule(connection)
+                                    },
+                                    { 
+                                      content: 'Locked Fields', 
+                                      prefix: <Icon source={LockIcon} />,
+                                      onAction: () => {
+                                        setMenuOpen(prev => ({ ...prev, [`api${connection.id}`]: false }));
+                                        setLocksConnection(connection);
+                                      }
+                                    },
+                                    { 
+                                      content: connection.openConflicts > 0 ? `Shopify Edits (${connection.openConflicts})` : 'Shopify Edits', 
+                                      prefix: <Icon source={AlertTriangleIcon} />,
+                                      onAction: () => {
+                                        setMenuOpen(prev => ({ ...prev, [`api${connection.id}`]: false }));
+                                        setConflictsConnection(connection);
+                                      }
+                                    },
+                                    { 
+                                      content: 'Import History', 
+                                      prefix: <Icon source={UndoIcon} />,
+                                      onAction: () => {
+                                        setMenuOpen(prev => ({ ...prev, [`api${connection.id}`]: false }));
+                                        setHistoryConnection(connection);
+                                      }
+                                    },
                                     { 
                                       content: 'Delete Connection', 
                                       destructive: true, 
@@ -1110,7 +1352,7 @@ const ConnectionManagement = () => {
                       onChange={(value) => 
                         setScheduleConfig(prev => ({ ...prev, time: value }))
                       }
-                      helpText="Set the time for automatic sync"
+                      helpText="In your store's timezone (Settings › General in Shopify)"
                       autoComplete="off"
                     />
                   </Box>
@@ -1121,13 +1363,14 @@ const ConnectionManagement = () => {
                         { label: 'Hourly', value: 'hourly' },
                         { label: 'Daily', value: 'daily' },
                         { label: 'Weekly', value: 'weekly' },
-                        { label: 'Test (5 minutes)', value: 'test' }
+                        { label: 'Monthly', value: 'monthly' },
+                        { label: 'Test (every 5 minutes)', value: 'test' }
                       ]}
                       value={scheduleConfig.frequency}
                       onChange={(value) => 
                         setScheduleConfig(prev => ({ 
                           ...prev, 
-                          frequency: value as 'hourly' | 'daily' | 'weekly' | 'test' 
+                          frequency: value as 'hourly' | 'daily' | 'weekly' | 'monthly' | 'test' 
                         }))
                       }
                     />
@@ -1138,8 +1381,10 @@ const ConnectionManagement = () => {
                   <Box padding="300">
                     <Text as="p" variant="bodySm">
                       {scheduleConfig.frequency === 'test' 
-                        ? 'Next sync: Test run in 5 minutes'
-                        : `Next sync: ${scheduleConfig.frequency} at ${scheduleConfig.time}`
+                        ? 'Next sync: Test run every 5 minutes'
+                        : scheduleConfig.frequency === 'hourly'
+                          ? `Next sync: hourly at minute ${scheduleConfig.time.split(':')[1] || '00'}`
+                          : `Next sync: ${scheduleConfig.frequency} at ${scheduleConfig.time} store time${scheduleConfig.frequency === 'monthly' ? ' (on the last day in shorter months)' : ''}`
                       }
                     </Text>
                       </Box>
@@ -1150,6 +1395,25 @@ const ConnectionManagement = () => {
         </Modal.Section>
       </Modal>
 
+      {/* Product Field Locks Modal */}
+      <ProductLocksModal connection={locksConnection} onClose={() => setLocksConnection(null)} />
+
+      {/* Shopify Edits / Conflicts Modal */}
+      <SyncConflictsModal
+        connection={conflictsConnection}
+        onClose={() => setConflictsConnection(null)}
+        onResolved={() => setConnections(prev => prev.map(conn =>
+          conn.id === conflictsConnection?.id ? { ...conn, openConflicts: Math.max(0, (conn.openConflicts || 0) - 1) } : conn
+        ))}
+      />
+
+      {/* Import History / Rollback Modal */}
+      <ImportHistoryModal
+        open={!!historyConnection}
+        connection={historyConnection}
+        onClose={() => setHistoryConnection(null)}
+      />
+
       {/* Edit Connection Modal */}
       <Modal
         open={editModalOpen}
@@ -1158,6 +1422,7 @@ const ConnectionManagement = () => {
         primaryAction={{
           content: 'Save Changes',
           onAction: handleSaveConnection,
+          disabled: editFormData.updateScope.length === 0,
         }}
         secondaryActions={[
           {
@@ -1204,6 +1469,132 @@ const ConnectionManagement = () => {
               type="email"
               autoComplete="off"
             />
+
+            <Divider />
+
+            <Select
+              label="Recurring syncs update"
+              options={[
+                ...Object.entries(UPDATE_SCOPE_PRESETS).map(([value, preset]) => ({ label: preset.label, value })),
+                { label: 'Custom', value: 'custom' }
+              ]}
+              value={getUpdateScopePreset(editFormData.updateScope)}
+              onChange={(value) => {
+                if (UPDATE_SCOPE_PRESETS[value]) {
+                  setEditFormData(prev => ({ ...prev, updateScope: [...UPDATE_SCOPE_PRESETS[value].groups] }));
+                }
+              }}
+              helpText="Applies to products already in Shopify. New products are always created with the full mapping."
+            />
+
+            <ChoiceList
+              title="Fields a sync may change"
+              titleHidden
+              allowMultiple
+              choices={UPDATE_FIELD_GROUPS}
+              selected={editFormData.updateScope}
+              onChange={(value) => setEditFormData(prev => ({ ...prev, updateScope: value as UpdateFieldGroup[] }))}
+              error={editFormData.updateScope.length === 0 ? 'Choose at least one field group, or syncs would never update existing products' : undefined}
+            />
+
+            <Select
+              label="When a product was edited in Shopify since the last sync"
+              options={[
+                { label: 'Supplier wins (overwrite the edit)', value: 'supplier_wins' },
+                { label: 'Shopify wins (keep and lock the edited fields)', value: 'shopify_wins' },
+                { label: 'Hold the update for review', value: 'review' }
+              ]}
+              value={editFormData.conflictPolicy}
+              onChange={(value) => setEditFormData(prev => ({ ...prev, conflictPolicy: value }))}
+              helpText="Every detected edit is listed under Shopify Edits in the connection menu."
+            />
+
+            <Divider />
+
+            <InlineStack gap="300">
+              <Box minWidth="250px">
+                <Select
+                  label="When a product disappears from the feed"
+                  options={[
+                    { label: 'Do nothing', value: 'none' },
+                    { label: 'Set inventory to 0', value: 'zero_inventory' },
+                    { label: 'Set status to Draft', value: 'draft' },
+                    { label: 'Archive product', value: 'archive' },
+                    { label: 'Tag as "discontinued"', value: 'tag' }
+                  ]}
+                  value={editFormData.missingProductPolicy}
+                  onChange={(value) => setEditFormData(prev => ({ ...prev, missingProductPolicy: value }))}
+                />
+              </Box>
+              <Box minWidth="150px">
+                <TextField
+                  label="After missing runs"
+                  type="number"
+                  min={1}
+                  value={editFormData.missingProductThreshold}
+                  onChange={(value) => setEditFormData(prev => ({ ...prev, missingProductThreshold: value }))}
+                  helpText="Consecutive syncs"
+                  autoComplete="off"
+                  disabled={editFormData.missingProductPolicy === 'none'}
+                />
+              </Box>
+            </InlineStack>
+
+            <Divider />
+
+            <Checkbox
+              label="Sync supplier quantities to Shopify inventory on every run"
+              checked={editFormData.inventorySyncConfig.enabled}
+              onChange={(checked) => updateInventorySync('enabled', checked)}
+            />
+
+            {editFormData.inventorySyncConfig.enabled && (
+              <BlockStack gap="300">
+                <InlineStack gap="300">
+                  <Box minWidth="250px">
+                    <TextField
+                      label="Supplier quantity field"
+                      value={editFormData.inventorySyncConfig.quantityField}
+                      onChange={(value) => updateInventorySync('quantityField', value)}
+                      placeholder="e.g. stock or inventory.available"
+                      helpText="Leave empty to use quantity, stock or inventory_quantity"
+                      autoComplete="off"
+                    />
+                  </Box>
+                  <Box minWidth="150px">
+                    <TextField
+                      label="Buffer quantity"
+                      type="number"
+                      min={0}
+                      value={editFormData.inventorySyncConfig.bufferQuantity}
+                      onChange={(value) => updateInventorySync('bufferQuantity', value)}
+                      helpText="Held back from the supplier quantity"
+                      autoComplete="off"
+                    />
+                  </Box>
+                </InlineStack>
+
+                <Select
+                  label="When out of stock"
+                  options={[
+                    { label: 'Keep current setting', value: '' },
+                    { label: 'Continue selling', value: 'CONTINUE' },
+                    { label: 'Stop selling', value: 'DENY' }
+                  ]}
+                  value={editFormData.inventorySyncConfig.continueSelling}
+                  onChange={(value) => updateInventorySync('continueSelling', value)}
+                />
+
+                <ChoiceList
+                  title="Locations"
+                  allowMultiple
+                  choices={storeLocations}
+                  selected={editFormData.inventorySyncConfig.locationIds}
+                  onChange={(value) => updateInventorySync('locationIds', value)}
+                  error={editFormData.inventorySyncConfig.locationIds.length === 0 ? 'Select at least one location' : undefined}
+                />
+              </BlockStack>
+            )}
           </BlockStack>
         </Modal.Section>
       </Modal>
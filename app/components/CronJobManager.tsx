@@ -14,7 +14,8 @@ import {
   TextField,
   Select,
   Checkbox,
-  Collapsible
+  Collapsible,
+  DataTable
 } from '@shopify/polaris';
 import {
   ClockIcon,
@@ -23,6 +24,7 @@ import {
   AlertCircleIcon,
   SettingsIcon
 } from '@shopify/polaris-icons';
+import { waitForSyncJob } from '../utils/syncJobs';
 
 interface CronJobManagerProps {
   connectionId?: string;
@@ -40,10 +42,38 @@ interface SyncResult {
   created: number;
   updated: number;
   skipped: number;
+  unchanged?: number;
+  failed?: number;
   success: boolean;
+  stillQueued?: boolean; // stopped waiting for the queued job; the result goes to the sync history
   error?: string;
 }
 
+interface SyncRun {
+  id: string;
+  connectionName: string | null;
+  trigger: string;
+  status: string;
+  totalProducts: number;
+  created: number;
+  updated: number;
+  skipped: number;
+  unchanged: number;
+  missing: number;
+  failed: number;
+  errorMessage: string | null;
+  startedAt: string;
+  completedAt: string | null;
+}
+
+interface SyncRunItem {
+  id: string;
+  title: string;
+  sku: string | null;
+  action: string;
+  errorMessage: string | null;
+}
+
 export default function CronJobManager({ connectionId }: CronJobManagerProps) {
   const [isRunning, setIsRunning] = useState(false);
   const [lastSync, setLastSync] = useState<string>('');
@@ -55,12 +85,54 @@ export default function CronJobManager({ connectionId }: CronJobManagerProps) {
     frequency: 'daily'
   });
   const [showScheduleSettings, setShowScheduleSettings] = useState(false);
+  const [syncRuns, setSyncRuns] = useState<SyncRun[]>([]);
+  const [selectedRun, setSelectedRun] = useState<SyncRun | null>(null);
+  const [runItems, setRunItems] = useState<SyncRunItem[]>([]);
+  const [runItemFilter, setRunItemFilter] = useState<string>('failed');
+  const [isLoadingItems, setIsLoadingItems] = useState(false);
 
-  // Load last sync time
+  // Load last sync time and run history
   useEffect(() => {
     loadLastSyncTime();
+    loadSyncRuns();
   }, []);
 
+  const loadSyncRuns = async () => {
+    try {
+      const params = new URLSearchParams();
+      if (connectionId) params.set('connectionId', connectionId);
+      const response = await fetch(`/app/api/sync-runs?${params.toString()}`);
+      const data = await response.json();
+      if (data.success) {
+        setSyncRuns(data.syncRuns || []);
+      }
+    } catch (error) {
+      console.error('Error loading sync history:', error);
+    }
+  };
+
+  const loadRunItems = async (run: SyncRun, itemAction: string) => {
+    setSelectedRun(run);
+    setRunItemFilter(itemAction);
+    setIsLoadingItems(true);
+    try {
+      const params = new URLSearchParams({ runId: run.id });
+      if (itemAction !== 'all') params.set('itemAction', itemAction);
+      const response = await fetch(`/app/api/sync-runs?${params.toString()}`);
+      const data = await response.json();
+      if (data.success) {
+        setRunItems(data.items || []);
+      } else {
+        setError(data.error || 'Failed to load sync run details');
+      }
+    } catch (error) {
+      console.error('Error loading sync run details:', error);
+      setError('Failed to load sync run details');
+    } finally {
+      setIsLoadingItems(false);
+    }
+  };
+
   const loadLastSyncTime = async () => {
     try {
       const response = await fetch('/app/api/connections');
@@ -86,16 +158,25 @@ export default function CronJobManager({ connectionId }: CronJobManagerProps) {
     try {
       console.log('🚀 Starting cron job...');
       
+      const formData = new FormData();
+      if (connectionId) formData.append('connectionId', connectionId);
+
       const response = await fetch('/app/api/cron', {
-        method: 'POST'
+        method: 'POST',
+        body: formData
       });
 
       const data = await response.json();
       
       if (data.success) {
-        console.log('✅ Cron job completed:', data.results);
-        setSyncResults(data.results || []);
+        // The worker runs the queued syncs one after another; wait for all of them
+        const results = data.jobs
+          ? await Promise.all(data.jobs.map((job: any) => waitForSyncJob(job.jobId, job.connectionName)))
+          : data.results || [];
+        console.log('✅ Cron job completed:', results);
+        setSyncResults(results);
         await loadLastSyncTime(); // Refresh last sync time
+        await loadSyncRuns();
       } else {
         setError(data.error || 'Cron job failed');
       }
@@ -121,9 +202,22 @@ export default function CronJobManager({ connectionId }: CronJobManagerProps) {
     return `${diffDays} day${diffDays === 1 ? '' : 's'} ago`;
   };
 
-  const getStatusBadge = (success: boolean) => {
+  const getRunStatusBadge = (status: string) => {
+    switch (status) {
+      case 'completed':
+        return <Badge tone="success">Completed</Badge>;
+      case 'failed':
+        return <Badge tone="critical">Failed</Badge>;
+      default:
+        return <Badge tone="info">Running</Badge>;
+    }
+  };
+
+  const getStatusBadge = (success: boolean, stillQueued?: boolean) => {
     if (success) {
       return <Badge tone="success" icon={CheckCircleIcon}>Success</Badge>;
+    } else if (stillQueued) {
+      return <Badge tone="attention">Still queued</Badge>;
     } else {
       return <Badge tone="critical" icon={AlertCircleIcon}>Failed</Badge>;
     }
@@ -266,7 +360,7 @@ export default function CronJobManager({ connectionId }: CronJobManagerProps) {
                             <Text as="h4" variant="bodyMd" fontWeight="semibold">
                               {result.connectionName}
                             </Text>
-                            {getStatusBadge(result.success)}
+                            {getStatusBadge(result.success, result.stillQueued)}
                           </InlineStack>
 
                           {result.success ? (
@@ -281,13 +375,21 @@ export default function CronJobManager({ connectionId }: CronJobManagerProps) {
                                 <Text as="span" variant="bodySm">
                                   Updated: {result.updated}
                                 </Text>
+                                <Text as="span" variant="bodySm" tone="subdued">
+                                  Unchanged: {result.unchanged || 0}
+                                </Text>
                                 <Text as="span" variant="bodySm" tone="subdued">
                                   Skipped: {result.skipped}
                                 </Text>
+                                {!!result.failed && (
+                                  <Text as="span" variant="bodySm" tone="critical">
+                                    Failed: {result.failed}
+                                  </Text>
+                                )}
                               </InlineStack>
                             </BlockStack>
                           ) : (
-                            <Text as="p" tone="critical" variant="bodySm">
+                            <Text as="p" tone={result.stillQueued ? 'subdued' : 'critical'} variant="bodySm">
                               {result.error}
                             </Text>
                           )}
@@ -298,6 +400,99 @@ export default function CronJobManager({ connectionId }: CronJobManagerProps) {
                 </BlockStack>
               )}
 
+              {/* Sync History */}
+              <BlockStack gap="300">
+                <InlineStack align="space-between" blockAlign="center">
+                  <Text as="h3" variant="headingSm">Sync History</Text>
+                  <Button variant="plain" onClick={loadSyncRuns}>Refresh</Button>
+                </InlineStack>
+
+                {syncRuns.length === 0 ? (
+                  <Text as="p" tone="subdued">No sync runs yet.</Text>
+                ) : (
+                  <DataTable
+                    columnContentTypes={['text', 'text', 'text', 'numeric', 'numeric', 'numeric', 'numeric', 'numeric', 'text']}
+                    headings={['Started', 'Connection', 'Trigger', 'Created', 'Updated', 'Unchanged', 'Skipped', 'Failed', '']}
+                    rows={syncRuns.map((run) => [
+                      <InlineStack key={`${run.id}-status`} gap="200" blockAlign="center">
+                        {getRunStatusBadge(run.status)}
+                        <Text as="span" variant="bodySm">{new Date(run.startedAt).toLocaleString()}</Text>
+                      </InlineStack>,
+                      run.connectionName || '—',
+                      run.trigger === 'scheduled' ? 'Scheduled' : 'Manual',
+                      run.created,
+                      run.updated,
+                      run.unchanged,
+                      run.skipped,
+                      run.failed,
+                      <Button key={`${run.id}-view`} variant="plain" onClick={() => loadRunItems(run, run.failed > 0 ? 'failed' : 'all')}>
+                        View details
+                      </Button>
+                    ])}
+                  />
+                )}
+
+                {selectedRun && (
+                  <Card background="bg-surface-secondary">
+                    <Box padding="300">
+                      <BlockStack gap="300">
+                        <InlineStack align="space-between" blockAlign="center">
+                          <Text as="h4" variant="bodyMd" fontWeight="semibold">
+                            {selectedRun.connectionName || 'Sync run'} — {new Date(selectedRun.startedAt).toLocaleString()}
+                          </Text>
+                          <InlineStack gap="200">
+                            <Box minWidth="150px">
+                              <Select
+                                label="Show"
+                                labelInline
+                                options={[
+                                  { label: 'All products', value: 'all' },
+                                  { label: 'Failed', value: 'failed' },
+                                  { label: 'Created', value: 'created' },
+                                  { label: 'Updated', value: 'updated' },
+                                  { label: 'Unchanged', value: 'unchanged' },
+                                  { label: 'Skipped', value: 'skipped' },
+                                  { label: 'Missing from feed', value: 'missing' }
+                                ]}
+                                value={runItemFilter}
+                                onChange={(value) => loadRunItems(selectedRun, value)}
+                              />
+                            </Box>
+                            <Button variant="plain" onClick={() => setSelectedRun(null)}>Close</Button>
+                          </InlineStack>
+                        </InlineStack>
+
+                        {selectedRun.errorMessage && (
+                          <Banner tone="critical">
+                            <Text as="p">{selectedRun.errorMessage}</Text>
+                          </Banner>
+                        )}
+
+                        {isLoadingItems ? (
+                          <InlineStack gap="200" blockAlign="center">
+                            <Spinner size="small" />
+                            <Text as="span" tone="subdued">Loading products...</Text>
+                          </InlineStack>
+                        ) : runItems.length === 0 ? (
+                          <Text as="p" tone="subdued">No products in this view.</Text>
+                        ) : (
+                          <DataTable
+                            columnContentTypes={['text', 'text', 'text', 'text']}
+                            headings={['SKU', 'Product', 'Action', 'Error']}
+                            rows={runItems.map((item) => [
+                              item.sku || '—',
+                              item.title,
+                              item.action,
+                              item.errorMessage || ''
+                            ])}
+                          />
+                        )}
+                      </BlockStack>
+                    </Box>
+                  </Card>
+                )}
+              </BlockStack>
+
               <Card background="bg-surface-secondary">
                 <Box padding="300">
                   <BlockStack gap="200">
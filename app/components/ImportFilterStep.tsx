@@ -47,7 +47,7 @@ export default function ImportFilterStep({
   onFiltersChange: (next: { selectedAttributes: string[]; selectedValues: string[] }) => void;
   importType: 'all' | 'attribute';
   dataSource: 'api' | 'csv';
-  apiCredentials: { apiUrl: string; accessToken: string };
+  apiCredentials: { apiUrl: string; accessToken: string; authType?: string; authConfig?: any; requestConfig?: any; itemsPath?: string; feedFormat?: string };
   csvData: any;
   mappings?: Record<string, string>;
   onNext: () => void;
@@ -96,6 +96,11 @@ export default function ImportFilterStep({
       formData.append('action', 'fetchSampleData');
       formData.append('apiUrl', apiCredentials.apiUrl);
       formData.append('accessToken', apiCredentials.accessToken);
+      formData.append('authType', apiCredentials.authType || 'bearer');
+      formData.append('authConfig', JSON.stringify(apiCredentials.authConfig || {}));
+      formData.append('requestConfig', JSON.stringify(apiCredentials.requestConfig || {}));
+      formData.append('itemsPath', apiCredentials.itemsPath || '');
+      formData.append('feedFormat', apiCredentials.feedFormat || 'json');
       
       const resp = await fetch('/app/api/external', { method: 'POST', body: formData });
       const data = await resp.json();
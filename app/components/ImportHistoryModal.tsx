@@ -0,0 +1,361 @@
+import { useState, useEffect } from 'react';
+import {
+  Modal,
+  BlockStack,
+  InlineStack,
+  Text,
+  Button,
+  Badge,
+  Banner,
+  Spinner,
+  Divider,
+  DataTable
+} from '@shopify/polaris';
+
+interface ImportHistoryModalProps {
+  open: boolean;
+  connection?: any | null; // limits the list to one connection's imports
+  sessionId?: string | null; // opens straight into the rollback preview of this session
+  onClose: () => void;
+}
+
+interface ImportSessionSummary {
+  id: string;
+  dataSource: string;
+  status: string;
+  totalProducts: number;
+  importedProducts: number;
+  failedProducts: number;
+  errorMessage: string | null;
+  startedAt: string;
+  rolledBackAt: string | null;
+}
+
+interface RollbackPreview {
+  canRollback: boolean;
+  status: string;
+  warning: string | null; // set when products the import updated can't be restored
+  counts: { delete: number; restore: number; skip: number };
+  plan: { shopifyProductId: string; title: string; sku: string | null; action: string; reason?: string }[];
+}
+
+const PREVIEW_ROWS = 100;
+
+const ACTION_LABELS: Record<string, string> = {
+  delete: 'Delete',
+  restore: 'Restore previous values',
+  skip: 'Leave as is',
+  deleted: 'Deleted',
+  restored: 'Restored',
+  skipped: 'Skipped',
+  failed: 'Failed'
+};
+
+const getStatusBadge = (status: string) => {
+  switch (status) {
+    case 'completed':
+      return <Badge tone="success">Completed</Badge>;
+    case 'rolled_back':
+      return <Badge tone="info">Rolled back</Badge>;
+    case 'rolling_back':
+      return <Badge tone="attention">Rolling back</Badge>;
+    case 'rollback_failed':
+      return <Badge tone="critical">Rollback failed</Badge>;
+    case 'failed':
+      return <Badge tone="critical">Failed</Badge>;
+    case 'queued':
+    case 'running':
+    case 'processing':
+      return <Badge tone="attention">In progress</Badge>;
+    default:
+      return <Badge>{status.replace('_', ' ')}</Badge>;
+  }
+};
+
+// Past import sessions. A finished session can be rolled back: the preview lists what would be
+// deleted (created by the import) or restored (updated by it), and the report what actually happened.
+export default function ImportHistoryModal({ open, connection, sessionId, onClose }: ImportHistoryModalProps) {
+  const [sessions, setSessions] = useState<ImportSessionSummary[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [preview, setPreview] = useState<RollbackPreview | null>(null);
+  const [report, setReport] = useState<any>(null);
+  const [rollbackStatus, setRollbackStatus] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!open) return;
+    setPreview(null);
+    setReport(null);
+    setError('');
+    if (sessionId) {
+      loadPreview(sessionId);
+    } else {
+      setSelectedId(null);
+      loadSessions();
+    }
+  }, [open, connection?.id, sessionId]);
+
+  // Follow a queued rollback until the job finishes
+  useEffect(() => {
+    if (!selectedId || rollbackStatus !== 'rolling_back') return;
+    const interval = setInterval(() => loadSession(selectedId), 3000);
+    return () => clearInterval(interval);
+  }, [selectedId, rollbackStatus]);
+
+  const loadSessions = async () => {
+    setIsLoading(true);
+    try {
+      const params = new URLSearchParams(connection ? { connectionId: connection.id } : {});
+      const response = await fetch(`/app/api/import-sessions?${params.toString()}`);
+      const data = await response.json();
+      if (data.success) {
+        setSessions(data.importSessions || []);
+      } else {
+        setError(data.error || 'Failed to load imports');
+      }
+    } catch (error) {
+      console.error('Error loading import sessions:', error);
+      setError('Failed to load imports');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const loadSession = async (id: string) => {
+    try {
+      const response = await fetch(`/app/api/import-sessions?sessionId=${encodeURIComponent(id)}`);
+      const data = await response.json();
+      if (data.success) {
+        setRollbackStatus(data.importSession.status);
+        setReport(data.importSession.rollbackReport);
+        if (data.importSession.status === 'rollback_failed' && data.importSession.errorMessage) {
+          setError(data.importSession.errorMessage);
+        }
+      }
+    } catch (error) {
+      console.error('Error loading import session:', error);
+    }
+  };
+
+  const loadPreview = async (id: string) => {
+    setSelectedId(id);
+    setPreview(null);
+    setReport(null);
+    setError('');
+    setIsLoading(true);
+    try {
+      const params = new URLSearchParams({ sessionId: id, preview: 'rollback' });
+      const response = await fetch(`/app/api/import-sessions?${params.toString()}`);
+      const data = await response.json();
+      if (data.success) {
+        setPreview(data);
+        setRollbackStatus(data.status);
+        if (['rolling_back', 'rolled_back', 'rollback_failed'].includes(data.status)) {
+          await loadSession(id);
+        }
+      } else {
+        setError(data.error || 'Failed to load rollback preview');
+      }
+    } catch (error) {
+      console.error('Error loading rollback preview:', error);
+      setError('Failed to load rollback preview');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const confirmRollback = async () => {
+    if (!selectedId) return;
+    setIsSubmitting(true);
+    setError('');
+    try {
+      const response = await fetch('/app/api/import-sessions', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ sessionId: selectedId, intent: 'rollback' })
+      });
+      const data = await response.json();
+      if (data.success) {
+        setRollbackStatus('rolling_back');
+        setReport(null);
+      } else {
+        setError(data.error || 'Failed to start rollback');
+      }
+    } catch (error) {
+      console.error('Error starting rollback:', error);
+      setError('Failed to start rollback');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const backToList = () => {
+    setSelectedId(null);
+    setPreview(null);
+    setReport(null);
+    setError('');
+    loadSessions();
+  };
+
+  const renderSessions = () => (
+    sessions.length === 0 ? (
+      <Text as="p" tone="subdued">No imports yet.</Text>
+    ) : (
+      <BlockStack gap="300">
+        {sessions.map((importSession) => (
+          <BlockStack key={importSession.id} gap="200">
+            <InlineStack align="space-between" blockAlign="center">
+              <BlockStack gap="100">
+                <InlineStack gap="200" blockAlign="center">
+                  <Text as="p" fontWeight="semibold">{new Date(importSession.startedAt).toLocaleString()}</Text>
+                  {getStatusBadge(importSession.status)}
+                </InlineStack>
+                <Text as="p" variant="bodySm" tone="subdued">
+                  {importSession.dataSource === 'csv' ? 'CSV' : 'API'} · {importSession.importedProducts} imported · {importSession.failedProducts} failed of {importSession.totalProducts}
+                  {importSession.rolledBackAt && ` · Rolled back ${new Date(importSession.rolledBackAt).toLocaleString()}`}
+                </Text>
+              </BlockStack>
+              <Button onClick={() => loadPreview(importSession.id)}>
+                {['rolled_back', 'rolling_back', 'rollback_failed'].includes(importSession.status) ? 'View rollback' : 'Roll back'}
+              </Button>
+            </InlineStack>
+            <Divider />
+          </BlockStack>
+        ))}
+      </BlockStack>
+    )
+  );
+
+  const renderPreview = () => {
+    if (!preview) return null;
+    const actionable = preview.counts.delete + preview.counts.restore;
+
+    return (
+      <BlockStack gap="300">
+        {preview.warning && (
+          <Banner tone="critical">
+            <p>{preview.warning}</p>
+          </Banner>
+        )}
+
+        {preview.canRollback ? (
+          <Banner tone="warning">
+            <p>
+              Rolling back deletes {preview.counts.delete} product{preview.counts.delete === 1 ? '' : 's'} this import created
+              and restores the previous values of {preview.counts.restore} product{preview.counts.restore === 1 ? '' : 's'} it updated.
+              {preview.counts.skip > 0 && ` ${preview.counts.skip} will be left as they are.`} This can&apos;t be undone.
+            </p>
+          </Banner>
+        ) : (
+          <Text as="p" tone="subdued">
+            This import is {preview.status.replace('_', ' ')} and can&apos;t be rolled back right now.
+          </Text>
+        )}
+
+        {preview.plan.length > 0 && (
+          <DataTable
+            columnContentTypes={['text', 'text', 'text', 'text']}
+            headings={['Product', 'SKU', 'Rollback', 'Note']}
+            rows={preview.plan.slice(0, PREVIEW_ROWS).map((entry) => [
+              entry.title,
+              entry.sku || '—',
+              ACTION_LABELS[entry.action] || entry.action,
+              entry.reason || ''
+            ])}
+            footerContent={preview.plan.length > PREVIEW_ROWS ? `Showing ${PREVIEW_ROWS} of ${preview.plan.length} products` : undefined}
+          />
+        )}
+
+        {preview.canRollback && (
+          <InlineStack>
+            <Button
+              variant="primary"
+              tone="critical"
+              loading={isSubmitting}
+              disabled={actionable === 0}
+              onClick={confirmRollback}
+            >
+              {`Roll back ${actionable} product${actionable === 1 ? '' : 's'}`}
+            </Button>
+          </InlineStack>
+        )}
+      </BlockStack>
+    );
+  };
+
+  const renderReport = () => (
+    <BlockStack gap="300">
+      {rollbackStatus === 'rolling_back' ? (
+        <InlineStack gap="200" blockAlign="center">
+          <Spinner size="small" />
+          <Text as="p">Rolling back...</Text>
+        </InlineStack>
+      ) : report && (
+        <Banner tone={report.failed > 0 || rollbackStatus === 'rollback_failed' ? 'warning' : 'success'}>
+          <p>
+            {report.deleted} deleted · {report.restored} restored · {report.skipped} skipped · {report.failed} failed
+          </p>
+        </Banner>
+      )}
+
+      {report?.entries?.length > 0 && (
+        <DataTable
+          columnContentTypes={['text', 'text', 'text', 'text']}
+          headings={['Product', 'SKU', 'Result', 'Details']}
+          rows={report.entries.slice(0, PREVIEW_ROWS).map((entry: any) => [
+            entry.title,
+            entry.sku || '—',
+            ACTION_LABELS[entry.result] || entry.result,
+            entry.message || ''
+          ])}
+          footerContent={report.entries.length > PREVIEW_ROWS ? `Showing ${PREVIEW_ROWS} of ${report.entries.length} products` : undefined}
+        />
+      )}
+
+      {rollbackStatus === 'rollback_failed' && (
+        <InlineStack>
+          <Button loading={isSubmitting} onClick={confirmRollback}>Retry rollback</Button>
+        </InlineStack>
+      )}
+    </BlockStack>
+  );
+
+  const showReport = ['rolling_back', 'rolled_back', 'rollback_failed'].includes(rollbackStatus);
+
+  return (
+    <Modal
+      open={open}
+      onClose={onClose}
+      title={connection ? `Import History - ${connection.name}` : 'Import History'}
+      secondaryActions={[
+        ...(selectedId && !sessionId ? [{ content: 'Back to imports', onAction: backToList }] : []),
+        { content: 'Close', onAction: onClose }
+      ]}
+      size="large"
+    >
+      <Modal.Section>
+        <BlockStack gap="400">
+          {error && (
+            <Banner tone="critical" onDismiss={() => setError('')}>
+              <p>{error}</p>
+            </Banner>
+          )}
+
+          {isLoading ? (
+            <InlineStack align="center">
+              <Spinner size="small" />
+            </InlineStack>
+          ) : !selectedId ? (
+            renderSessions()
+          ) : showReport ? (
+            renderReport()
+          ) : (
+            renderPreview()
+          )}
+        </BlockStack>
+      </Modal.Section>
+    </Modal>
+  );
+}
@@ -9,7 +9,9 @@ import {
   Button
 } from "@shopify/polaris";
 import {useNavigate} from "@remix-run/react";
-import { PlayIcon, StopCircleIcon, ArrowLeftIcon } from "@shopify/polaris-icons";
+import { PlayIcon, PauseCircleIcon, StopCircleIcon, ArrowLeftIcon, UndoIcon } from "@shopify/polaris-icons";
+import { downloadChangePlan, summarizeChangePlan } from "../utils/changePlan";
+import ImportHistoryModal from "./ImportHistoryModal";
 
 interface ImportSummaryProps {
   dataSource: 'api' | 'csv';
@@ -36,10 +38,17 @@ export default function ImportProcessStep(props: ImportSummaryProps) {
   const [total, setTotal] = useState(0);
   const [currentProduct, setCurrentProduct] = useState('');
   const [importSessionId, setImportSessionId] = useState('');
+  const [sessionStatus, setSessionStatus] = useState('');
+  const [isControlling, setIsControlling] = useState(false);
+  const [showRollback, setShowRollback] = useState(false);
+  const [isPlanning, setIsPlanning] = useState(false);
+  const [planSummary, setPlanSummary] = useState('');
 
   const processed = success + failed;
   const remaining = Math.max(0, total - processed); // Prevent negative values
   const progress = total > 0 ? Math.min(100, Math.round((processed / total) * 100)) : 0;
+  // Interrupted imports (the server stopped mid-run) resume from their checkpoints like paused ones
+  const canResume = sessionStatus === 'paused' || sessionStatus === 'interrupted';
 
   // Real-time progress tracking
   useEffect(() => {
@@ -91,9 +100,22 @@ export default function ImportProcessStep(props: ImportSummaryProps) {
             setTotal(newTotal);
             setCurrentProduct(newCurrentProduct);
           }
+
+          setSessionStatus(data.status || '');
+
+          // Queued, paused and bulk operation imports report their stage rather than the last product
+          if (data.bulkOperation || ['queued', 'running', 'paused', 'interrupted', 'cancelled', 'failed'].includes(data.status)) {
+            setCurrentProduct(data.errorMessage && data.status === 'failed' ? `${newCurrentProduct}: ${data.errorMessage}` : newCurrentProduct);
+          }
+
+          // A paused import keeps the progress view (with Resume) but stops polling
+          if (data.status === 'paused') {
+            setRunning(false);
+            return;
+          }
           
           // Stop if import is complete
-          if (newTotal > 0 && (newImported + newFailed) >= newTotal) {
+          if ((newTotal > 0 && (newImported + newFailed) >= newTotal) || ['completed', 'cancelled', 'failed'].includes(data.status)) {
             console.log('🎉 Import completed!');
             setRunning(false);
             setIsImporting(false);
@@ -112,6 +134,31 @@ export default function ImportProcessStep(props: ImportSummaryProps) {
     };
   }, [isImporting, running, importSessionId]);
 
+  // Pause, resume or cancel the running import session on the server
+  async function controlImport(controlAction: 'pauseImport' | 'resumeImport' | 'cancelImport') {
+    if (!importSessionId) return;
+    setIsControlling(true);
+    try {
+      const fd = new FormData();
+      fd.append('action', controlAction);
+      fd.append('sessionId', importSessionId);
+      const resp = await fetch(`/app/api/shopify?action=${controlAction}`, { method: 'POST', body: fd });
+      const data = await resp.json();
+      if (data.success) {
+        setSessionStatus(data.status);
+        // Keep polling until the worker has actually stopped (or picked the import up again)
+        if (controlAction === 'resumeImport') setCurrentProduct('Resuming...');
+        setRunning(true);
+      } else {
+        setCurrentProduct(`Error: ${data.error}`);
+      }
+    } catch (error) {
+      console.error(`❌ ${controlAction} error:`, error);
+    } finally {
+      setIsControlling(false);
+    }
+  }
+
   // stop automatically when done
   useEffect(() => {
     console.log('🔄 Completion check:', { processed, total, running });
@@ -140,10 +187,38 @@ export default function ImportProcessStep(props: ImportSummaryProps) {
     return importConfig;
   }
 
+  // Dry run: ask the backend what the import would do and download the plan as CSV
+  async function previewImport() {
+    setIsPlanning(true);
+    setPlanSummary('');
+    try {
+      const fd = new FormData();
+      fd.append('action', 'bulkCreateProducts');
+      fd.append('data', JSON.stringify({ ...buildProductsFromState(), dryRun: true }));
+
+      const resp = await fetch('/app/api/shopify?action=bulkCreateProducts', { method: 'POST', body: fd });
+      const data = await resp.json();
+
+      if (data.success && data.plan) {
+        const counts = summarizeChangePlan(data.plan);
+        setPlanSummary(`Dry run: ${counts.create || 0} to create, ${counts.update || 0} to update, ${counts.skip || 0} skipped. Change plan downloaded.`);
+        downloadChangePlan(data.plan, `import-plan-${new Date().toISOString().slice(0, 10)}.csv`);
+      } else {
+        setPlanSummary(`Dry run failed: ${data.error || 'Unknown error'}`);
+      }
+    } catch (error) {
+      console.error('❌ Dry run error:', error);
+      setPlanSummary('Dry run failed - please try again');
+    } finally {
+      setIsPlanning(false);
+    }
+  }
+
   function startImport() {
     console.log('Starting import with product count:', props.productCount);
     setIsImporting(true);
     setRunning(true);
+    setSessionStatus('');
     setSuccess(0);
     setFailed(0);
     setTotal(props.productCount); // Initialize with expected product count
@@ -184,7 +259,7 @@ export default function ImportProcessStep(props: ImportSummaryProps) {
             console.log('📋 Session ID received:', data.sessionId);
             setImportSessionId(data.sessionId || '');
             setTotal(data.totalProducts || props.productCount);
-            setCurrentProduct('Import completed!');
+            setCurrentProduct(data.queued ? 'Import queued' : 'Import completed!');
             setSuccess(data.imported || 0);
             setFailed(data.failed || 0);
             
@@ -304,8 +379,14 @@ export default function ImportProcessStep(props: ImportSummaryProps) {
 
                 <InlineStack gap="200"  >
                   <Button icon={PlayIcon} onClick={startImport}>Start Import</Button>
+                  <Button onClick={previewImport} loading={isPlanning} disabled={isPlanning}>Dry Run (download plan)</Button>
                   <Button onClick={() => navigate('/app/connection-management')} variant="secondary">Go to Dashboard</Button>
                 </InlineStack>
+                {planSummary && (
+                  <Box paddingBlockStart="200">
+                    <Text as="p" variant="bodySm" tone="subdued">{planSummary}</Text>
+                  </Box>
+                )}
               </Box> 
           </Layout.Section>
         )}
@@ -316,13 +397,29 @@ export default function ImportProcessStep(props: ImportSummaryProps) {
               <Box padding="400">
                 <InlineStack align="space-between" blockAlign="center">
                   <Text as="h3" variant="headingMd">Import Progress</Text>
-                  <Button
-                    icon={running ? StopCircleIcon : PlayIcon}
-                    onClick={() => setRunning((r) => !r)}
-                    disabled={processed >= total}
-                  >
-                    {running ? 'Pause' : 'Resume'}
-                  </Button>
+                  <InlineStack gap="200">
+                    <Button
+                      icon={canResume ? PlayIcon : PauseCircleIcon}
+                      onClick={() => controlImport(canResume ? 'resumeImport' : 'pauseImport')}
+                      loading={isControlling}
+                      disabled={!importSessionId || processed >= total || ['completed', 'cancelled', 'failed'].includes(sessionStatus)}
+                    >
+                      {canResume ? 'Resume' : 'Pause'}
+                    </Button>
+                    <Button
+                      icon={StopCircleIcon}
+                      tone="critical"
+                      onClick={() => controlImport('cancelImport')}
+                      disabled={isControlling || !importSessionId || processed >= total || ['completed', 'cancelled', 'failed'].includes(sessionStatus)}
+                    >
+                      Cancel
+                    </Button>
+                    {['completed', 'cancelled', 'failed'].includes(sessionStatus) && (
+                      <Button icon={UndoIcon} onClick={() => setShowRollback(true)}>
+                        Roll back import
+                      </Button>
+                    )}
+                  </InlineStack>
                 </InlineStack>
 
                 {/* progress bar */}
@@ -470,6 +567,11 @@ export default function ImportProcessStep(props: ImportSummaryProps) {
           </Layout.Section>
         )}
       </Layout>
+      <ImportHistoryModal
+        open={showRollback}
+        sessionId={importSessionId}
+        onClose={() => setShowRollback(false)}
+      />
     </Page>
     </Card>
   );
@@ -44,7 +44,7 @@ interface KeyMappingStepProps {
   mappings: Record<string, string>;
   onMappingsChange: (next: Record<string, string>) => void;
   dataSource: 'api' | 'csv';
-  apiCredentials?: { apiUrl: string; accessToken: string };
+  apiCredentials?: { apiUrl: string; accessToken: string; authType?: string; authConfig?: any; requestConfig?: any; itemsPath?: string; feedFormat?: string };
   csvData: any;
   onNext: () => void;
   onPrevious: () => void;
@@ -144,6 +144,11 @@ export default function KeyMappingStep({
       formData.append('action', 'fetchSampleFields');
       formData.append('apiUrl', apiCredentials.apiUrl);
       formData.append('accessToken', apiCredentials.accessToken);
+      formData.append('authType', apiCredentials.authType || 'bearer');
+      formData.append('authConfig', JSON.stringify(apiCredentials.authConfig || {}));
+      formData.append('requestConfig', JSON.stringify(apiCredentials.requestConfig || {}));
+      formData.append('itemsPath', apiCredentials.itemsPath || '');
+      formData.append('feedFormat', apiCredentials.feedFormat || 'json');
       const resp = await fetch('/app/api/external', { method: 'POST', body: formData });
       const data = await resp.json();
       if (resp.ok && data?.success) {
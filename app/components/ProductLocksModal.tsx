@@ -0,0 +1,198 @@
+import { useState, useEffect } from 'react';
+import {
+  Modal,
+  BlockStack,
+  InlineStack,
+  Text,
+  TextField,
+  Button,
+  Badge,
+  Banner,
+  Box,
+  ChoiceList,
+  Spinner,
+  Divider
+} from '@shopify/polaris';
+import { LOCKABLE_FIELDS, LOCK_METAFIELD_KEY, LOCK_METAFIELD_NAMESPACE, LOCK_TAG_PREFIX } from '../utils/fieldLocks';
+import type { LockableField } from '../utils/fieldLocks';
+
+interface ProductLocksModalProps {
+  connection: any | null;
+  onClose: () => void;
+}
+
+interface LockedProduct {
+  id: string;
+  title: string;
+  sku: string | null;
+  shopifyProductId: string | null;
+  lockedFields: LockableField[];
+}
+
+const fieldLabel = (field: LockableField) => LOCKABLE_FIELDS.find(option => option.value === field)?.label || field;
+
+// Lists a connection's imported products and lets the merchant freeze individual fields,
+// which recurring syncs and re-imports then leave untouched
+export default function ProductLocksModal({ connection, onClose }: ProductLocksModalProps) {
+  const [products, setProducts] = useState<LockedProduct[]>([]);
+  const [search, setSearch] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [editingProductId, setEditingProductId] = useState<string | null>(null);
+  const [editingFields, setEditingFields] = useState<LockableField[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (connection) {
+      setSearch('');
+      setEditingProductId(null);
+      loadProducts('');
+    }
+  }, [connection?.id]);
+
+  const loadProducts = async (query: string) => {
+    if (!connection) return;
+    setIsLoading(true);
+    setError('');
+    try {
+      const params = new URLSearchParams({ connectionId: connection.id });
+      if (query.trim()) params.set('q', query.trim());
+      const response = await fetch(`/app/api/imported-products?${params.toString()}`);
+      const data = await response.json();
+      if (data.success) {
+        setProducts(data.products || []);
+      } else {
+        setError(data.error || 'Failed to load products');
+      }
+    } catch (error) {
+      console.error('Error loading imported products:', error);
+      setError('Failed to load products');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const startEditing = (product: LockedProduct) => {
+    setEditingProductId(product.id);
+    setEditingFields(product.lockedFields);
+  };
+
+  const saveLocks = async () => {
+    if (!editingProductId) return;
+    setIsSaving(true);
+    setError('');
+    try {
+      const response = await fetch('/app/api/imported-products', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ productId: editingProductId, lockedFields: editingFields })
+      });
+      const data = await response.json();
+      if (data.success) {
+        setProducts(prev => prev.map(product =>
+          product.id === editingProductId ? { ...product, lockedFields: data.lockedFields } : product
+        ));
+        setEditingProductId(null);
+      } else {
+        setError(data.error || 'Failed to save locked fields');
+      }
+    } catch (error) {
+      console.error('Error saving locked fields:', error);
+      setError('Failed to save locked fields');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      open={!!connection}
+      onClose={onClose}
+      title={`Locked Fields - ${connection?.name || 'Connection'}`}
+      secondaryActions={[{ content: 'Close', onAction: onClose }]}
+      size="large"
+    >
+      <Modal.Section>
+        <BlockStack gap="400">
+          <Text as="p" variant="bodySm" tone="subdued">
+            Locked fields are never changed by syncs or re-imports; the rest of the product keeps updating.
+            You can also lock fields in Shopify by tagging a product {LOCK_TAG_PREFIX}price (or {LOCK_TAG_PREFIX}all),
+            or with the {LOCK_METAFIELD_NAMESPACE}.{LOCK_METAFIELD_KEY} metafield.
+          </Text>
+
+          {error && (
+            <Banner tone="critical" onDismiss={() => setError('')}>
+              <p>{error}</p>
+            </Banner>
+          )}
+
+          <InlineStack gap="200" blockAlign="end">
+            <Box minWidth="320px">
+              <TextField
+                label="Search products"
+                labelHidden
+                placeholder="Search by title or SKU"
+                value={search}
+                onChange={setSearch}
+                autoComplete="off"
+              />
+            </Box>
+            <Button onClick={() => loadProducts(search)}>Search</Button>
+          </InlineStack>
+
+          {isLoading ? (
+            <InlineStack align="center">
+              <Spinner size="small" />
+            </InlineStack>
+          ) : products.length === 0 ? (
+            <Text as="p" tone="subdued">No imported products found for this connection.</Text>
+          ) : (
+            <BlockStack gap="300">
+              {products.map((product) => (
+                <BlockStack key={product.id} gap="200">
+                  <InlineStack align="space-between" blockAlign="center" wrap={false}>
+                    <BlockStack gap="100">
+                      <Text as="p" fontWeight="semibold">{product.title}</Text>
+                      <Text as="p" variant="bodySm" tone="subdued">SKU: {product.sku || '—'}</Text>
+                      <InlineStack gap="100">
+                        {product.lockedFields.length === 0 ? (
+                          <Text as="span" variant="bodySm" tone="subdued">No locked fields</Text>
+                        ) : (
+                          product.lockedFields.map(field => (
+                            <Badge key={field} tone="attention">{fieldLabel(field)}</Badge>
+                          ))
+                        )}
+                      </InlineStack>
+                    </BlockStack>
+                    {editingProductId !== product.id && (
+                      <Button variant="plain" onClick={() => startEditing(product)}>Edit locks</Button>
+                    )}
+                  </InlineStack>
+
+                  {editingProductId === product.id && (
+                    <Box padding="300" background="bg-surface-secondary" borderRadius="200">
+                      <BlockStack gap="300">
+                        <ChoiceList
+                          title="Locked fields"
+                          allowMultiple
+                          choices={LOCKABLE_FIELDS.map(field => ({ label: field.label, value: field.value }))}
+                          selected={editingFields}
+                          onChange={(selected) => setEditingFields(selected as LockableField[])}
+                        />
+                        <InlineStack gap="200">
+                          <Button variant="primary" loading={isSaving} onClick={saveLocks}>Save locks</Button>
+                          <Button onClick={() => setEditingProductId(null)}>Cancel</Button>
+                        </InlineStack>
+                      </BlockStack>
+                    </Box>
+                  )}
+                  <Divider />
+                </BlockStack>
+              ))}
+            </BlockStack>
+          )}
+        </BlockStack>
+      </Modal.Section>
+    </Modal>
+  );
+}
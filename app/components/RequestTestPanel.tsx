@@ -0,0 +1,153 @@
+import { useState } from 'react';
+import {
+  BlockStack,
+  InlineStack,
+  Text,
+  Button,
+  Badge,
+  Banner,
+  Box,
+  Collapsible,
+  Divider
+} from '@shopify/polaris';
+import { SendIcon } from '@shopify/polaris-icons';
+
+interface RequestTestPanelProps {
+  credentials: {
+    apiUrl: string;
+    accessToken: string;
+    authType?: string;
+    authConfig?: any;
+    requestConfig?: any;
+    feedFormat?: string;
+  };
+}
+
+const preStyle = {
+  margin: 0,
+  maxHeight: 320,
+  overflow: 'auto',
+  whiteSpace: 'pre-wrap' as const,
+  wordBreak: 'break-all' as const,
+  fontSize: 12
+};
+
+// Pretty-prints JSON bodies; anything else (XML, CSV, HTML error pages) is shown as received
+const formatBody = (body: string) => {
+  try {
+    return JSON.stringify(JSON.parse(body), null, 2);
+  } catch {
+    return body;
+  }
+};
+
+// Sends one request with the connection's current settings and shows what the supplier returned,
+// before any item extraction or field mapping.
+export default function RequestTestPanel({ credentials }: RequestTestPanelProps) {
+  const [isSending, setIsSending] = useState(false);
+  const [result, setResult] = useState<any>(null);
+  const [error, setError] = useState('');
+  const [showHeaders, setShowHeaders] = useState(false);
+
+  const sendTestRequest = async () => {
+    setIsSending(true);
+    setError('');
+    setResult(null);
+    try {
+      const formData = new FormData();
+      formData.append('action', 'testRequest');
+      formData.append('apiUrl', credentials.apiUrl);
+      formData.append('accessToken', credentials.accessToken);
+      formData.append('authType', credentials.authType || 'bearer');
+      formData.append('authConfig', JSON.stringify(credentials.authConfig || {}));
+      formData.append('requestConfig', JSON.stringify(credentials.requestConfig || {}));
+      formData.append('feedFormat', credentials.feedFormat || 'json');
+
+      const resp = await fetch('/app/api/external', { method: 'POST', body: formData });
+      const data = await resp.json().catch(() => ({}));
+      setResult(data);
+      if (!data?.success) {
+        setError(data?.error || 'Test request failed');
+      }
+    } catch (error: any) {
+      console.error('Error sending test request:', error);
+      setError(error?.message || 'Test request failed');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const response = result?.response;
+  const statusTone = !response ? undefined : response.status < 300 ? 'success' : response.status < 500 ? 'warning' : 'critical';
+
+  return (
+    <Box padding="300" borderRadius="200" background="bg-surface-secondary">
+      <BlockStack gap="300">
+        <InlineStack align="space-between" blockAlign="center">
+          <BlockStack gap="100">
+            <Text as="h3" variant="headingSm">Test request</Text>
+            <Text as="p" variant="bodySm" tone="subdued">
+              Sends one request with the settings above and shows the raw response
+            </Text>
+          </BlockStack>
+          <Button
+            icon={SendIcon}
+            onClick={sendTestRequest}
+            loading={isSending}
+            disabled={!credentials.apiUrl || (!credentials.accessToken && credentials.authType !== 'none')}
+          >
+            Send test request
+          </Button>
+        </InlineStack>
+
+        {error && (
+          <Banner tone="critical" onDismiss={() => setError('')}>
+            <p>{error}</p>
+          </Banner>
+        )}
+
+        {result?.request && (
+          <BlockStack gap="100">
+            <Text as="p" variant="bodySm" fontWeight="semibold">
+              {result.request.method} {result.request.url}
+            </Text>
+            {result.request.body && <pre style={preStyle}>{result.request.body}</pre>}
+          </BlockStack>
+        )}
+
+        {response && (
+          <BlockStack gap="200">
+            <Divider />
+            <InlineStack gap="200" blockAlign="center">
+              <Badge tone={statusTone}>{`${response.status} ${response.statusText || ''}`.trim()}</Badge>
+              <Text as="span" variant="bodySm" tone="subdued">
+                {response.durationMs} ms · {response.headers['content-type'] || 'no content type'} · {response.size.toLocaleString()} characters
+              </Text>
+              <Button variant="plain" onClick={() => setShowHeaders(!showHeaders)}>
+                {showHeaders ? 'Hide headers' : 'Show headers'}
+              </Button>
+            </InlineStack>
+
+            <Collapsible open={showHeaders} id="test-request-headers">
+              <pre style={preStyle}>
+                {[
+                  'Sent:',
+                  ...Object.entries(result.request?.headers || {}).map(([name, value]) => `  ${name}: ${value}`),
+                  'Received:',
+                  ...Object.entries(response.headers).map(([name, value]) => `  ${name}: ${value}`)
+                ].join('\n')}
+              </pre>
+            </Collapsible>
+
+            <pre style={preStyle}>{formatBody(response.body) || '(empty body)'}</pre>
+            {response.truncated && (
+              <Text as="p" variant="bodySm" tone="subdued">
+                Showing the first 20,000 characters of the response.
+              </Text>
+            )}
+          </BlockStack>
+        )}
+      </BlockStack>
+    </Box>
+  );
+}
@@ -0,0 +1,212 @@
+import { useState, useEffect } from 'react';
+import {
+  Modal,
+  BlockStack,
+  InlineStack,
+  Text,
+  Button,
+  Badge,
+  Banner,
+  Box,
+  Select,
+  Spinner,
+  Divider,
+  DataTable
+} from '@shopify/polaris';
+import { LOCKABLE_FIELDS } from '../utils/fieldLocks';
+
+interface SyncConflictsModalProps {
+  connection: any | null;
+  onClose: () => void;
+  onResolved?: () => void;
+}
+
+interface SyncConflict {
+  id: string;
+  title: string;
+  sku: string | null;
+  status: string;
+  resolvedBy: string | null;
+  detectedAt: string;
+  resolvedAt: string | null;
+  fields: string[];
+  shopifyValues: Record<string, any>;
+  supplierValues: Record<string, any>;
+}
+
+const fieldLabel = (field: string) => LOCKABLE_FIELDS.find(option => option.value === field)?.label || field;
+
+const formatValue = (value: any) => {
+  if (value === null || value === undefined || value === '') return '—';
+  const text = Array.isArray(value) ? value.join(', ') : String(value);
+  return text.length > 120 ? `${text.slice(0, 120)}…` : text;
+};
+
+const getStatusBadge = (conflict: SyncConflict) => {
+  switch (conflict.status) {
+    case 'open':
+      return <Badge tone="attention">Needs review</Badge>;
+    case 'supplier_applied':
+      return <Badge tone="info">{conflict.resolvedBy === 'policy' ? 'Supplier values applied (policy)' : 'Supplier values applied'}</Badge>;
+    case 'shopify_kept':
+      return <Badge tone="success">{conflict.resolvedBy === 'policy' ? 'Shopify values kept (policy)' : 'Shopify values kept'}</Badge>;
+    default:
+      return <Badge>{conflict.status}</Badge>;
+  }
+};
+
+// Products edited in Shopify since the last sync. Open entries wait for the merchant to choose
+// the supplier's values or keep Shopify's (which locks the edited fields).
+export default function SyncConflictsModal({ connection, onClose, onResolved }: SyncConflictsModalProps) {
+  const [conflicts, setConflicts] = useState<SyncConflict[]>([]);
+  const [statusFilter, setStatusFilter] = useState('open');
+  const [isLoading, setIsLoading] = useState(false);
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (connection) {
+      loadConflicts(statusFilter);
+    }
+  }, [connection?.id]);
+
+  const loadConflicts = async (status: string) => {
+    if (!connection) return;
+    setStatusFilter(status);
+    setIsLoading(true);
+    setError('');
+    try {
+      const params = new URLSearchParams({ connectionId: connection.id, status });
+      const response = await fetch(`/app/api/sync-conflicts?${params.toString()}`);
+      const data = await response.json();
+      if (data.success) {
+        setConflicts(data.conflicts || []);
+      } else {
+        setError(data.error || 'Failed to load conflicts');
+      }
+    } catch (error) {
+      console.error('Error loading sync conflicts:', error);
+      setError('Failed to load conflicts');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const resolveConflict = async (conflict: SyncConflict, resolution: 'supplier' | 'shopify') => {
+    setResolvingId(conflict.id);
+    setError('');
+    try {
+      const response = await fetch('/app/api/sync-conflicts', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ conflictId: conflict.id, resolution })
+      });
+      const data = await response.json();
+      if (data.success) {
+        await loadConflicts(statusFilter);
+        onResolved?.();
+      } else {
+        setError(data.error || 'Failed to resolve conflict');
+      }
+    } catch (error) {
+      console.error('Error resolving sync conflict:', error);
+      setError('Failed to resolve conflict');
+    } finally {
+      setResolvingId(null);
+    }
+  };
+
+  return (
+    <Modal
+      open={!!connection}
+      onClose={onClose}
+      title={`Shopify Edits - ${connection?.name || 'Connection'}`}
+      secondaryActions={[{ content: 'Close', onAction: onClose }]}
+      size="large"
+    >
+      <Modal.Section>
+        <BlockStack gap="400">
+          <Text as="p" variant="bodySm" tone="subdued">
+            Products changed in Shopify after the last sync, for fields the supplier feed also changes.
+            What happens is set by the connection&apos;s conflict policy in Edit Connection.
+          </Text>
+
+          {error && (
+            <Banner tone="critical" onDismiss={() => setError('')}>
+              <p>{error}</p>
+            </Banner>
+          )}
+
+          <Box maxWidth="250px">
+            <Select
+              label="Show"
+              options={[
+                { label: 'Needs review', value: 'open' },
+                { label: 'All', value: 'all' }
+              ]}
+              value={statusFilter}
+              onChange={loadConflicts}
+            />
+          </Box>
+
+          {isLoading ? (
+            <InlineStack align="center">
+              <Spinner size="small" />
+            </InlineStack>
+          ) : conflicts.length === 0 ? (
+            <Text as="p" tone="subdued">
+              {statusFilter === 'open' ? 'No edits waiting for review.' : 'No Shopify edits detected yet.'}
+            </Text>
+          ) : (
+            <BlockStack gap="400">
+              {conflicts.map((conflict) => (
+                <BlockStack key={conflict.id} gap="200">
+                  <InlineStack align="space-between" blockAlign="center">
+                    <BlockStack gap="100">
+                      <Text as="p" fontWeight="semibold">{conflict.title}</Text>
+                      <Text as="p" variant="bodySm" tone="subdued">
+                        SKU: {conflict.sku || '—'} · Detected {new Date(conflict.detectedAt).toLocaleString()}
+                      </Text>
+                    </BlockStack>
+                    {getStatusBadge(conflict)}
+                  </InlineStack>
+
+                  <DataTable
+                    columnContentTypes={['text', 'text', 'text']}
+                    headings={['Field', 'In Shopify', 'From supplier']}
+                    rows={conflict.fields.map((field) => [
+                      fieldLabel(field),
+                      formatValue(conflict.shopifyValues[field]),
+                      formatValue(conflict.supplierValues[field])
+                    ])}
+                  />
+
+                  {conflict.status === 'open' && (
+                    <InlineStack gap="200">
+                      <Button
+                        loading={resolvingId === conflict.id}
+                        disabled={!!resolvingId}
+                        onClick={() => resolveConflict(conflict, 'supplier')}
+                      >
+                        Use supplier values
+                      </Button>
+                      <Button
+                        variant="primary"
+                        loading={resolvingId === conflict.id}
+                        disabled={!!resolvingId}
+                        onClick={() => resolveConflict(conflict, 'shopify')}
+                      >
+                        Keep Shopify values
+                      </Button>
+                    </InlineStack>
+                  )}
+                  <Divider />
+                </BlockStack>
+              ))}
+            </BlockStack>
+          )}
+        </BlockStack>
+      </Modal.Section>
+    </Modal>
+  );
+}
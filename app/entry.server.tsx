@@ -4,9 +4,14 @@ import { RemixServer } from "@remix-run/react";
 import { createReadableStreamFromReadable } from "@remix-run/node";
 import { isbot } from "isbot";
 import { addDocumentResponseHeaders } from "./shopify.server";
+import { startSyncScheduler } from "./utils/scheduler.server";
+import { startJobWorker } from "./utils/jobQueue.server";
 
 export const streamTimeout = 5000;
 
+startSyncScheduler();
+startJobWorker();
+
 export default async function handleRequest(
   request: Request,
   responseStatusCode: number,
@@ -1,6 +1,7 @@
 // app/routes/api.addCsvFile.tsx
 import { json, type ActionFunctionArgs } from "@remix-run/node";
 import { authenticate } from "../shopify.server";
+import { adminGraphql } from "../utils/adminGraphql.server";
 
 // GraphQL queries and mutations
 const Q_PRODUCT_BY_SKU = /* GraphQL */ `
@@ -166,12 +167,11 @@ export async function action({ request }: ActionFunctionArgs) {
     if (defaultSetting === "tag" && productTags?.length > 0) {
         try {
             const tagsQuery = Q_PRODUCTS_BY_TAGS(productTags);
-            const tagsResp = await admin.graphql(tagsQuery, {
+            const tagsData = await adminGraphql(admin, tagsQuery, {
                 variables: {
                     first: 250
                 }
             });
-            const tagsData = await tagsResp.json();
             taggedProducts = tagsData?.data?.products?.edges?.map((edge: any) => edge.node) || [];
 
             console.log(`✅ Found ${taggedProducts.length} products with tags: ${productTags.join(', ')}`);
@@ -317,10 +317,9 @@ export async function action({ request }: ActionFunctionArgs) {
                 // SKU query - search by SKU
                 console.log("🔍 Processing by SKU:", idValue);
                 const query = `sku:${idValue}`;
-                const prodResp = await admin.graphql(Q_PRODUCT_BY_SKU, {
+                const prodData = await adminGraphql(admin, Q_PRODUCT_BY_SKU, {
                     variables: { query }
                 });
-                const prodData = await prodResp.json();
 
                 // Extract variant info from SKU search
                 const product = prodData?.data?.products?.edges?.[0]?.node;
@@ -365,13 +364,12 @@ export async function action({ request }: ActionFunctionArgs) {
             } else if (isBarcodeQuery) {
                 // BARCODE query - search inventory items by barcode
                 console.log("🔍 Processing by barcode:", idValue);
-                const invResp = await admin.graphql(Q_INVENTORY_ITEM_BY_BARCODE, {
+                const invData = await adminGraphql(admin, Q_INVENTORY_ITEM_BY_BARCODE, {
                     variables: {
                         barcode: `barcode:${idValue}`,
                         first: 10
                     }
                 });
-                const invData = await invResp.json();
 
                 // Iterate over all matching inventory items
                 const inventoryItems = invData?.data?.inventoryItems?.edges || [];
@@ -414,10 +412,9 @@ export async function action({ request }: ActionFunctionArgs) {
                 if (!foundMatch) {
                     console.log(`🔄 Inventory item search failed for barcode: ${idValue}, trying product search...`);
                     const query = `barcode:${idValue}`;
-                    const prodResp = await admin.graphql(Q_PRODUCT_BY_SKU, {
+                    const prodData = await adminGraphql(admin, Q_PRODUCT_BY_SKU, {
                         variables: { query }
                     });
-                    const prodData = await prodResp.json();
 
                     const product = prodData?.data?.products?.edges?.[0]?.node;
                     if (product) {
@@ -480,7 +477,7 @@ export async function action({ request }: ActionFunctionArgs) {
     for (let i = 0; i < inventoryUpdates.length; i += BATCH_SIZE) {
         const batch = inventoryUpdates.slice(i, i + BATCH_SIZE);
         try {
-            const response = await admin.graphql(M_SET_ON_HAND, {
+            const responseData = await adminGraphql(admin, M_SET_ON_HAND, {
                 variables: {
                     input: {
                         reason: "correction",
@@ -489,8 +486,6 @@ export async function action({ request }: ActionFunctionArgs) {
                 },
             });
 
-            const responseData = await response.json();
-
             if (responseData?.data?.inventorySetOnHandQuantities?.userErrors?.length > 0) {
                 const errorMsg = responseData.data.inventorySetOnHandQuantities.userErrors[0]?.message;
                 console.error("❌ Error setting inventory:", errorMsg);
@@ -507,15 +502,13 @@ export async function action({ request }: ActionFunctionArgs) {
     // Now perform bulk updates for all variants of the products
     for (const [productId, variants] of variantUpdatesByProduct) {
         try {
-            const bulkUpdateResponse = await admin.graphql(M_VARIANT_POLICY, {
+            const bulkUpdateData = await adminGraphql(admin, M_VARIANT_POLICY, {
                 variables: {
                     productId,
                     variants,
                 },
             });
 
-            const bulkUpdateData = await bulkUpdateResponse.json();
-
             if (bulkUpdateData?.data?.productVariantsBulkUpdate?.userErrors?.length > 0) {
                 const errorMsg = bulkUpdateData.data.productVariantsBulkUpdate.userErrors.map((e: any) => e.message).join(', ');
                 console.error("❌ Bulk update errors:", errorMsg);
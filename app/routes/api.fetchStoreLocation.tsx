@@ -1,10 +1,10 @@
 import { json, type LoaderFunctionArgs } from "@remix-run/node";
 import { authenticate } from "../shopify.server";
+import { adminGraphql } from "../utils/adminGraphql.server";
 import { Q_SHOP_LOCATIONS } from "../utils/graphql.server";
 
 export async function loader({ request }: LoaderFunctionArgs) {
   const { admin } = await authenticate.admin(request);
-  const resp = await admin.graphql(Q_SHOP_LOCATIONS, { variables: { first: 250 }});
-  const data = await resp.json();
+  const data = await adminGraphql(admin, Q_SHOP_LOCATIONS, { variables: { first: 250 }});
   return json({ status: true, data });
 }
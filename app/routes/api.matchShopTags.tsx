@@ -1,12 +1,12 @@
 import { json, type ActionFunctionArgs } from "@remix-run/node";
 import { authenticate } from "../shopify.server";
+import { adminGraphql } from "../utils/adminGraphql.server";
 import { Q_ALL_TAGS } from "../utils/graphql.server";
 
 export async function action({ request }: ActionFunctionArgs) {
   const { admin } = await authenticate.admin(request);
   const { tags } = await request.json();
-  const resp = await admin.graphql(Q_ALL_TAGS, { variables: { first: 250 }});
-  const data = await resp.json();
+  const data = await adminGraphql(admin, Q_ALL_TAGS, { variables: { first: 250 }});
 
   const toFind = String(tags ?? "").toLowerCase();
   const found = (data?.data?.shop?.productTags?.edges ?? [])
@@ -2,6 +2,16 @@ import type { ActionFunctionArgs, LoaderFunctionArgs } from "@remix-run/node";
 import { json } from "@remix-run/node";
 import { authenticate } from "../shopify.server";
 import prisma from "../db.server";
+import { computeNextSyncAt, getScheduleDay } from "../utils/scheduler.server";
+import { adminGraphql } from "../utils/adminGraphql.server";
+import { Q_SHOP_TIMEZONE } from "../utils/graphql.server";
+import { getActiveSyncLocks } from "../utils/syncLock.server";
+import { getJobDefinitionVersions } from "../utils/jobDefinition.server";
+import { getOpenConflictCounts, parseConflictPolicy } from "../utils/shopifyConflicts.server";
+import { parseSupplierAuthType } from "../utils/supplierAuth";
+import { normalizeItemsPath } from "../utils/itemsPath";
+import { parseFeedFormat } from "../utils/supplierApi.server";
+import { FULL_UPDATE_SCOPE } from "../utils/updateScope";
 
 export async function loader({ request }: LoaderFunctionArgs) {
   const { session } = await authenticate.admin(request);
@@ -26,8 +36,8 @@ export async function loader({ request }: LoaderFunctionArgs) {
       id: c.id,
       name: c.name,
       apiUrl: c.apiUrl,
-      accessToken: c.accessToken,
-      accessTokenLength: c.accessToken ? c.accessToken.length : 0,
+      authType: c.authType,
+      hasSecret: !!c.accessToken,
       supplierName: c.supplierName
     })));
     
@@ -41,12 +51,27 @@ export async function loader({ request }: LoaderFunctionArgs) {
         name: true,
         apiUrl: true,
         accessToken: true,
+        authType: true,
+        authConfig: true,
+        requestConfig: true,
+        itemsPath: true,
+        feedFormat: true,
+        paginationConfig: true,
+        missingProductPolicy: true,
+        missingProductThreshold: true,
+        inventorySyncConfig: true,
+        conflictPolicy: true,
+        updateScope: true,
         csvFileName: true,
         supplierName: true,
         supplierEmail: true,
         status: true,
         lastSync: true,
         scheduledTime: true,
+        scheduleEnabled: true,
+        scheduleFrequency: true,
+        scheduleTime: true,
+        nextSyncAt: true,
         productCount: true,
         isActive: true,
         createdAt: true,
@@ -75,6 +100,13 @@ export async function loader({ request }: LoaderFunctionArgs) {
       });
     }
 
+    // Runs currently holding a connection's sync lock, so the UI can show "in progress since ..."
+    const activeLocks = await getActiveSyncLocks(session.shop);
+    // Latest saved wizard configuration per connection (replayed by scheduled syncs)
+    const jobDefinitionVersions = await getJobDefinitionVersions(session.shop);
+    // Shopify-side edits waiting for the merchant to pick supplier or Shopify values
+    const openConflictCounts = await getOpenConflictCounts(session.shop);
+
     // Calculate product count for each connection
     const connectionsWithProductCount = await Promise.all(
       connections.map(async (connection) => {
@@ -86,9 +118,13 @@ export async function loader({ request }: LoaderFunctionArgs) {
           }
         });
 
+        const lock = activeLocks.get(connection.id);
         return {
           ...connection,
-          productCount: productCount
+          productCount: productCount,
+          syncInProgress: lock ? { holder: lock.holder, since: lock.acquiredAt } : null,
+          jobDefinitionVersion: jobDefinitionVersions.get(connection.id) ?? null,
+          openConflicts: openConflictCounts.get(connection.id) ?? 0
         };
       })
     );
@@ -118,8 +154,19 @@ export async function loader({ request }: LoaderFunctionArgs) {
   }
 }
 
+// Shop timezone for sync schedules; UTC when Shopify can't be asked
+async function getShopTimezone(admin: any): Promise<string> {
+  try {
+    const result = await adminGraphql(admin, Q_SHOP_TIMEZONE);
+    return result.data?.shop?.ianaTimezone || 'UTC';
+  } catch (error) {
+    console.error('❌ Failed to load the shop timezone, scheduling in UTC:', error);
+    return 'UTC';
+  }
+}
+
 export const action = async ({ request }: ActionFunctionArgs) => {
-  const { session } = await authenticate.admin(request);
+  const { admin, session } = await authenticate.admin(request);
   
   if (!session?.shop) {
     throw new Response("Unauthorized", { status: 401 });
@@ -157,6 +204,49 @@ export const action = async ({ request }: ActionFunctionArgs) => {
         updatedAt: new Date()
       };
 
+      if (body.missingProductPolicy !== undefined) {
+        updateData.missingProductPolicy = body.missingProductPolicy || 'none';
+      }
+      if (body.missingProductThreshold !== undefined) {
+        updateData.missingProductThreshold = Math.max(1, parseInt(body.missingProductThreshold, 10) || 1);
+      }
+
+      if (body.paginationConfig !== undefined) {
+        updateData.paginationConfig = body.paginationConfig ? JSON.stringify(body.paginationConfig) : null;
+      }
+
+      if (body.authType !== undefined) {
+        updateData.authType = parseSupplierAuthType(body.authType);
+        updateData.authConfig = body.authConfig ? JSON.stringify(body.authConfig) : null;
+      }
+
+      if (body.requestConfig !== undefined) {
+        updateData.requestConfig = body.requestConfig ? JSON.stringify(body.requestConfig) : null;
+      }
+
+      if (body.itemsPath !== undefined) {
+        updateData.itemsPath = normalizeItemsPath(body.itemsPath) || null;
+      }
+
+      if (body.feedFormat !== undefined) {
+        updateData.feedFormat = parseFeedFormat(body.feedFormat);
+      }
+
+      if (body.inventorySyncConfig !== undefined) {
+        updateData.inventorySyncConfig = body.inventorySyncConfig ? JSON.stringify(body.inventorySyncConfig) : null;
+      }
+
+      if (body.updateScope !== undefined) {
+        if (Array.isArray(body.updateScope) && !FULL_UPDATE_SCOPE.some(group => body.updateScope.includes(group))) {
+          return json({ success: false, error: "Choose at least one field group for recurring syncs to update" }, { status: 400 });
+        }
+        updateData.updateScope = Array.isArray(body.updateScope) ? JSON.stringify(body.updateScope) : null;
+      }
+
+      if (body.conflictPolicy !== undefined) {
+        updateData.conflictPolicy = parseConflictPolicy(body.conflictPolicy);
+      }
+
       // Handle schedule data with markup
       console.log('📝 Backend received schedule data:', {
         scheduleEnabled: body.scheduleEnabled,
@@ -187,6 +277,20 @@ export const action = async ({ request }: ActionFunctionArgs) => {
         };
         updateData.scheduledTime = JSON.stringify(scheduleData);
         console.log('📝 Storing schedule data with markup as JSON:', updateData.scheduledTime);
+
+        // Mirror the schedule into its own columns so the background scheduler can query it
+        updateData.scheduleEnabled = scheduleData.enabled;
+        updateData.scheduleFrequency = scheduleData.frequency;
+        updateData.scheduleTime = scheduleData.time;
+        // The time is the merchant's wall-clock time, so the schedule runs in the shop's timezone
+        const scheduleTimezone = scheduleData.enabled ? await getShopTimezone(admin) : null;
+        updateData.scheduleTimezone = scheduleTimezone;
+        updateData.nextSyncAt = scheduleData.enabled
+          ? computeNextSyncAt(scheduleData.frequency, scheduleData.time, new Date(), null, { timeZone: scheduleTimezone })
+          : null;
+        updateData.scheduleDay = updateData.nextSyncAt && scheduleData.frequency === 'monthly'
+          ? getScheduleDay(updateData.nextSyncAt, scheduleTimezone)
+          : null;
       }
 
       const updatedConnection = await prisma.connection.update({
@@ -262,6 +366,12 @@ export const action = async ({ request }: ActionFunctionArgs) => {
             name: payload.name || "API Connection",
             apiUrl: payload.apiUrl ?? null,
             accessToken: payload.accessToken ?? null,
+            authType: parseSupplierAuthType(payload.authType),
+            authConfig: payload.authConfig ? JSON.stringify(payload.authConfig) : null,
+            requestConfig: payload.requestConfig ? JSON.stringify(payload.requestConfig) : null,
+            itemsPath: normalizeItemsPath(payload.itemsPath) || null,
+            feedFormat: parseFeedFormat(payload.feedFormat),
+            paginationConfig: payload.paginationConfig ? JSON.stringify(payload.paginationConfig) : null,
             csvFileName: payload.csvFileName ?? null,
             supplierName: payload.supplierName ?? null,
             supplierEmail: payload.supplierEmail ?? null,
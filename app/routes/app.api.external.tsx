@@ -1,6 +1,11 @@
 import type { ActionFunctionArgs } from "@remix-run/node";
 import { json } from "@remix-run/node";
 import { authenticate } from "../shopify.server";
+import { buildSupplierRequest, supplierFetch } from "../utils/supplierRequest.server";
+import type { SupplierRequestCredentials } from "../utils/supplierRequest.server";
+import { detectItemsPaths, normalizeItemsPath, resolveItemsPath } from "../utils/itemsPath";
+import { extractXmlItems, isXmlContentType, parseXmlDocument, XML_ACCEPT } from "../utils/xmlFeed.server";
+import { CSV_ACCEPT, isCsvContentType, parseCsvDocument } from "../utils/csvFeed.server";
 
 export const action = async ({ request }: ActionFunctionArgs) => {
   const { session } = await authenticate.admin(request);
@@ -24,22 +29,10 @@ export const action = async ({ request }: ActionFunctionArgs) => {
           );
         }
 
-        // Normalize token in case client passed 'Bearer <token>' already
-        const normalizedToken = accessToken.replace(/^Bearer\s+/i, "");
-
         try {
-          console.log(`Validating API: ${apiUrl}`);
+          console.log(`Validating API: ${apiUrl} (${formData.get("authType") || "bearer"} auth)`);
           
-          const externalResponse = await fetch(apiUrl, {
-            method: "GET",
-            headers: {
-              Authorization: `Bearer ${normalizedToken}`,
-              Accept: "application/json",
-              "User-Agent": "Shopify-Product-Import/1.0"
-            },
-            // Add timeout
-            signal: AbortSignal.timeout(10000) // 10 second timeout
-          });
+          const externalResponse = await supplierFetch(apiUrl, getRequestCredentials(formData, accessToken));
 
           console.log(`API Response status: ${externalResponse.status}`);
           console.log(`API Response headers:`, Object.fromEntries(externalResponse.headers.entries()));
@@ -106,39 +99,13 @@ export const action = async ({ request }: ActionFunctionArgs) => {
             { status: 400 }
           );
         }
-        const normalizedToken = accessToken.replace(/^Bearer\s+/i, "");
 
         try {
-          const res = await fetch(apiUrl, {
-            method: "GET",
-            headers: {
-              Authorization: `Bearer ${normalizedToken}`,
-              Accept: "application/json",
-              "User-Agent": "Shopify-Product-Import/1.0"
-            },
-            signal: AbortSignal.timeout(10000)
-          });
-          
-          const contentType = res.headers.get("content-type") || "";
-          if (!contentType.includes("application/json")) {
-            return json({ success: false, error: "Non-JSON response from API" }, { status: 400 });
-          }
-          const body = await res.json();
-
-          const isArrayOfObjects = (val: any) => Array.isArray(val) && val.length > 0 && typeof val[0] === "object" && !Array.isArray(val[0]);
-
-          let items: any[] | null = null;
-          if (isArrayOfObjects(body)) {
-            items = body as any[];
-          } else if (body && typeof body === "object") {
-            for (const key of Object.keys(body)) {
-              const val = (body as any)[key];
-              if (isArrayOfObjects(val)) {
-                items = val as any[];
-                break;
-              }
-            }
+          const feed = await fetchFeedSample(apiUrl, formData, accessToken);
+          if ("error" in feed) {
+            return json({ success: false, error: feed.error }, { status: feed.status || 400 });
           }
+          const { items } = feed;
 
           if (!items || items.length === 0) {
             return json({ success: true, items: [] });
@@ -159,39 +126,13 @@ export const action = async ({ request }: ActionFunctionArgs) => {
             { status: 400 }
           );
         }
-        const normalizedToken = accessToken.replace(/^Bearer\s+/i, "");
 
         try {
-          const res = await fetch(apiUrl, {
-            method: "GET",
-            headers: {
-              Authorization: `Bearer ${normalizedToken}`,
-              Accept: "application/json",
-              "User-Agent": "Shopify-Product-Import/1.0"
-            },
-            signal: AbortSignal.timeout(10000)
-          });
-          
-          const contentType = res.headers.get("content-type") || "";
-          if (!contentType.includes("application/json")) {
-            return json({ success: false, error: "Non-JSON response from API" }, { status: 400 });
-          }
-          const body = await res.json();
-
-          const isArrayOfObjects = (val: any) => Array.isArray(val) && val.length > 0 && typeof val[0] === "object" && !Array.isArray(val[0]);
-
-          let items: any[] | null = null;
-          if (isArrayOfObjects(body)) {
-            items = body as any[];
-          } else if (body && typeof body === "object") {
-            for (const key of Object.keys(body)) {
-              const val = (body as any)[key];
-              if (isArrayOfObjects(val)) {
-                items = val as any[];
-                break;
-              }
-            }
+          const feed = await fetchFeedSample(apiUrl, formData, accessToken);
+          if ("error" in feed) {
+            return json({ success: false, error: feed.error }, { status: feed.status || 400 });
           }
+          const { items } = feed;
 
           if (!items || items.length === 0) {
             return json({ success: true, fields: [] });
@@ -219,6 +160,79 @@ export const action = async ({ request }: ActionFunctionArgs) => {
         }
       }
 
+      // Suggests items paths for the response and counts the items the current path resolves to
+      case "detectItemsPath": {
+        const apiUrl = formData.get("apiUrl");
+        const accessToken = formData.get("accessToken");
+        if (typeof apiUrl !== "string" || typeof accessToken !== "string") {
+          return json(
+            { success: false, error: "Missing apiUrl or accessToken" },
+            { status: 400 }
+          );
+        }
+
+        try {
+          const feed = await fetchFeedSample(apiUrl, formData, accessToken);
+          if ("error" in feed) {
+            return json({ success: false, error: feed.error }, { status: feed.status || 400 });
+          }
+          const { body } = feed;
+
+          const itemsPath = normalizeItemsPath(formData.get("itemsPath"));
+          const resolved = itemsPath ? resolveItemsPath(body, itemsPath) : null;
+          return json({
+            success: true,
+            itemsPath,
+            candidates: detectItemsPaths(body).slice(0, 8),
+            resolvedCount: resolved ? resolved.length : null
+          });
+        } catch (err: any) {
+          return json({ success: false, error: err?.message || "Failed to reach external API" }, { status: 502 });
+        }
+      }
+
+      // Sends one request exactly as the connection is configured and returns the raw response,
+      // before any item extraction or mapping, so the merchant can see what the supplier sends back
+      case "testRequest": {
+        const apiUrl = formData.get("apiUrl");
+        const accessToken = formData.get("accessToken");
+        if (typeof apiUrl !== "string" || typeof accessToken !== "string") {
+          return json(
+            { success: false, error: "Missing apiUrl or accessToken" },
+            { status: 400 }
+          );
+        }
+
+        const credentials = getRequestCredentials(formData, accessToken);
+        let sentRequest: { url: string; init: RequestInit } | null = null;
+        try {
+          sentRequest = await buildSupplierRequest(apiUrl, credentials, getRequestOptions(formData));
+          const startedAt = Date.now();
+          const res = await fetch(sentRequest.url, sentRequest.init);
+          const body = await res.text();
+
+          return json({
+            success: true,
+            request: redactRequest(sentRequest, accessToken),
+            response: {
+              status: res.status,
+              statusText: res.statusText,
+              durationMs: Date.now() - startedAt,
+              headers: Object.fromEntries(res.headers.entries()),
+              body: body.length > TEST_RESPONSE_MAX_CHARS ? body.slice(0, TEST_RESPONSE_MAX_CHARS) : body,
+              truncated: body.length > TEST_RESPONSE_MAX_CHARS,
+              size: body.length
+            }
+          });
+        } catch (err: any) {
+          return json({
+            success: false,
+            request: sentRequest ? redactRequest(sentRequest, accessToken) : null,
+            error: err?.name === "TimeoutError" ? "API request timed out (10 seconds)" : err?.message || "Failed to reach external API"
+          }, { status: 502 });
+        }
+      }
+
       default:
         return json({ success: false, error: "Invalid action" }, { status: 400 });
     }
@@ -228,3 +242,97 @@ export const action = async ({ request }: ActionFunctionArgs) => {
   }
 };
 
+// Auth scheme and settings sent along with the credentials by the wizard
+function getRequestCredentials(formData: FormData, accessToken: string): SupplierRequestCredentials {
+  const authType = formData.get("authType");
+  const authConfig = formData.get("authConfig");
+  const requestConfig = formData.get("requestConfig");
+  return {
+    accessToken,
+    authType: typeof authType === "string" ? authType : null,
+    authConfig: typeof authConfig === "string" ? authConfig : null,
+    requestConfig: typeof requestConfig === "string" ? requestConfig : null
+  };
+}
+
+const TEST_RESPONSE_MAX_CHARS = 20000;
+
+// What the test request sent, with the credentials masked
+function redactRequest(sentRequest: { url: string; init: RequestInit }, secret: string) {
+  const mask = (value: string) => (secret && value.includes(secret) ? "••••••" : value);
+  const url = new URL(sentRequest.url);
+  for (const [key, value] of [...url.searchParams.entries()]) {
+    url.searchParams.set(key, mask(value));
+  }
+  const headers = Object.fromEntries(
+    Object.entries(sentRequest.init.headers as Record<string, string>).map(([name, value]) => [
+      name,
+      name.toLowerCase() === "authorization" ? `${value.split(" ")[0]} ••••••` : mask(value)
+    ])
+  );
+  return {
+    method: sentRequest.init.method,
+    url: url.toString(),
+    headers,
+    body: typeof sentRequest.init.body === "string" ? sentRequest.init.body : null
+  };
+}
+
+function getRequestOptions(formData: FormData) {
+  return {
+    templateVars: { page: 1, pageSize: "", cursor: "" },
+    ...(formData.get("feedFormat") === "xml" && { accept: XML_ACCEPT }),
+    ...(formData.get("feedFormat") === "csv" && { accept: CSV_ACCEPT })
+  };
+}
+
+// Fetches the first page for the sample actions: the parsed body (JSON, an XML document for XML
+// feeds and XML responses, or the rows of a CSV feed) and the items in it
+async function fetchFeedSample(apiUrl: string, formData: FormData, accessToken: string): Promise<
+  { body: any; items: any[] | null } | { error: string; status?: number }
+> {
+  const res = await supplierFetch(apiUrl, getRequestCredentials(formData, accessToken), getRequestOptions(formData));
+  if (!res.ok) {
+    return { error: `API returned ${res.status} ${res.statusText}`, status: 502 };
+  }
+
+  const contentType = res.headers.get("content-type") || "";
+  const itemsPath = formData.get("itemsPath");
+  if (formData.get("feedFormat") === "csv" || isCsvContentType(contentType)) {
+    const rows = parseCsvDocument(await res.text());
+    return { body: rows, items: rows };
+  }
+  if (formData.get("feedFormat") === "xml" || isXmlContentType(contentType)) {
+    const body = parseXmlDocument(await res.text(), typeof itemsPath === "string" ? itemsPath : null);
+    return { body, items: extractXmlItems(body, typeof itemsPath === "string" ? itemsPath : null) };
+  }
+
+  if (!contentType.includes("application/json")) {
+    return { error: "Non-JSON response from API. Choose XML Feed or CSV Feed URL as the connection type for those feeds." };
+  }
+  const body = await res.json();
+  return { body, items: getSampleItems(body, itemsPath) };
+}
+
+// The items the sample actions work on: the array at the connection's items path, or else the
+// body itself or its first top-level array of objects
+function getSampleItems(body: any, itemsPath: FormDataEntryValue | null): any[] | null {
+  if (normalizeItemsPath(itemsPath)) {
+    return resolveItemsPath(body, itemsPath as string);
+  }
+
+  const isArrayOfObjects = (val: any) => Array.isArray(val) && val.length > 0 && typeof val[0] === "object" && !Array.isArray(val[0]);
+
+  if (isArrayOfObjects(body)) {
+    return body as any[];
+  }
+  if (body && typeof body === "object") {
+    for (const key of Object.keys(body)) {
+      const val = (body as any)[key];
+      if (isArrayOfObjects(val)) {
+        return val as any[];
+      }
+    }
+  }
+  return null;
+}
@@ -0,0 +1,129 @@
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import { authenticate } from "../shopify.server";
+import prisma from "../db.server";
+import { enqueueJob } from "../utils/jobQueue.server";
+import { planImportRollback, ROLLBACK_ALLOWED_STATUSES } from "../utils/importRollback.server";
+
+// Import history: list recent sessions (?connectionId=...), drill into one with ?sessionId=...,
+// or preview what rolling it back would do with ?sessionId=...&preview=rollback
+export async function loader({ request }: LoaderFunctionArgs) {
+  const { session } = await authenticate.admin(request);
+
+  if (!session?.shop) {
+    throw new Response("Unauthorized", { status: 401 });
+  }
+
+  try {
+    const url = new URL(request.url);
+    const sessionId = url.searchParams.get("sessionId");
+
+    if (sessionId) {
+      if (url.searchParams.get("preview") === "rollback") {
+        const { importSession, plan, warning, counts } = await planImportRollback(session.shop, sessionId);
+        return json({
+          success: true,
+          canRollback: ROLLBACK_ALLOWED_STATUSES.includes(importSession.status),
+          status: importSession.status,
+          warning,
+          counts,
+          // The snapshots stay on the server
+          plan: plan.map(({ beforeSnapshot: _beforeSnapshot, ...entry }) => entry)
+        });
+      }
+
+      const importSession = await prisma.importSession.findFirst({
+        where: { id: sessionId, shop: session.shop }
+      });
+
+      if (!importSession) {
+        return json({ success: false, error: "Import session not found" }, { status: 404 });
+      }
+
+      return json({
+        success: true,
+        importSession: {
+          ...importSession,
+          rollbackReport: importSession.rollbackReport ? JSON.parse(importSession.rollbackReport) : null
+        }
+      });
+    }
+
+    const connectionId = url.searchParams.get("connectionId");
+    const limit = Math.min(Number(url.searchParams.get("limit")) || 25, 100);
+
+    const importSessions = await prisma.importSession.findMany({
+      where: {
+        shop: session.shop,
+        ...(connectionId && { connectionId })
+      },
+      select: {
+        id: true,
+        connectionId: true,
+        dataSource: true,
+        status: true,
+        totalProducts: true,
+        importedProducts: true,
+        failedProducts: true,
+        errorMessage: true,
+        startedAt: true,
+        completedAt: true,
+        rolledBackAt: true
+      },
+      orderBy: { startedAt: "desc" },
+      take: limit
+    });
+
+    return json({ success: true, importSessions });
+  } catch (error) {
+    console.error("Import sessions loader error:", error);
+    return json({ success: false, error: error instanceof Error ? error.message : "Internal server error" }, { status: 500 });
+  }
+}
+
+// POST { sessionId, intent: 'rollback' } queues a rollback of a finished import session
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+
+  if (!session?.shop) {
+    throw new Response("Unauthorized", { status: 401 });
+  }
+
+  try {
+    const { sessionId, intent } = await request.json();
+
+    if (!sessionId || intent !== "rollback") {
+      return json({ success: false, error: "sessionId and intent 'rollback' are required" }, { status: 400 });
+    }
+
+    const importSession = await prisma.importSession.findFirst({
+      where: { id: sessionId, shop: session.shop }
+    });
+    if (!importSession) {
+      return json({ success: false, error: "Import session not found" }, { status: 404 });
+    }
+
+    // Only one rollback at a time, and never while the import itself is still going
+    const claimed = await prisma.importSession.updateMany({
+      where: { id: importSession.id, status: { in: ROLLBACK_ALLOWED_STATUSES } },
+      data: { status: "rolling_back", currentProduct: "Rollback queued...", errorMessage: null }
+    });
+    if (claimed.count === 0) {
+      return json({
+        success: false,
+        error: `An import that is ${importSession.status.replace("_", " ")} can't be rolled back`
+      }, { status: 409 });
+    }
+
+    await enqueueJob(session.shop, "rollback", { importSessionId: importSession.id }, {
+      importSessionId: importSession.id,
+      connectionId: importSession.connectionId
+    });
+
+    console.log(`↩️ Rollback of import ${importSession.id} queued`);
+    return json({ success: true, sessionId: importSession.id, status: "rolling_back" });
+  } catch (error) {
+    console.error("Import sessions action error:", error);
+    return json({ success: false, error: error instanceof Error ? error.message : "Internal server error" }, { status: 500 });
+  }
+};
@@ -0,0 +1,86 @@
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import { authenticate } from "../shopify.server";
+import prisma from "../db.server";
+import { parseLockedFields } from "../utils/fieldLocks";
+
+// Imported products with their field locks: list a connection's products (?connectionId=...&q=...)
+export async function loader({ request }: LoaderFunctionArgs) {
+  const { session } = await authenticate.admin(request);
+
+  if (!session?.shop) {
+    throw new Response("Unauthorized", { status: 401 });
+  }
+
+  try {
+    const url = new URL(request.url);
+    const connectionId = url.searchParams.get("connectionId");
+    const search = url.searchParams.get("q")?.trim();
+    const limit = Math.min(Number(url.searchParams.get("limit")) || 50, 250);
+
+    const products = await prisma.importedProduct.findMany({
+      where: {
+        shop: session.shop,
+        ...(connectionId && { connectionId }),
+        ...(search && {
+          OR: [
+            { title: { contains: search, mode: "insensitive" as const } },
+            { sku: { contains: search, mode: "insensitive" as const } }
+          ]
+        })
+      },
+      select: { id: true, title: true, sku: true, shopifyProductId: true, lockedFields: true, updatedAt: true },
+      orderBy: { updatedAt: "desc" },
+      take: limit
+    });
+
+    return json({
+      success: true,
+      products: products.map(product => ({ ...product, lockedFields: parseLockedFields(product.lockedFields) }))
+    });
+  } catch (error) {
+    console.error("Imported products loader error:", error);
+    return json({ success: false, error: "Internal server error" }, { status: 500 });
+  }
+}
+
+// POST { productId, lockedFields: string[] } replaces the product's locks
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+
+  if (!session?.shop) {
+    throw new Response("Unauthorized", { status: 401 });
+  }
+
+  if (request.method !== "POST") {
+    return json({ success: false, error: "Method not allowed" }, { status: 405 });
+  }
+
+  try {
+    const { productId, lockedFields } = await request.json();
+
+    if (!productId) {
+      return json({ success: false, error: "Product ID is required" }, { status: 400 });
+    }
+
+    const product = await prisma.importedProduct.findFirst({
+      where: { id: productId, shop: session.shop }
+    });
+
+    if (!product) {
+      return json({ success: false, error: "Product not found" }, { status: 404 });
+    }
+
+    const locked = parseLockedFields(lockedFields);
+    await prisma.importedProduct.update({
+      where: { id: product.id },
+      data: { lockedFields: locked.length > 0 ? JSON.stringify(locked) : null }
+    });
+
+    console.log(`🔒 Locked fields for ${product.title}: ${locked.join(', ') || 'none'}`);
+    return json({ success: true, lockedFields: locked });
+  } catch (error) {
+    console.error("Imported products action error:", error);
+    return json({ success: false, error: "Internal server error" }, { status: 500 });
+  }
+};
@@ -0,0 +1,143 @@
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import { authenticate } from "../shopify.server";
+import prisma from "../db.server";
+import { getProductLocks, updateShopifyProduct } from "../utils/sync.server";
+import { getShopifySnapshot, keepShopifyValues, refreshShopifyBaseline } from "../utils/shopifyConflicts.server";
+import { parseLockedFields } from "../utils/fieldLocks";
+import { parseUpdateScope } from "../utils/updateScope";
+
+// Products edited in Shopify since the last sync: list them (?connectionId=...&status=open|all)
+export async function loader({ request }: LoaderFunctionArgs) {
+  const { session } = await authenticate.admin(request);
+
+  if (!session?.shop) {
+    throw new Response("Unauthorized", { status: 401 });
+  }
+
+  try {
+    const url = new URL(request.url);
+    const connectionId = url.searchParams.get("connectionId");
+    const status = url.searchParams.get("status") || "open";
+
+    const conflicts = await prisma.syncConflict.findMany({
+      where: {
+        shop: session.shop,
+        ...(connectionId && { connectionId }),
+        ...(status !== "all" && { status })
+      },
+      orderBy: { detectedAt: "desc" },
+      take: 100
+    });
+
+    return json({
+      success: true,
+      conflicts: conflicts.map(conflict => {
+        const supplierData = JSON.parse(conflict.supplierData || "{}");
+        return {
+          id: conflict.id,
+          connectionId: conflict.connectionId,
+          shopifyProductId: conflict.shopifyProductId,
+          title: conflict.title,
+          sku: conflict.sku,
+          status: conflict.status,
+          resolvedBy: conflict.resolvedBy,
+          detectedAt: conflict.detectedAt,
+          resolvedAt: conflict.resolvedAt,
+          fields: parseLockedFields(conflict.fields),
+          shopifyValues: JSON.parse(conflict.shopifyValues || "{}"),
+          supplierValues: getSupplierValues(supplierData)
+        };
+      })
+    });
+  } catch (error) {
+    console.error("Sync conflicts loader error:", error);
+    return json({ success: false, error: "Internal server error" }, { status: 500 });
+  }
+}
+
+// POST { conflictId, resolution: 'supplier' | 'shopify' } resolves an open conflict.
+// 'supplier' pushes the held supplier values now; 'shopify' keeps Shopify's values by locking the edited fields.
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { admin, session } = await authenticate.admin(request);
+
+  if (!session?.shop) {
+    throw new Response("Unauthorized", { status: 401 });
+  }
+
+  try {
+    const { conflictId, resolution } = await request.json();
+
+    if (!conflictId || !["supplier", "shopify"].includes(resolution)) {
+      return json({ success: false, error: "conflictId and a resolution of 'supplier' or 'shopify' are required" }, { status: 400 });
+    }
+
+    const conflict = await prisma.syncConflict.findFirst({
+      where: { id: conflictId, shop: session.shop, status: "open" }
+    });
+    if (!conflict) {
+      return json({ success: false, error: "Open conflict not found" }, { status: 404 });
+    }
+
+    const importedProduct = await prisma.importedProduct.findFirst({
+      where: { id: conflict.importedProductId, shop: session.shop }
+    });
+    if (!importedProduct) {
+      return json({ success: false, error: "Imported product not found" }, { status: 404 });
+    }
+
+    if (resolution === "supplier") {
+      const connection = conflict.connectionId
+        ? await prisma.connection.findFirst({ where: { id: conflict.connectionId, shop: session.shop }, select: { updateScope: true } })
+        : null;
+      const snapshot = await getShopifySnapshot(admin, conflict.shopifyProductId);
+      if (!snapshot) {
+        return json({ success: false, error: "The product no longer exists in Shopify" }, { status: 404 });
+      }
+      const locks = getProductLocks(importedProduct, { lockedFields: snapshot.lockedFields, lockTags: snapshot.lockTags });
+      await updateShopifyProduct(
+        admin,
+        conflict.shopifyProductId,
+        JSON.parse(conflict.supplierData),
+        parseUpdateScope(connection?.updateScope),
+        importedProduct.images,
+        locks
+      );
+    } else {
+      await keepShopifyValues(importedProduct, parseLockedFields(conflict.fields));
+    }
+
+    await refreshShopifyBaseline(admin, importedProduct.id, conflict.shopifyProductId);
+    await prisma.syncConflict.update({
+      where: { id: conflict.id },
+      data: {
+        status: resolution === "supplier" ? "supplier_applied" : "shopify_kept",
+        resolvedBy: "merchant",
+        resolvedAt: new Date()
+      }
+    });
+
+    console.log(`✋ Conflict for ${conflict.title} resolved: ${resolution} values kept`);
+    return json({ success: true });
+  } catch (error) {
+    console.error("Sync conflicts action error:", error);
+    return json({ success: false, error: error instanceof Error ? error.message : "Internal server error" }, { status: 500 });
+  }
+};
+
+// The supplier side of the watched fields, in the same shape as the stored Shopify values
+function getSupplierValues(productData: any) {
+  const variant = productData.variants?.[0] || {};
+  return {
+    title: productData.title || productData.name || productData.product_name || productData.productName || null,
+    description: productData.descriptionHtml || productData.description || productData.description_html || productData.productDescription || null,
+    vendor: productData.vendor || productData.brand || productData.manufacturer || null,
+    productType: productData.productType || productData.product_type || productData.category || null,
+    tags: productData.tags || productData.categories || null,
+    status: productData.status || null,
+    price: variant.price ?? productData.price ?? null,
+    compareAtPrice: variant.compareAtPrice || productData.rrp || null,
+    sku: productData.supplier_sku_code || variant.sku || null,
+    barcode: productData.barcode || variant.barcode || null
+  };
+}
@@ -0,0 +1,58 @@
+import type { LoaderFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import { authenticate } from "../shopify.server";
+import prisma from "../db.server";
+
+// Sync run history: list recent runs, or drill into one run with ?runId=...
+export async function loader({ request }: LoaderFunctionArgs) {
+  const { session } = await authenticate.admin(request);
+
+  if (!session?.shop) {
+    throw new Response("Unauthorized", { status: 401 });
+  }
+
+  try {
+    const url = new URL(request.url);
+    const runId = url.searchParams.get("runId");
+
+    if (runId) {
+      const action = url.searchParams.get("itemAction");
+
+      const syncRun = await prisma.syncRun.findFirst({
+        where: { id: runId, shop: session.shop }
+      });
+
+      if (!syncRun) {
+        return json({ success: false, error: "Sync run not found" }, { status: 404 });
+      }
+
+      const items = await prisma.syncRunItem.findMany({
+        where: {
+          syncRunId: syncRun.id,
+          ...(action && { action })
+        },
+        orderBy: { createdAt: "asc" },
+        take: 1000
+      });
+
+      return json({ success: true, syncRun, items });
+    }
+
+    const connectionId = url.searchParams.get("connectionId");
+    const limit = Math.min(Number(url.searchParams.get("limit")) || 25, 100);
+
+    const syncRuns = await prisma.syncRun.findMany({
+      where: {
+        shop: session.shop,
+        ...(connectionId && { connectionId })
+      },
+      orderBy: { startedAt: "desc" },
+      take: limit
+    });
+
+    return json({ success: true, syncRuns });
+  } catch (error) {
+    console.error("Sync runs loader error:", error);
+    return json({ success: false, error: "Internal server error" }, { status: 500 });
+  }
+}
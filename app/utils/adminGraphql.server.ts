@@ -0,0 +1,164 @@
+// Throttle-aware wrapper around admin.graphql shared by every route and the sync engine.
+//
+// - Reads extensions.cost.throttleStatus from each response and, when the bucket is running low,
+//   waits for it to refill before the next call (tracked per admin client).
+// - Retries THROTTLED errors, HTTP 429 and transient 5xx/network failures with exponential backoff.
+//   A 5xx or dropped connection can arrive after Shopify already applied a write, so mutations only
+//   get those retries when the caller marks them idempotent (absolute sets and updates, not creates
+//   or adjustments); throttling rejects a request before it runs and is always retried.
+// - Collects userErrors from every mutation payload so callers handle them the same way.
+
+const MAX_RETRIES = 5;
+const BASE_BACKOFF_MS = 500;
+const MAX_BACKOFF_MS = 30000;
+const DEFAULT_QUERY_COST = 50; // budget to keep in reserve before we know what a query costs
+
+interface ThrottleState {
+  currentlyAvailable: number;
+  maximumAvailable: number;
+  restoreRate: number;
+  updatedAt: number;
+}
+
+export interface AdminGraphqlOptions {
+  variables?: Record<string, any>;
+  // Throw a ShopifyUserError when the response carries userErrors (default: just log them)
+  throwOnUserErrors?: boolean;
+  maxRetries?: number;
+  // Safe to send twice: allows retrying a mutation after 5xx and network errors (queries always are)
+  idempotent?: boolean;
+}
+
+export interface ShopifyUserErrorDetail {
+  field?: string[] | null;
+  message: string;
+  code?: string;
+}
+
+export class ShopifyUserError extends Error {
+  userErrors: ShopifyUserErrorDetail[];
+
+  constructor(userErrors: ShopifyUserErrorDetail[]) {
+    super(userErrors.map(error => error.message).join('; ') || 'Shopify returned user errors');
+    this.name = 'ShopifyUserError';
+    this.userErrors = userErrors;
+  }
+}
+
+// Last known bucket state per admin client (one client per request / offline session)
+const throttleStates = new WeakMap<object, ThrottleState>();
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+function backoffDelay(attempt: number) {
+  const delay = Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** attempt);
+  return delay / 2 + Math.random() * (delay / 2);
+}
+
+function getOperationName(query: string) {
+  return query.match(/(?:query|mutation)\s+(\w+)/)?.[1] || 'anonymous';
+}
+
+function isMutation(query: string) {
+  return /^\s*(?:#graphql\s*)?mutation\b/.test(query);
+}
+
+function updateThrottleState(admin: object, body: any) {
+  const throttleStatus = body?.extensions?.cost?.throttleStatus;
+  if (!throttleStatus) return;
+  throttleStates.set(admin, {
+    currentlyAvailable: throttleStatus.currentlyAvailable,
+    maximumAvailable: throttleStatus.maximumAvailable,
+    restoreRate: throttleStatus.restoreRate,
+    updatedAt: Date.now()
+  });
+}
+
+// How long to wait before spending `cost` points, based on the last known bucket state
+function getBudgetWait(admin: object, cost: number) {
+  const state = throttleStates.get(admin);
+  if (!state || !state.restoreRate) return 0;
+  const elapsedSeconds = (Date.now() - state.updatedAt) / 1000;
+  const available = Math.min(state.maximumAvailable, state.currentlyAvailable + elapsedSeconds * state.restoreRate);
+  const needed = Math.min(cost, state.maximumAvailable);
+  return available >= needed ? 0 : Math.ceil(((needed - available) / state.restoreRate) * 1000);
+}
+
+// Works out whether an error from admin.graphql is worth retrying, and how long to wait first
+function getRetryDelay(admin: object, error: any, attempt: number, idempotent: boolean): number | null {
+  // GraphQL-level THROTTLED (HTTP 200 with errors[].extensions.code)
+  const graphQLErrors = error?.body?.errors?.graphQLErrors;
+  if (Array.isArray(graphQLErrors) && graphQLErrors.some((e: any) => e?.extensions?.code === 'THROTTLED')) {
+    updateThrottleState(admin, error.body);
+    const cost = error.body?.extensions?.cost?.requestedQueryCost || DEFAULT_QUERY_COST;
+    return Math.max(getBudgetWait(admin, cost), backoffDelay(attempt));
+  }
+
+  const status = error?.response?.code ?? error?.response?.status ?? error?.status;
+  if (status === 429) {
+    const retryAfter = error?.response?.retryAfter;
+    return retryAfter ? retryAfter * 1000 : backoffDelay(attempt);
+  }
+  // Beyond this point the request may have reached Shopify and been applied
+  if (!idempotent) return null;
+
+  if (typeof status === 'number' && status >= 500) {
+    return backoffDelay(attempt);
+  }
+
+  // Network failures surface as plain errors without a status
+  const message = String(error?.message || '');
+  if (!status && /fetch failed|ECONNRESET|ETIMEDOUT|ENOTFOUND|socket hang up|network/i.test(message)) {
+    return backoffDelay(attempt);
+  }
+
+  return null;
+}
+
+// userErrors from every mutation payload in the response, e.g. data.productCreate.userErrors
+export function getUserErrors(body: any): ShopifyUserErrorDetail[] {
+  const data = body?.data;
+  if (!data || typeof data !== 'object') return [];
+  return Object.values(data).flatMap((payload: any) =>
+    Array.isArray(payload?.userErrors) ? payload.userErrors : []
+  );
+}
+
+// Drop-in replacement for `await (await admin.graphql(query, { variables })).json()`
+export async function adminGraphql(admin: any, query: string, options: AdminGraphqlOptions = {}) {
+  const operation = getOperationName(query);
+  const maxRetries = options.maxRetries ?? MAX_RETRIES;
+  const idempotent = options.idempotent ?? !isMutation(query);
+
+  for (let attempt = 0; ; attempt++) {
+    const budgetWait = getBudgetWait(admin, DEFAULT_QUERY_COST);
+    if (budgetWait > 0) {
+      console.log(`⏳ Waiting ${budgetWait}ms for Shopify API budget before ${operation}`);
+      await sleep(budgetWait);
+    }
+
+    try {
+      const response = await admin.graphql(query, { variables: options.variables });
+      const body = await response.json();
+      updateThrottleState(admin, body);
+
+      const userErrors = getUserErrors(body);
+      if (userErrors.length > 0) {
+        console.warn(`⚠️ ${operation} returned userErrors:`, userErrors);
+        if (options.throwOnUserErrors) {
+          throw new ShopifyUserError(userErrors);
+        }
+      }
+
+      return body;
+    } catch (error) {
+      if (error instanceof ShopifyUserError) throw error;
+
+      const delay = attempt < maxRetries ? getRetryDelay(admin, error, attempt, idempotent) : null;
+      if (delay === null) throw error;
+
+      console.warn(`🔁 ${operation} failed (attempt ${attempt + 1}/${maxRetries + 1}), retrying in ${delay}ms:`, (error as any)?.message);
+      await sleep(delay);
+    }
+  }
+}
@@ -0,0 +1,611 @@
+import prisma from "../db.server";
+import { unauthenticated } from "../shopify.server";
+import { adminGraphql } from "./adminGraphql.server";
+import {
+  BULK_PRODUCT_SET,
+  BULK_PUBLISHABLE_PUBLISH,
+  M_BULK_OPERATION_CANCEL,
+  M_BULK_OPERATION_RUN_MUTATION,
+  M_STAGED_UPLOADS_CREATE,
+  Q_BULK_OPERATION,
+  Q_IMPORT_BEFORE_SNAPSHOTS
+} from "./graphql.server";
+import { keepLockTags, omitLockedProductFields, omitLockedVariantFields } from "./fieldLocks";
+import { toBaselineData, toShopifySnapshot } from "./shopifyConflicts.server";
+import { getProductLocks, getShopifyProducts } from "./sync.server";
+import { releaseSyncLease, renewSyncLease } from "./syncLock.server";
+import type { ShopifyProductLocks } from "./sync.server";
+import type { ImportBeforeSnapshot } from "./importRollback.server";
+import type { ShopifyVariantInventory } from "./inventorySync.server";
+
+// Shopify Bulk Operations pipeline for very large imports.
+// Instead of several GraphQL calls per product, the import writes one productSet input per line
+// to a JSONL file, uploads it through a staged upload and starts a single bulkOperationRunMutation.
+// The HTTP request returns straight away; the ImportSession then waits on the bulk operation
+// (polled from the progress endpoint and the background scheduler), and when it completes the
+// result file is reconciled into ImportedProduct rows and the session counts. A second bulk
+// operation publishes the products to the sales channels, like the per-product import does.
+
+export const BULK_IMPORT_THRESHOLD = 250; // imports with at least this many products use the bulk pipeline
+
+const POLL_INTERVAL_MS = 5000; // the progress endpoint is hit far more often than Shopify needs asking
+const lastPolledAt = new Map<string, number>();
+
+// An existing product the import will update instead of create
+export interface BulkImportTarget {
+  shopifyProductId: string;
+  locks: ShopifyProductLocks;
+  variants: ShopifyVariantInventory[];
+  beforeSnapshot?: ImportBeforeSnapshot | null; // the values rollback restores, read before the bulk operation runs
+}
+
+function toMoneyString(val: any): string | undefined {
+  if (val === null || val === undefined) return undefined;
+  const cleaned = String(val).trim();
+  if (cleaned === '') return undefined;
+  const num = parseFloat(cleaned.replace(/[^0-9.-]/g, ''));
+  if (Number.isNaN(num)) return undefined;
+  return num.toFixed(2);
+}
+
+function getImageUrls(product: any): string[] {
+  const urls = (product.variants || [])
+    .map((variant: any) => variant?.image_url)
+    .filter((url: any) => typeof url === 'string' && url.trim())
+    .map((url: string) => url.trim());
+  return [...new Set<string>(urls)];
+}
+
+// The existing variant the supplier row is written to: the one with the supplier SKU, or the first
+function findTargetVariant(target: BulkImportTarget, sku: string) {
+  return target.variants.find(variant => variant.sku && variant.sku === sku) || target.variants[0];
+}
+
+function getSupplierSku(product: any): string {
+  const sourceVariant = product.variants?.[0] || {};
+  return String(sourceVariant.sku || sourceVariant.supplier_sku_code || '');
+}
+
+// productSet input for one processed wizard product (markup and status already applied).
+// Existing products keep their other variants and their media: productSet replaces list fields,
+// so every current variant is passed back by id and files are only sent for new products.
+export function buildProductSetInput(product: any, target?: BulkImportTarget | null) {
+  const sourceVariant = product.variants?.[0] || {};
+  const lockedFields = target?.locks.lockedFields || [];
+
+  const input: any = omitLockedProductFields({
+    ...(target && { id: target.shopifyProductId }),
+    title: product.title || 'Unknown Product',
+    descriptionHtml: product.descriptionHtml || '',
+    vendor: product.vendor || '',
+    productType: product.productType || '',
+    tags: target ? keepLockTags(product.tags || [], target.locks.lockTags) : product.tags || [],
+    status: product.status || 'DRAFT'
+  }, lockedFields);
+
+  const supplierVariant: any = {
+    price: toMoneyString(sourceVariant.price) ?? '0.00',
+    inventoryItem: { sku: getSupplierSku(product) },
+    ...(toMoneyString(sourceVariant.compareAtPrice) && { compareAtPrice: toMoneyString(sourceVariant.compareAtPrice) }),
+    ...(sourceVariant.barcode && { barcode: String(sourceVariant.barcode) })
+  };
+
+  if (target && target.variants.length > 0) {
+    // Update the variant with the supplier SKU (or the first one) and pass the others through untouched
+    const matched = findTargetVariant(target, supplierVariant.inventoryItem.sku);
+    const optionNames = new Map<string, Set<string>>();
+    input.variants = target.variants.map(variant => {
+      const selectedOptions = variant.selectedOptions || [];
+      for (const option of selectedOptions) {
+        if (!optionNames.has(option.name)) optionNames.set(option.name, new Set());
+        optionNames.get(option.name)!.add(option.value);
+      }
+      return {
+        id: variant.id,
+        optionValues: selectedOptions.map(option => ({ optionName: option.name, name: option.value })),
+        ...(variant.id === matched.id && omitLockedVariantFields(supplierVariant, lockedFields))
+      };
+    });
+    input.productOptions = [...optionNames.entries()].map(([name, values]) => ({
+      name,
+      values: [...values].map(value => ({ name: value }))
+    }));
+  } else {
+    // Same single "Title" option the per-product import creates
+    const optionValue = product.title || 'Default';
+    input.productOptions = [{ name: 'Title', values: [{ name: optionValue }] }];
+    input.variants = [{ optionValues: [{ optionName: 'Title', name: optionValue }], ...supplierVariant }];
+    const imageUrls = getImageUrls(product);
+    if (imageUrls.length > 0) {
+      input.files = imageUrls.map(url => ({ originalSource: url, contentType: 'IMAGE' }));
+    }
+  }
+
+  return input;
+}
+
+// Finds the products the import should update rather than create, the same way the per-product
+// import does (ImportedProduct row by SKU, then by title), in a few batched queries
+export async function resolveBulkImportTargets(admin: any, shop: string, products: any[]): Promise<Array<BulkImportTarget | null>> {
+  const skus = [...new Set(products.map(product => String(product.variants?.[0]?.sku || '')).filter(Boolean))];
+  const titles = [...new Set(products.map(product => String(product.title || '')).filter(Boolean))];
+  const bySku = new Map<string, any>();
+  const byTitle = new Map<string, any>();
+
+  for (let i = 0; i < skus.length; i += 1000) {
+    const rows = await prisma.importedProduct.findMany({
+      where: { shop, sku: { in: skus.slice(i, i + 1000) }, shopifyProductId: { not: null } }
+    });
+    for (const row of rows) if (row.sku && !bySku.has(row.sku)) bySku.set(row.sku, row);
+  }
+  for (let i = 0; i < titles.length; i += 1000) {
+    const rows = await prisma.importedProduct.findMany({
+      where: { shop, title: { in: titles.slice(i, i + 1000) }, shopifyProductId: { not: null } }
+    });
+    for (const row of rows) if (!byTitle.has(row.title)) byTitle.set(row.title, row);
+  }
+
+  if (bySku.size === 0 && byTitle.size === 0) {
+    return products.map(() => null);
+  }
+
+  // Current variants and Shopify-side locks; rows whose product was deleted in Shopify are created again
+  const index = await getShopifyProducts(admin);
+  const targets = products.map((product): BulkImportTarget | null => {
+    const row = bySku.get(String(product.variants?.[0]?.sku || '')) || byTitle.get(String(product.title || ''));
+    const variants = row ? index.variantsByProduct.get(row.shopifyProductId) : undefined;
+    if (!row || !variants) return null;
+    return {
+      shopifyProductId: row.shopifyProductId,
+      locks: getProductLocks(row, index.locksByProduct.get(row.shopifyProductId)),
+      variants
+    };
+  });
+
+  await attachBeforeSnapshots(admin, products, targets);
+  return targets;
+}
+
+// Reads the current values of every product the import will update (and of the variant it writes
+// to), the same fields updateShopifyProduct snapshots on the per-product path, so the session can
+// be rolled back. Products and variants are looked up together, 250 ids per call.
+async function attachBeforeSnapshots(admin: any, products: any[], targets: Array<BulkImportTarget | null>) {
+  const variantIds = new Map<BulkImportTarget, string | null>();
+  const ids = new Set<string>();
+  products.forEach((product, index) => {
+    const target = targets[index];
+    if (!target) return;
+    const variantId = target.variants.length > 0 ? findTargetVariant(target, getSupplierSku(product)).id : null;
+    variantIds.set(target, variantId);
+    ids.add(target.shopifyProductId);
+    if (variantId) ids.add(variantId);
+  });
+  if (ids.size === 0) return;
+
+  const nodes = new Map<string, any>();
+  const allIds = [...ids];
+  for (let i = 0; i < allIds.length; i += 250) {
+    const result = await adminGraphql(admin, Q_IMPORT_BEFORE_SNAPSHOTS, {
+      variables: { ids: allIds.slice(i, i + 250) }
+    });
+    for (const node of result.data?.nodes || []) {
+      if (node?.id) nodes.set(node.id, node);
+    }
+  }
+
+  for (const [target, variantId] of variantIds) {
+    const product = nodes.get(target.shopifyProductId);
+    if (!product) continue;
+    const variant = variantId ? nodes.get(variantId) : null;
+    target.beforeSnapshot = {
+      productId: target.shopifyProductId,
+      product: {
+        title: product.title,
+        descriptionHtml: product.descriptionHtml,
+        vendor: product.vendor,
+        productType: product.productType,
+        tags: product.tags || [],
+        status: product.status
+      },
+      variant: variant ? {
+        id: variant.id,
+        price: variant.price,
+        compareAtPrice: variant.compareAtPrice,
+        sku: variant.sku,
+        barcode: variant.barcode
+      } : null
+    };
+  }
+}
+
+// Uploads JSONL variables and returns the staged upload path bulkOperationRunMutation expects
+async function stageJsonlUpload(admin: any, lines: any[], filename: string): Promise<string> {
+  const result = await adminGraphql(admin, M_STAGED_UPLOADS_CREATE, {
+    variables: {
+      input: [{ resource: 'BULK_MUTATION_VARIABLES', filename, mimeType: 'text/jsonl', httpMethod: 'POST' }]
+    },
+    throwOnUserErrors: true
+  });
+  const target = result.data?.stagedUploadsCreate?.stagedTargets?.[0];
+  if (!target?.url) {
+    throw new Error('Shopify did not return a staged upload target');
+  }
+
+  const form = new FormData();
+  for (const parameter of target.parameters || []) {
+    form.append(parameter.name, parameter.value);
+  }
+  const jsonl = lines.map(line => JSON.stringify(line)).join('\n');
+  form.append('file', new Blob([jsonl], { type: 'text/jsonl' }), filename);
+
+  const response = await fetch(target.url, { method: 'POST', body: form });
+  if (!response.ok) {
+    throw new Error(`Staged upload failed: HTTP ${response.status}`);
+  }
+
+  const key = (target.parameters || []).find((parameter: any) => parameter.name === 'key')?.value;
+  if (!key) {
+    throw new Error('Staged upload target has no key parameter');
+  }
+  console.log(`📤 Uploaded ${lines.length} bulk mutation lines (${Math.round(jsonl.length / 1024)} KB)`);
+  return key;
+}
+
+async function runBulkMutation(admin: any, mutation: string, lines: any[], filename: string): Promise<string> {
+  const stagedUploadPath = await stageJsonlUpload(admin, lines, filename);
+  const result = await adminGraphql(admin, M_BULK_OPERATION_RUN_MUTATION, {
+    variables: { mutation, stagedUploadPath },
+    throwOnUserErrors: true
+  });
+  const bulkOperation = result.data?.bulkOperationRunMutation?.bulkOperation;
+  if (!bulkOperation?.id) {
+    throw new Error('Shopify did not start the bulk operation');
+  }
+  console.log(`🚚 Bulk operation started: ${bulkOperation.id} (${bulkOperation.status})`);
+  return bulkOperation.id;
+}
+
+// Builds the JSONL, starts the productSet bulk operation and parks the session on it.
+// syncLockToken is the connection lease the import holds; the session keeps it until the
+// operation is done, so no sync writes to the same products in the meantime.
+export async function startBulkProductImport(
+  admin: any,
+  params: {
+    importSessionId: string;
+    connectionId?: string | null;
+    shop: string;
+    products: any[];
+    syncLockToken?: string | null;
+  }
+) {
+  const { importSessionId, connectionId, shop, products, syncLockToken } = params;
+  try {
+    const targets = await resolveBulkImportTargets(admin, shop, products);
+    const lines = products.map((product, index) => ({ input: buildProductSetInput(product, targets[index]) }));
+
+    // Checkpoints for the rows that update an existing product, with its before-snapshot; the rows
+    // that create one get theirs when the result file is reconciled (line number = row index)
+    const updateItems = products
+      .map((product, index) => ({ product, index, target: targets[index] }))
+      .filter(({ target }) => target)
+      .map(({ product, index, target }) => ({
+        importSessionId,
+        rowIndex: index,
+        rowKey: String(product.variants?.[0]?.sku || product.title || ''),
+        outcome: 'pending',
+        shopifyProductId: target!.shopifyProductId,
+        beforeSnapshot: target!.beforeSnapshot ? JSON.stringify(target!.beforeSnapshot) : null
+      }));
+    for (let i = 0; i < updateItems.length; i += 500) {
+      await prisma.importItem.createMany({ data: updateItems.slice(i, i + 500), skipDuplicates: true });
+    }
+
+    const bulkOperationId = await runBulkMutation(admin, BULK_PRODUCT_SET, lines, `import-${importSessionId}.jsonl`);
+
+    await prisma.importSession.update({
+      where: { id: importSessionId },
+      data: {
+        connectionId: connectionId || null,
+        totalProducts: products.length,
+        status: 'processing',
+        currentProduct: 'Shopify bulk operation queued',
+        bulkOperationId,
+        bulkStage: 'product_set',
+        syncLockToken: syncLockToken || null
+      }
+    });
+    return bulkOperationId;
+  } catch (error) {
+    await prisma.importSession.update({
+      where: { id: importSessionId },
+      data: {
+        status: 'failed',
+        errorMessage: error instanceof Error ? error.message : String(error),
+        completedAt: new Date()
+      }
+    });
+    throw error;
+  }
+}
+
+async function downloadJsonl(url: string): Promise<any[]> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to download bulk operation results: HTTP ${response.status}`);
+  }
+  const text = await response.text();
+  return text
+    .split('\n')
+    .filter(line => line.trim())
+    .map(line => JSON.parse(line));
+}
+
+// Settles the ImportItem checkpoints: rows written for updates become updated (or failed), and the
+// products the bulk operation created get a row of their own so rollback deletes them
+async function saveBulkImportItems(importSessionId: string, succeededLines: Array<{ rowIndex: number; product: any }>, failedLines: number[]) {
+  const createdItems = succeededLines.map(({ rowIndex, product }) => ({
+    importSessionId,
+    rowIndex,
+    rowKey: String(product.variants?.edges?.[0]?.node?.sku || product.title || ''),
+    outcome: 'created',
+    shopifyProductId: product.id
+  }));
+  for (let i = 0; i < succeededLines.length; i += 1000) {
+    const rowIndexes = succeededLines.slice(i, i + 1000).map(line => line.rowIndex);
+    await prisma.importItem.updateMany({
+      where: { importSessionId, outcome: 'pending', rowIndex: { in: rowIndexes } },
+      data: { outcome: 'updated' }
+    });
+  }
+  for (let i = 0; i < failedLines.length; i += 1000) {
+    await prisma.importItem.updateMany({
+      where: { importSessionId, outcome: 'pending', rowIndex: { in: failedLines.slice(i, i + 1000) } },
+      data: { outcome: 'failed', beforeSnapshot: null } // productSet changes nothing on a line that fails
+    });
+  }
+  // Update rows already have their checkpoint, so only the created ones are inserted
+  for (let i = 0; i < createdItems.length; i += 500) {
+    await prisma.importItem.createMany({ data: createdItems.slice(i, i + 500), skipDuplicates: true });
+  }
+}
+
+// Writes the productSet results back to ImportedProduct; returns the counts for the session
+async function reconcileProductSetResults(importSession: any, url: string | null) {
+  const rows = url ? await downloadJsonl(url) : [];
+  const products: any[] = [];
+  const errors: string[] = [];
+  const succeededLines: Array<{ rowIndex: number; product: any }> = [];
+  const failedLines: number[] = [];
+
+  for (const row of rows) {
+    const payload = row.data?.productSet;
+    const userErrors = payload?.userErrors || [];
+    if (payload?.product && userErrors.length === 0) {
+      products.push(payload.product);
+      if (typeof row.__lineNumber === 'number') succeededLines.push({ rowIndex: row.__lineNumber, product: payload.product });
+    } else {
+      const message = userErrors.map((error: any) => error.message).join('; ') || row.errors?.[0]?.message || 'Unknown error';
+      errors.push(`Line ${row.__lineNumber ?? '?'}: ${message}`);
+      if (typeof row.__lineNumber === 'number') failedLines.push(row.__lineNumber);
+    }
+  }
+
+  // Products this shop already tracks are updated in place, the rest are new rows
+  const existingRows = new Map<string, string>();
+  for (let i = 0; i < products.length; i += 1000) {
+    const ids = products.slice(i, i + 1000).map(product => product.id);
+    const found = await prisma.importedProduct.findMany({
+      where: { shop: importSession.shop, shopifyProductId: { in: ids } },
+      select: { id: true, shopifyProductId: true }
+    });
+    for (const row of found) {
+      if (row.shopifyProductId) existingRows.set(row.shopifyProductId, row.id);
+    }
+  }
+
+  const toRowData = (product: any) => {
+    const variant = product.variants?.edges?.[0]?.node || {};
+    return {
+      importSessionId: importSession.id,
+      title: product.title || '',
+      bodyHtml: product.descriptionHtml || '',
+      vendor: product.vendor || '',
+      productType: product.productType || '',
+      tags: JSON.stringify(product.tags || []),
+      status: product.status || 'draft',
+      price: variant.price ? String(variant.price) : '',
+      compareAtPrice: variant.compareAtPrice ? String(variant.compareAtPrice) : '',
+      sku: variant.sku || '',
+      barcode: variant.barcode || '',
+      ...toBaselineData(toShopifySnapshot(product))
+    };
+  };
+
+  const newRows: any[] = [];
+  for (const product of products) {
+    const existingId = existingRows.get(product.id);
+    if (existingId) {
+      await prisma.importedProduct.update({ where: { id: existingId }, data: toRowData(product) });
+    } else {
+      newRows.push({
+        shop: importSession.shop,
+        connectionId: importSession.connectionId,
+        shopifyProductId: product.id,
+        ...toRowData(product)
+      });
+    }
+  }
+  for (let i = 0; i < newRows.length; i += 500) {
+    await prisma.importedProduct.createMany({ data: newRows.slice(i, i + 500) });
+  }
+
+  await saveBulkImportItems(importSession.id, succeededLines, failedLines);
+
+  console.log(`🧾 Reconciled bulk import ${importSession.id}: ${products.length} imported (${newRows.length} new), ${errors.length} failed`);
+  return {
+    productIds: products.map(product => product.id),
+    imported: products.length,
+    failed: errors.length,
+    errorMessage: errors.length > 0 ? errors.slice(0, 20).join('\n') : null
+  };
+}
+
+async function startBulkPublish(admin: any, importSessionId: string, productIds: string[]): Promise<string | null> {
+  if (productIds.length === 0) return null;
+  const publicationsResult = await adminGraphql(admin, `#graphql
+    query {
+      publications(first: 10) {
+        edges { node { id name } }
+      }
+    }
+  `);
+  const publications = (publicationsResult.data?.publications?.edges || []).map((edge: any) => edge.node);
+  if (publications.length === 0) {
+    console.log('❌ No publications found');
+    return null;
+  }
+
+  const input = publications.map((publication: any) => ({ publicationId: publication.id }));
+  const lines = productIds.map(id => ({ id, input }));
+  return runBulkMutation(admin, BULK_PUBLISHABLE_PUBLISH, lines, `publish-${importSessionId}.jsonl`);
+}
+
+// The connection lease handed over by the import: kept alive while the operation runs, released
+// once the session is finished. If polling stops altogether the lease simply expires.
+async function renewBulkImportLease(importSession: any) {
+  if (!importSession.connectionId || !importSession.syncLockToken) return;
+  if (!(await renewSyncLease(importSession.shop, importSession.connectionId, importSession.syncLockToken))) {
+    console.warn(`⚠️ Bulk import ${importSession.id} lost its sync lock (it expired and was taken over)`);
+  }
+}
+
+async function releaseBulkImportLease(importSession: any) {
+  if (!importSession.connectionId || !importSession.syncLockToken) return;
+  await releaseSyncLease(importSession.shop, importSession.connectionId, importSession.syncLockToken);
+  await prisma.importSession.update({ where: { id: importSession.id }, data: { syncLockToken: null } });
+}
+
+// Checks the session's bulk operation and moves the import along when it finished.
+// Safe to call from several places at once: finishing a stage is claimed with a conditional update.
+export async function pollBulkImport(admin: any, importSession: any, options: { force?: boolean } = {}) {
+  if (!importSession?.bulkOperationId || importSession.status !== 'processing') return;
+  const lastPoll = lastPolledAt.get(importSession.id) || 0;
+  if (!options.force && Date.now() - lastPoll < POLL_INTERVAL_MS) return;
+  lastPolledAt.set(importSession.id, Date.now());
+  await renewBulkImportLease(importSession);
+
+  const result = await adminGraphql(admin, Q_BULK_OPERATION, { variables: { id: importSession.bulkOperationId } });
+  const operation = result.data?.node;
+  const stage = importSession.bulkStage;
+
+  if (operation && ['CREATED', 'RUNNING', 'CANCELING'].includes(operation.status)) {
+    const label = stage === 'publish' ? 'Publishing to sales channels' : 'Shopify bulk operation running';
+    await prisma.importSession.update({
+      where: { id: importSession.id },
+      data: { currentProduct: `${label}: ${operation.objectCount || 0} of ${importSession.totalProducts} processed` }
+    });
+    return;
+  }
+
+  // Claim the finished stage so a parallel poll doesn't reconcile it twice
+  const claimed = await prisma.importSession.updateMany({
+    where: { id: importSession.id, bulkOperationId: importSession.bulkOperationId, bulkStage: stage },
+    data: { bulkStage: 'reconciling' }
+  });
+  if (claimed.count === 0) return;
+
+  try {
+    if (!operation || operation.status !== 'COMPLETED') {
+      // FAILED / CANCELED / EXPIRED: keep whatever Shopify managed to write before it stopped
+      const reason = operation ? `Bulk operation ${operation.status.toLowerCase()}${operation.errorCode ? ` (${operation.errorCode})` : ''}` : 'Bulk operation not found';
+      const counts = stage === 'product_set' && operation?.partialDataUrl
+        ? await reconcileProductSetResults(importSession, operation.partialDataUrl)
+        : null;
+      console.error(`❌ ${reason} for import ${importSession.id}`);
+      await prisma.importSession.update({
+        where: { id: importSession.id },
+        data: {
+          status: stage === 'publish' ? 'completed' : operation?.status === 'CANCELED' ? 'cancelled' : 'failed',
+          ...(counts && { importedProducts: counts.imported, failedProducts: importSession.totalProducts - counts.imported }),
+          errorMessage: [reason, counts?.errorMessage].filter(Boolean).join('\n'),
+          bulkOperationId: null,
+          bulkStage: null,
+          completedAt: new Date()
+        }
+      });
+      await releaseBulkImportLease(importSession);
+      return;
+    }
+
+    if (stage === 'product_set') {
+      const counts = await reconcileProductSetResults(importSession, operation.url);
+      let publishOperationId: string | null = null;
+      let publishError: string | null = null;
+      try {
+        publishOperationId = await startBulkPublish(admin, importSession.id, counts.productIds);
+      } catch (error) {
+        publishError = `Publishing failed: ${error instanceof Error ? error.message : String(error)}`;
+        console.error(`❌ ${publishError}`);
+      }
+
+      await prisma.importSession.update({
+        where: { id: importSession.id },
+        data: {
+          importedProducts: counts.imported,
+          failedProducts: counts.failed,
+          errorMessage: [counts.errorMessage, publishError].filter(Boolean).join('\n') || null,
+          ...(publishOperationId
+            ? { bulkOperationId: publishOperationId, bulkStage: 'publish', currentProduct: 'Publishing to sales channels' }
+            : { status: 'completed', bulkOperationId: null, bulkStage: null, currentProduct: 'Import completed', completedAt: new Date() })
+        }
+      });
+      // Publishing doesn't touch product data, so the connection is free once productSet is done
+      await releaseBulkImportLease(importSession);
+      return;
+    }
+
+    await prisma.importSession.update({
+      where: { id: importSession.id },
+      data: { status: 'completed', bulkOperationId: null, bulkStage: null, currentProduct: 'Import completed', completedAt: new Date() }
+    });
+    await releaseBulkImportLease(importSession);
+    console.log(`✅ Bulk import ${importSession.id} completed`);
+  } catch (error) {
+    // Hand the stage back so the next poll retries
+    await prisma.importSession.update({
+      where: { id: importSession.id },
+      data: { bulkStage: stage }
+    });
+    throw error;
+  }
+}
+
+// Asks Shopify to stop the session's bulk operation. The session stays processing until the next
+// poll sees the operation CANCELED and reconciles whatever Shopify already wrote.
+export async function cancelBulkImport(admin: any, importSession: any) {
+  await adminGraphql(admin, M_BULK_OPERATION_CANCEL, {
+    variables: { id: importSession.bulkOperationId },
+    throwOnUserErrors: true
+  });
+  await prisma.importSession.update({
+    where: { id: importSession.id },
+    data: { currentProduct: 'Cancelling Shopify bulk operation...' }
+  });
+  console.log(`🛑 Cancel requested for bulk operation ${importSession.bulkOperationId}`);
+}
+
+// Background scheduler hook: moves bulk imports along even when nobody keeps the import page open
+export async function pollRunningBulkImports() {
+  const sessions = await prisma.importSession.findMany({
+    where: { status: 'processing', bulkOperationId: { not: null } }
+  });
+
+  for (const importSession of sessions) {
+    try {
+      const { admin } = await unauthenticated.admin(importSession.shop);
+      await pollBulkImport(admin, importSession, { force: true });
+    } catch (error) {
+      console.error(`❌ Failed to poll bulk import ${importSession.id}:`, error);
+    }
+  }
+}
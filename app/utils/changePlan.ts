@@ -0,0 +1,60 @@
+// Client-side helpers for dry-run change plans returned by /app/api/cron and bulkCreateProducts
+
+export interface ChangePlanRow {
+  action: string;
+  title: string;
+  sku: string | null;
+  oldTitle: string | null;
+  newTitle: string | null;
+  oldPrice: string | null;
+  newPrice: string | null;
+  oldQuantity: number | null;
+  newQuantity: number | null;
+  shopifyProductId: string | null;
+  note?: string;
+}
+
+const CSV_COLUMNS: Array<{ header: string; key: keyof ChangePlanRow }> = [
+  { header: 'Action', key: 'action' },
+  { header: 'Title', key: 'title' },
+  { header: 'SKU', key: 'sku' },
+  { header: 'Old Title', key: 'oldTitle' },
+  { header: 'New Title', key: 'newTitle' },
+  { header: 'Old Price', key: 'oldPrice' },
+  { header: 'New Price', key: 'newPrice' },
+  { header: 'Old Quantity', key: 'oldQuantity' },
+  { header: 'New Quantity', key: 'newQuantity' },
+  { header: 'Shopify Product ID', key: 'shopifyProductId' },
+  { header: 'Note', key: 'note' }
+];
+
+const escapeCsv = (value: unknown) => {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const changePlanToCsv = (plan: ChangePlanRow[]) => {
+  const lines = [CSV_COLUMNS.map(column => column.header).join(',')];
+  for (const row of plan) {
+    lines.push(CSV_COLUMNS.map(column => escapeCsv(row[column.key])).join(','));
+  }
+  return lines.join('\n');
+};
+
+export const downloadChangePlan = (plan: ChangePlanRow[], fileName: string) => {
+  const blob = new Blob([changePlanToCsv(plan)], { type: 'text/csv;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+export const summarizeChangePlan = (plan: ChangePlanRow[]) =>
+  plan.reduce((counts: Record<string, number>, row) => {
+    counts[row.action] = (counts[row.action] || 0) + 1;
+    return counts;
+  }, {});
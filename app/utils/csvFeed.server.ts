@@ -0,0 +1,44 @@
+import Papa from "papaparse";
+
+// Remote CSV/TSV supplier feeds (Connection.feedFormat 'csv'): a file at a URL, typically a
+// nightly stock export, downloaded on every run. The first row holds the column names and each
+// following row becomes one item keyed by them, so key mappings work the same as for API and
+// XML feeds. The delimiter (comma, semicolon, tab or pipe) is detected from the file.
+// Values stay strings (leading zeros in SKUs and barcodes matter).
+
+export const CSV_ACCEPT = 'text/csv, text/tab-separated-values;q=0.9, text/plain;q=0.8, */*;q=0.5';
+
+const DELIMITERS = [',', ';', '\t', '|'];
+
+export function isCsvContentType(contentType: string | null | undefined) {
+  return /\b(text\/csv|text\/tab-separated-values|application\/csv)\b/i.test(contentType || '');
+}
+
+export function parseCsvDocument(text: string): Record<string, string>[] {
+  // A login or error page served with status 200 would otherwise become a one-column "CSV"
+  if (/^\s*</.test(text)) {
+    throw new Error('The feed returned HTML or XML instead of CSV');
+  }
+
+  const result = Papa.parse<Record<string, string>>(text.replace(/^\uFEFF/, ''), {
+    header: true,
+    dynamicTyping: false,
+    skipEmptyLines: 'greedy',
+    delimitersToGuess: DELIMITERS,
+    transformHeader: (header: string) => header.trim()
+  });
+
+  const fields = (result.meta.fields || []).filter(Boolean);
+  if (fields.length === 0) {
+    throw new Error('The feed is not a CSV file with a header row');
+  }
+
+  // Short or long rows are kept (missing columns read as empty); only report them
+  if (result.errors.length > 0) {
+    const first = result.errors[0];
+    console.warn(`⚠️ CSV feed has ${result.errors.length} malformed row(s), first at row ${(first.row ?? 0) + 1}: ${first.message}`);
+  }
+  console.log(`📄 Parsed CSV feed: ${result.data.length} rows, ${fields.length} columns (delimiter ${JSON.stringify(result.meta.delimiter)})`);
+
+  return result.data;
+}
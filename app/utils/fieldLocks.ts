@@ -0,0 +1,134 @@
+// Per-product field locks: fields a merchant has frozen on an imported product so that
+// sync and re-import updates leave them alone while still updating everything else.
+// Locks come from ImportedProduct.lockedFields (JSON array, set from the product locks UI) and
+// from Shopify itself, via a `sync-lock:<field>` product tag or the supplier_sync.locked_fields metafield.
+// Shared by the sync engine, the wizard import and the product locks UI.
+
+export type LockableField =
+  | 'title'
+  | 'description'
+  | 'vendor'
+  | 'productType'
+  | 'tags'
+  | 'status'
+  | 'price'
+  | 'compareAtPrice'
+  | 'sku'
+  | 'barcode'
+  | 'images'
+  | 'inventory';
+
+export const LOCKABLE_FIELDS: Array<{ value: LockableField; label: string }> = [
+  { value: 'title', label: 'Title' },
+  { value: 'description', label: 'Description' },
+  { value: 'vendor', label: 'Vendor' },
+  { value: 'productType', label: 'Product type' },
+  { value: 'tags', label: 'Tags' },
+  { value: 'status', label: 'Status' },
+  { value: 'price', label: 'Price' },
+  { value: 'compareAtPrice', label: 'Compare-at price' },
+  { value: 'sku', label: 'SKU' },
+  { value: 'barcode', label: 'Barcode' },
+  { value: 'images', label: 'Images' },
+  { value: 'inventory', label: 'Inventory quantities' }
+];
+
+const ALL_LOCKABLE_FIELDS: LockableField[] = LOCKABLE_FIELDS.map(field => field.value);
+
+// Shopify-side convention: tag a product `sync-lock:price` (or `sync-lock:all`), or set the
+// supplier_sync.locked_fields metafield to a JSON list / comma separated list of field names
+export const LOCK_TAG_PREFIX = 'sync-lock:';
+export const LOCK_METAFIELD_NAMESPACE = 'supplier_sync';
+export const LOCK_METAFIELD_KEY = 'locked_fields';
+
+// ProductInput / ProductVariantsBulkInput keys each lockable field controls
+const PRODUCT_INPUT_KEYS: Partial<Record<LockableField, string>> = {
+  title: 'title',
+  description: 'descriptionHtml',
+  vendor: 'vendor',
+  productType: 'productType',
+  tags: 'tags',
+  status: 'status'
+};
+
+const VARIANT_INPUT_KEYS: Partial<Record<LockableField, string>> = {
+  price: 'price',
+  compareAtPrice: 'compareAtPrice',
+  sku: 'inventoryItem',
+  barcode: 'barcode'
+};
+
+// Normalises a list of names ('all', different casing, 'product_type') to known fields
+function normaliseFieldNames(names: any[]): LockableField[] {
+  const wanted = names
+    .filter((name: any) => typeof name === 'string')
+    .map((name: string) => name.trim().toLowerCase().replace(/[_\s-]/g, ''));
+  if (wanted.includes('all')) return [...ALL_LOCKABLE_FIELDS];
+  return ALL_LOCKABLE_FIELDS.filter(field => wanted.includes(field.toLowerCase()));
+}
+
+// Accepts the stored JSON string (or an already parsed array). Missing or invalid means nothing locked.
+export function parseLockedFields(raw: any): LockableField[] {
+  let fields: any = raw;
+  if (typeof raw === 'string') {
+    try {
+      fields = JSON.parse(raw);
+    } catch {
+      fields = null;
+    }
+  }
+  if (!Array.isArray(fields)) return [];
+  return normaliseFieldNames(fields);
+}
+
+// Locks a merchant declared in Shopify through product tags or the locked_fields metafield
+export function getShopifyLockedFields(tags: any, metafieldValue?: string | null): LockableField[] {
+  const tagFields = (Array.isArray(tags) ? tags : [])
+    .filter((tag: any) => typeof tag === 'string' && tag.toLowerCase().startsWith(LOCK_TAG_PREFIX))
+    .map((tag: string) => tag.slice(LOCK_TAG_PREFIX.length));
+
+  let metafieldFields: any[] = [];
+  if (metafieldValue) {
+    try {
+      const parsed = JSON.parse(metafieldValue);
+      metafieldFields = Array.isArray(parsed) ? parsed : [String(parsed)];
+    } catch {
+      metafieldFields = metafieldValue.split(',');
+    }
+  }
+
+  return normaliseFieldNames([...tagFields, ...metafieldFields]);
+}
+
+export function mergeLockedFields(...lists: LockableField[][]): LockableField[] {
+  return ALL_LOCKABLE_FIELDS.filter(field => lists.some(list => list.includes(field)));
+}
+
+// Removes locked keys from a productUpdate / productVariantsBulkUpdate input (the id is always kept)
+export function omitLockedProductFields(productInput: any, lockedFields: LockableField[]) {
+  return omitKeys(productInput, lockedFields.map(field => PRODUCT_INPUT_KEYS[field]));
+}
+
+export function omitLockedVariantFields(variantInput: any, lockedFields: LockableField[]) {
+  return omitKeys(variantInput, lockedFields.map(field => VARIANT_INPUT_KEYS[field]));
+}
+
+function omitKeys(input: any, keys: Array<string | undefined>) {
+  const result = { ...input };
+  for (const key of keys) {
+    if (key) delete result[key];
+  }
+  return result;
+}
+
+// Supplier tags replace the product's tags on update; carry the merchant's sync-lock tags over
+// so a tag update never silently removes a lock
+export function keepLockTags(newTags: any, currentTags: any): any {
+  const lockTags = (Array.isArray(currentTags) ? currentTags : [])
+    .filter((tag: any) => typeof tag === 'string' && tag.toLowerCase().startsWith(LOCK_TAG_PREFIX));
+  if (lockTags.length === 0) return newTags;
+  const tags = Array.isArray(newTags)
+    ? newTags
+    : String(newTags || '').split(',').map(tag => tag.trim()).filter(Boolean);
+  return [...new Set([...tags, ...lockTags])];
+}
@@ -8,6 +8,13 @@
   }
 `;
 
+// The shop's timezone, which sync schedule times are in
+export const Q_SHOP_TIMEZONE = /* GraphQL */ `
+  query ShopTimezone {
+    shop { ianaTimezone }
+  }
+`;
+
 export const Q_PRODUCT_BY_SKU = /* GraphQL */ `
   query ProductBySku($sku: String!) {
     products(first: 1, query: $sku) {
@@ -114,3 +121,184 @@ export function pickVariantIds(data: any): { variantId?: string; inventoryItemId
     productId: productId,  // Add productId here
   };
 }
+
+// Batch form of M_SET_ON_HAND - up to 250 inventory item / location pairs per call
+export const M_SET_ON_HAND_QUANTITIES = /* GraphQL */ `
+  mutation inventorySetOnHandQuantities($input: InventorySetOnHandQuantitiesInput!) {
+    inventorySetOnHandQuantities(input: $input) {
+      userErrors {
+        field
+        message
+      }
+    }
+  }
+`;
+
+export const M_INVENTORY_ACTIVATE = /* GraphQL */ `
+  mutation inventoryActivate($inventoryItemId: ID!, $locationId: ID!) {
+    inventoryActivate(inventoryItemId: $inventoryItemId, locationId: $locationId) {
+      inventoryLevel { id }
+      userErrors {
+        field
+        message
+      }
+    }
+  }
+`;
+
+// Bulk operations: upload a JSONL file of variables, then run one mutation per line on Shopify's side
+export const M_STAGED_UPLOADS_CREATE = /* GraphQL */ `
+  mutation stagedUploadsCreate($input: [StagedUploadInput!]!) {
+    stagedUploadsCreate(input: $input) {
+      stagedTargets {
+        url
+        resourceUrl
+        parameters { name value }
+      }
+      userErrors {
+        field
+        message
+      }
+    }
+  }
+`;
+
+export const M_BULK_OPERATION_RUN_MUTATION = /* GraphQL */ `
+  mutation bulkOperationRunMutation($mutation: String!, $stagedUploadPath: String!) {
+    bulkOperationRunMutation(mutation: $mutation, stagedUploadPath: $stagedUploadPath) {
+      bulkOperation { id status }
+      userErrors {
+        field
+        message
+      }
+    }
+  }
+`;
+
+export const Q_BULK_OPERATION = /* GraphQL */ `
+  query bulkOperation($id: ID!) {
+    node(id: $id) {
+      ... on BulkOperation {
+        id
+        status
+        errorCode
+        objectCount
+        url
+        partialDataUrl
+        completedAt
+      }
+    }
+  }
+`;
+
+// Per-line mutations run by bulkOperationRunMutation. The selection is what the result file
+// carries back, so it includes everything needed to write ImportedProduct rows.
+export const BULK_PRODUCT_SET = /* GraphQL */ `
+  mutation call($input: ProductSetInput!) {
+    productSet(input: $input) {
+      product {
+        id
+        updatedAt
+        title
+        descriptionHtml
+        vendor
+        productType
+        tags
+        status
+        variants(first: 1) {
+          edges { node { price compareAtPrice sku barcode } }
+        }
+      }
+      userErrors {
+        field
+        message
+      }
+    }
+  }
+`;
+
+export const BULK_PUBLISHABLE_PUBLISH = /* GraphQL */ `
+  mutation call($id: ID!, $input: [PublicationInput!]!) {
+    publishablePublish(id: $id, input: $input) {
+      userErrors {
+        field
+        message
+      }
+    }
+  }
+`;
+
+export const M_BULK_OPERATION_CANCEL = /* GraphQL */ `
+  mutation bulkOperationCancel($id: ID!) {
+    bulkOperationCancel(id: $id) {
+      bulkOperation { id status }
+      userErrors {
+        field
+        message
+      }
+    }
+  }
+`;
+
+// Import rollback: delete products an import created, put back the values of ones it updated
+export const M_PRODUCT_DELETE = /* GraphQL */ `
+  mutation productDelete($input: ProductDeleteInput!) {
+    productDelete(input: $input) {
+      deletedProductId
+      userErrors {
+        field
+        message
+      }
+    }
+  }
+`;
+
+export const M_PRODUCT_RESTORE = /* GraphQL */ `
+  mutation productUpdate($input: ProductInput!) {
+    productUpdate(input: $input) {
+      product { id }
+      userErrors {
+        field
+        message
+      }
+    }
+  }
+`;
+
+export const M_VARIANT_RESTORE = /* GraphQL */ `
+  mutation productVariantsBulkUpdate($productId: ID!, $variants: [ProductVariantsBulkInput!]!) {
+    productVariantsBulkUpdate(productId: $productId, variants: $variants) {
+      productVariants { id }
+      userErrors {
+        field
+        message
+      }
+    }
+  }
+`;
+
+// Before-snapshots for a bulk import: the products it is about to update and the variant it
+// changes on each, up to 250 ids per call
+export const Q_IMPORT_BEFORE_SNAPSHOTS = /* GraphQL */ `
+  query importBeforeSnapshots($ids: [ID!]!) {
+    nodes(ids: $ids) {
+      __typename
+      ... on Product {
+        id
+        title
+        descriptionHtml
+        vendor
+        productType
+        tags
+        status
+      }
+      ... on ProductVariant {
+        id
+        price
+        compareAtPrice
+        sku
+        barcode
+      }
+    }
+  }
+`;
@@ -0,0 +1,520 @@
+// The import wizard's product pipeline: import filters, key mappings and markup conditions applied
+// to raw supplier items. Used by the bulk import in app.api.shopify and by the scheduled sync, which
+// replays a connection's saved job definition (see jobDefinition.server.ts) through the same functions.
+
+export function limitTagsArray(tags: string[], maxLength: number = 250): string[] {
+  if (!tags || tags.length <= maxLength) {
+    return tags || [];
+  }
+  
+  console.log(`⚠️ Tags array too large (${tags.length}), limiting to ${maxLength} items`);
+  return tags.slice(0, maxLength);
+}
+
+// Keeps the supplier items that match the wizard's import filters ("attribute::value" tokens)
+export function filterSupplierItems(items: any[], importFilters: any): any[] {
+  // Apply filters
+  let filteredItems = items;
+  
+  // Check if user selected "All Products" (no specific filters)
+  const hasSpecificFilters = importFilters?.selectedValues?.length > 0;
+  const isAllProductsSelected = !hasSpecificFilters || importFilters.selectedValues.length === 0;
+  
+  // Only treat as "All Products" if no filters are selected
+  const isAllProductsMode = isAllProductsSelected;
+  
+  console.log('=== FILTER ANALYSIS ===');
+  console.log('importFilters:', importFilters);
+  console.log('importFilters.selectedValues:', importFilters?.selectedValues);
+  console.log('hasSpecificFilters:', hasSpecificFilters);
+  console.log('isAllProductsSelected:', isAllProductsSelected);
+  console.log('isAllProductsMode:', isAllProductsMode);
+  console.log('=== END FILTER ANALYSIS ===');
+  
+  if (isAllProductsMode) {
+    console.log('=== ALL PRODUCTS MODE ===');
+    console.log('All products mode detected, keeping all API products');
+    console.log(`Total API products: ${items.length}`);
+    filteredItems = items; // Keep all products
+  } else if (importFilters?.selectedValues?.length) {
+    console.log('=== API FILTERING DEBUG ===');
+    console.log('Import filters received:', JSON.stringify(importFilters, null, 2));
+    console.log('Selected values:', importFilters.selectedValues);
+    console.log('Total API items before filtering:', items.length);
+    
+    filteredItems = items.filter((item: any) => {
+      console.log(`Checking API item: ${item.name || 'Unknown'}`);
+      
+      // If no filters, keep all items
+      if (importFilters.selectedValues.length === 0) {
+        console.log(`✅ No filters, keeping API item: ${item.name || 'Unknown'}`);
+        return true;
+      }
+      
+      // Group filters by attribute key
+      const filtersByAttribute: Record<string, string[]> = {};
+      for (const token of importFilters.selectedValues) {
+        const [key, value] = token.split('::');
+        if (key && value) {
+          if (!filtersByAttribute[key]) {
+            filtersByAttribute[key] = [];
+          }
+          filtersByAttribute[key].push(value);
+        }
+      }
+      
+      // Check if ANY selected value matches (exact match only)
+      for (const token of importFilters.selectedValues) {
+        const [key, value] = token.split('::');
+        if (!key || !value) continue;
+        
+        const itemValue = String(item[key] || '').trim();
+        const filterValue = String(value).trim();
+        
+        console.log(`Checking API item ${key}: "${itemValue}" vs "${filterValue}"`);
+        
+        // Exact match with tolerance for decimal differences (case-insensitive)
+        if (itemValue.toLowerCase() === filterValue.toLowerCase()) {
+          console.log(`✅ Exact match found for ${key}: "${itemValue}"`);
+          return true; // Found a match, include this item
+        }
+        
+        // Handle decimal tolerance for price fields
+        if (key === 'price' || key.toLowerCase().includes('price')) {
+          const itemPrice = parseFloat(itemValue);
+          const filterPrice = parseFloat(filterValue);
+          
+          if (!isNaN(itemPrice) && !isNaN(filterPrice)) {
+            // Allow tolerance of ±0.01 for price matching
+            const tolerance = 0.01;
+            if (Math.abs(itemPrice - filterPrice) <= tolerance) {
+              console.log(`✅ Price match with tolerance: "${itemValue}" ≈ "${filterValue}" (tolerance: ±${tolerance})`);
+              return true; // Found a match, include this item
+            }
+          }
+        }
+      }
+      
+      console.log(`❌ No matches found for API item: ${item.name || 'Unknown'}`);
+      return false;
+    });
+    
+    console.log(`After API filtering: ${filteredItems.length} items remaining`);
+    console.log('Filtered API items:', filteredItems.map((item: any) => item.name || 'Unknown'));
+    console.log('=== END API FILTERING DEBUG ===');
+  } else {
+    console.log('No API filters applied, keeping all items');
+  }
+
+  return filteredItems;
+}
+
+// Applies the key mappings and converts supplier items to the Shopify product shape used by the import
+export function transformSupplierItems(filteredItems: any[], keyMappings: any): any[] {
+  // Transform using key mappings and convert to Shopify format
+  const transformedProducts = filteredItems.map((item: any) => {
+    console.log('=== TRANSFORMING API ITEM ===');
+    console.log('Original item:', JSON.stringify(item, null, 2));
+    console.log('Key mappings:', JSON.stringify(keyMappings, null, 2));
+    
+    const product: any = {};
+    
+    // Apply key mappings
+    for (const [sourceKey, targetKey] of Object.entries(keyMappings || {})) {
+      console.log(`Mapping ${sourceKey} -> ${targetKey}: ${item[sourceKey as string]}`);
+      if (item[sourceKey as string] !== undefined) {
+        product[targetKey as string] = item[sourceKey as string];
+      } else {
+        console.log(`❌ Source key "${sourceKey}" not found in item`);
+      }
+    }
+    
+    console.log('Mapped product:', JSON.stringify(product, null, 2));
+    
+    // Convert to Shopify format (same as CSV)
+    const shopifyProduct: any = {
+      title: product.title || item.name || item.title || 'Imported Product',
+      descriptionHtml: product.bodyHtml || product.descriptionHtml || item.description || '',
+      vendor: product.vendor || item.vendor || '',
+      productType: product.productType || item.type || '',
+      tags: product.tags ? [product.tags] : [],
+      status: 'DRAFT', // Will be set later
+      variants: [{
+        price: product.price || item.price || '0.00',
+        compareAtPrice: product.compareAtPrice || item.compareAtPrice || '',
+        sku: product.sku || item.sku || '',
+        barcode: product.barcode || item.barcode || '',
+        image_url: product.image_url || item.image_url || item.image || item.mediaSrc || ''
+      }]
+    };
+    
+           // Use the original tags from API data, don't override with filter values
+     // The tags should come from the API data itself, not from selected filters
+     console.log(`✅ Using original API tags: ${shopifyProduct.tags.join(', ')}`);
+    
+           // Ensure tags array exists for markup conditions
+     if (!shopifyProduct.tags || shopifyProduct.tags.length === 0) {
+       shopifyProduct.tags = ['default']; // Only add default tag
+       console.log('Added default tag to product for markup conditions:', shopifyProduct.tags);
+     }
+    
+    // Limit tags array to prevent Shopify API errors
+    shopifyProduct.tags = limitTagsArray(shopifyProduct.tags, 250);
+    
+    console.log(`✅ Transformed API product: ${shopifyProduct.title} - Price: ${shopifyProduct.variants[0].price} - Tags: ${shopifyProduct.tags?.join(', ') || 'none'}`);
+    console.log('=== END TRANSFORMING API ITEM ===');
+    return shopifyProduct;
+  });
+
+  return transformedProducts;
+}
+
+export function mapSupplierItems(items: any[], importFilters: any, keyMappings: any): any[] {
+  return transformSupplierItems(filterSupplierItems(items, importFilters), keyMappings);
+}
+
+function checkCondition(product: any, condition: any) {
+  console.log('🔍 checkCondition called with:', {
+    product: product.title || product.name || 'Unknown',
+    condition: JSON.stringify(condition, null, 2)
+  });
+  
+  const field = condition.field || condition.attribute; // Use field first, fallback to attribute for backward compatibility
+  const operator = condition.operator;
+  const value = condition.value;
+  
+  console.log('🔍 Condition details:', { field, operator, value });
+  
+  let productValue = product[field];
+  
+  console.log('🔍 Initial productValue:', productValue);
+  
+  // Handle nested fields like variants[0].price
+  if (field && field.includes('.')) {
+    const parts = field.split('.');
+    productValue = product;
+    for (const part of parts) {
+      productValue = productValue?.[part];
+      console.log(`🔍 Nested field ${part}:`, productValue);
+    }
+  }
+  
+  // Special handling for price field - check multiple locations
+  if (field === 'price' || field === 'Variant Price') {
+    console.log('🔍 Price field detected, checking multiple locations');
+    if (product.variants && product.variants.length > 0 && product.variants[0].price) {
+      productValue = product.variants[0].price;
+      console.log('🔍 Found price in variants[0].price:', productValue);
+    } else if (product.price) {
+      productValue = product.price;
+      console.log('🔍 Found price in product.price:', productValue);
+    } else {
+      console.log('🔍 No price found in any location');
+      console.log('🔍 Available product fields:', Object.keys(product));
+      console.log('🔍 Variants structure:', product.variants);
+    }
+  }
+  
+  // Special handling for compareAtPrice field - check multiple locations
+  if (field === 'compareAtPrice' || field === 'Compare At Price') {
+    console.log('🔍 CompareAtPrice field detected, checking multiple locations');
+    if (product.variants && product.variants.length > 0 && product.variants[0].compareAtPrice) {
+      productValue = product.variants[0].compareAtPrice;
+      console.log('🔍 Found compareAtPrice in variants[0].compareAtPrice:', productValue);
+    } else if (product.compareAtPrice) {
+      productValue = product.compareAtPrice;
+      console.log('🔍 Found compareAtPrice in product.compareAtPrice:', productValue);
+    } else {
+      console.log('🔍 No compareAtPrice found in any location');
+      console.log('🔍 Available product fields:', Object.keys(product));
+      console.log('🔍 Variants structure:', product.variants);
+    }
+  }
+  
+  // Special handling for title field
+  if (field === 'Title' || field === 'title') {
+    productValue = product.title;
+    console.log('🔍 Found title:', productValue);
+  }
+  
+  // Special handling for SKU field - check multiple locations
+  if (field === 'SKU' || field === 'sku') {
+    if (product.variants && product.variants.length > 0 && product.variants[0].sku) {
+      productValue = product.variants[0].sku;
+      console.log('🔍 Found SKU in variants[0].sku:', productValue);
+    } else if (product.sku) {
+      productValue = product.sku;
+      console.log('🔍 Found SKU in product.sku:', productValue);
+    } else {
+      console.log('🔍 No SKU found in any location');
+    }
+  }
+  
+  // Special handling for Tags field - check both cases and array format
+  if (field === 'Tags' || field === 'tags' || field === 'tag') {
+    if (Array.isArray(product.tags)) {
+      productValue = product.tags; // Keep as array for proper comparison
+      console.log('🔍 Found tags array:', productValue);
+    } else if (product.tags) {
+      productValue = product.tags;
+      console.log('🔍 Found tags string:', productValue);
+    } else {
+      console.log('🔍 No tags found in product');
+    }
+  }
+  
+  // Special handling for Vendor field
+  if (field === 'Vendor' || field === 'vendor') {
+    productValue = product.vendor;
+    console.log('🔍 Found vendor:', productValue);
+  }
+  
+  // Special handling for Type field
+  if (field === 'Type' || field === 'type') {
+    productValue = product.productType;
+    console.log('🔍 Found product type:', productValue);
+  }
+  
+  if (productValue === undefined || productValue === null) {
+    console.log(`❌ Field ${field} not found in product`);
+    return false;
+  }
+  
+  // Special handling for Tags field comparison
+  if ((field === 'Tags' || field === 'tags' || field === 'tag') && Array.isArray(productValue)) {
+    const conditionValueStr = String(value).trim().toLowerCase();
+    console.log(`🔍 Comparing tags array: [${productValue.join(', ')}] ${operator} "${conditionValueStr}"`);
+    
+    let result = false;
+    
+    switch (operator) {
+      case 'eq':
+      case 'equals':
+        result = productValue.some(tag => String(tag).toLowerCase() === conditionValueStr);
+        break;
+      case 'neq':
+      case 'not_equals':
+        result = !productValue.some(tag => String(tag).toLowerCase() === conditionValueStr);
+        break;
+      case 'starts':
+      case 'starts_with':
+        result = productValue.some(tag => String(tag).toLowerCase().startsWith(conditionValueStr));
+        break;
+      case 'ends':
+      case 'ends_with':
+        result = productValue.some(tag => String(tag).toLowerCase().endsWith(conditionValueStr));
+        break;
+      case 'contains':
+        result = productValue.some(tag => String(tag).toLowerCase().includes(conditionValueStr));
+        break;
+      case 'ncontains':
+      case 'not_contains':
+        result = !productValue.some(tag => String(tag).toLowerCase().includes(conditionValueStr));
+        break;
+      default:
+        console.log(`❌ Unknown operator for tags: ${operator}`);
+        return false;
+    }
+    
+    console.log(`🔍 Tags comparison result: ${result}`);
+    return result;
+  }
+  
+  // Regular string comparison for other fields
+  const productValueStr = String(productValue).trim();
+  const conditionValueStr = String(value).trim();
+  
+  console.log(`🔍 Comparing: "${productValueStr}" ${operator} "${conditionValueStr}"`);
+  
+  let result = false;
+  
+  switch (operator) {
+    case 'eq':
+    case 'equals':
+      result = productValueStr.toLowerCase() === conditionValueStr.toLowerCase();
+      break;
+    case 'neq':
+    case 'not_equals':
+      result = productValueStr.toLowerCase() !== conditionValueStr.toLowerCase();
+      break;
+    case 'starts':
+    case 'starts_with':
+      result = productValueStr.toLowerCase().startsWith(conditionValueStr.toLowerCase());
+      break;
+    case 'ends':
+    case 'ends_with':
+      result = productValueStr.toLowerCase().endsWith(conditionValueStr.toLowerCase());
+      break;
+    case 'contains':
+      result = productValueStr.toLowerCase().includes(conditionValueStr.toLowerCase());
+      break;
+    case 'ncontains':
+    case 'not_contains':
+      result = !productValueStr.toLowerCase().includes(conditionValueStr.toLowerCase());
+      break;
+    case 'between':
+      const [min, max] = conditionValueStr.split('-').map(Number);
+      const numValue = parseFloat(productValueStr);
+      result = numValue >= min && numValue <= max;
+      console.log(`🔍 Between check: ${numValue} >= ${min} && ${numValue} <= ${max} = ${result}`);
+      break;
+    default:
+      console.log(`❌ Unknown operator: ${operator}`);
+      return false;
+  }
+  
+  console.log(`🔍 Comparison result: ${result}`);
+  return result;
+}
+
+export function applyMarkupRules(product: any, markupConfig: any) {
+  console.log('🔧 ===== MARKUP RULES DEBUG =====');
+  console.log('🔧 Product:', {
+    title: product.title,
+    sku: product.variants?.[0]?.sku,
+    price: product.variants?.[0]?.price,
+    tags: product.tags,
+    tagsType: typeof product.tags,
+    tagsLength: Array.isArray(product.tags) ? product.tags.length : 'not array'
+  });
+  console.log('🔧 Markup config received:', JSON.stringify(markupConfig, null, 2));
+  console.log('🔧 Conditions type:', markupConfig?.conditionsType);
+  console.log('🔧 Rules count:', markupConfig?.rules?.length || 0);
+  
+  // Only apply markup if this is a selected product
+  if (!markupConfig || (!markupConfig.rules && !markupConfig.conditions) || 
+      (markupConfig.rules && markupConfig.rules.length === 0) || 
+      (markupConfig.conditions && markupConfig.conditions.length === 0)) {
+    console.log('🔧 No markup config or rules/conditions found, skipping markup');
+    return product;
+  }
+  
+  // Handle both "conditions" and "rules" structure
+  const conditions = markupConfig?.conditions || markupConfig?.rules || [];
+  
+  if (!conditions.length) {
+    console.log('❌ No markup conditions found, returning product as-is');
+    return product;
+  }
+
+  console.log('🔧 Applying markup rules to product:', product.title);
+  console.log('🔧 Markup config:', JSON.stringify(markupConfig, null, 2));
+  console.log('🔧 Conditions to check:', conditions.length);
+  
+  // Check if conditions match based on logic type
+  let conditionsMatch = false;
+  
+  if (markupConfig.conditionsType === 'all') {
+    // AND logic - all conditions must match
+    conditionsMatch = conditions.every((condition: any) => checkCondition(product, condition));
+    console.log('🔧 AND Logic: All conditions must match');
+  } else {
+    // OR logic - any condition can match
+    conditionsMatch = conditions.some((condition: any) => checkCondition(product, condition));
+    console.log('🔧 OR Logic: Any condition can match');
+  }
+
+  console.log('🔧 Conditions match result:', conditionsMatch);
+
+  if (conditionsMatch) {
+    console.log('🔧 Conditions match, applying priority-based markup');
+    
+    // Special logic for overlapping ranges - prioritize specific ranges
+    const currentPrice = parseFloat(product.variants?.[0]?.price || '0');
+    console.log(`🔧 Current price: $${currentPrice}`);
+    
+    // Sort conditions by specificity (more specific ranges first)
+    const sortedConditions = [...conditions].sort((a, b) => {
+      // Handle both "equals" and "between" operators for range values
+      let aOperator = a.operator;
+      let bOperator = b.operator;
+      let aValue = a.value;
+      let bValue = b.value;
+      
+      // Convert "equals" to "between" if value contains "-"
+      if (a.operator === 'equals' && a.value.includes('-')) {
+        aOperator = 'between';
+        aValue = a.value;
+      }
+      if (b.operator === 'equals' && b.value.includes('-')) {
+        bOperator = 'between';
+        bValue = b.value;
+      }
+      
+      // If both are between operators, sort by range size (smaller range = more specific)
+      if (aOperator === 'between' && bOperator === 'between') {
+        const aRange = aValue.split('-').map(Number);
+        const bRange = bValue.split('-').map(Number);
+        const aSize = aRange[1] - aRange[0];
+        const bSize = bRange[1] - bRange[0];
+        console.log(`🔧 Range comparison: "${aValue}" (size: ${aSize}) vs "${bValue}" (size: ${bSize})`);
+        return aSize - bSize; // Smaller range first (more specific)
+      }
+      return 0;
+    });
+    
+    console.log('🔧 Sorted conditions by specificity:', sortedConditions.map(c => `${c.field} ${c.operator} "${c.value}"`));
+    
+    // Find the first matching condition (most specific first)
+    let appliedCondition = null;
+    for (const condition of sortedConditions) {
+      // Handle case where frontend sends "equals" operator for range values
+      let operatorToUse = condition.operator;
+      let valueToUse = condition.value;
+      
+      // If operator is "equals" but value contains "-", treat it as "between"
+      if (condition.operator === 'equals' && condition.value.includes('-')) {
+        operatorToUse = 'between';
+        valueToUse = condition.value;
+        console.log(`🔧 Converting operator from "equals" to "between" for range value: "${condition.value}"`);
+      }
+      
+      const conditionMatches = checkCondition(product, {
+        ...condition,
+        operator: operatorToUse,
+        value: valueToUse
+      });
+      console.log(`🔧 Checking condition: ${condition.field} ${operatorToUse} "${valueToUse}" - Match: ${conditionMatches}`);
+      
+      if (conditionMatches) {
+        appliedCondition = condition;
+        console.log(`🔧 Found matching condition: ${condition.field} ${operatorToUse} "${valueToUse}"`);
+        break; // Use the first (most specific) matching condition
+      }
+    }
+    
+    if (appliedCondition) {
+      const markupType = appliedCondition.markupType;
+      const markupValue = parseFloat(appliedCondition.markupValue || '0');
+      
+      console.log(`🔧 Applying markup: ${markupType} ${markupValue}%`);
+      
+      let resultingPrice = currentPrice;
+      
+      // Calculate resulting price
+      if ((markupType === 'percent' || markupType === 'percentage') && markupValue > 0) {
+        resultingPrice = currentPrice * (1 + markupValue / 100);
+        console.log(`🔧 Price calculation: $${currentPrice} → $${resultingPrice.toFixed(2)} (${markupValue}% markup)`);
+      } else if (markupType === 'fixed' && markupValue > 0) {
+        resultingPrice = currentPrice + markupValue;
+        console.log(`🔧 Price calculation: $${currentPrice} → $${resultingPrice.toFixed(2)} ($${markupValue} fixed markup)`);
+      }
+      
+      // Apply the markup to both price and compareAtPrice
+      product.variants[0].price = resultingPrice.toFixed(2);
+      product.variants[0].compareAtPrice = resultingPrice.toFixed(2);
+      product.markupApplied = true;
+      product.markupType = (markupType === 'percent' || markupType === 'percentage') ? 'percentage' : 'fixed';
+      product.markupValue = markupValue.toString();
+      console.log(`🔧 Final price after markup: $${product.variants[0].price}`);
+      console.log(`🔧 Final compareAtPrice after markup: $${product.variants[0].compareAtPrice}`);
+    } else {
+      console.log('🔧 No matching condition found - price unchanged');
+    }
+  } else {
+    console.log('🔧 Conditions do not match, no markup applied');
+  }
+
+  console.log('🔧 ===== END MARKUP RULES DEBUG =====');
+  return product;
+}
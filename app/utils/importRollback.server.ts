@@ -0,0 +1,298 @@
+import prisma from "../db.server";
+import { adminGraphql } from "./adminGraphql.server";
+import { M_PRODUCT_DELETE, M_PRODUCT_RESTORE, M_VARIANT_RESTORE } from "./graphql.server";
+import { refreshShopifyBaseline } from "./shopifyConflicts.server";
+
+// Undoes an import session: products it created are deleted from Shopify, products it updated get
+// their pre-import values back from the before-snapshots the import stored on its ImportItem
+// checkpoints. The preview (planImportRollback) and the rollback itself use the same plan; the
+// rollback runs as a 'rollback' job and leaves its report on ImportSession.rollbackReport.
+
+// Sessions in these states are finished (or stopped) and can be rolled back
+export const ROLLBACK_ALLOWED_STATUSES = ['completed', 'cancelled', 'failed', 'interrupted', 'paused', 'rollback_failed'];
+
+// What updateShopifyProduct saw on the product right before an import changed it
+export interface ImportBeforeSnapshot {
+  productId: string;
+  product: {
+    title: string;
+    descriptionHtml: string;
+    vendor: string;
+    productType: string;
+    tags: string[];
+    status: string;
+  };
+  variant: {
+    id: string;
+    price: string | null;
+    compareAtPrice: string | null;
+    sku: string | null;
+    barcode: string | null;
+  } | null;
+}
+
+export interface RollbackPlanEntry {
+  shopifyProductId: string;
+  title: string;
+  sku: string | null;
+  action: 'delete' | 'restore' | 'skip';
+  reason?: string;
+  beforeSnapshot?: ImportBeforeSnapshot;
+}
+
+export interface RollbackReportEntry {
+  shopifyProductId: string;
+  title: string;
+  sku: string | null;
+  result: 'deleted' | 'restored' | 'skipped' | 'failed';
+  message?: string;
+}
+
+export interface RollbackReport {
+  startedAt: string;
+  finishedAt: string | null;
+  deleted: number;
+  restored: number;
+  skipped: number;
+  failed: number;
+  entries: RollbackReportEntry[];
+}
+
+function parseSnapshot(raw: string | null): ImportBeforeSnapshot | undefined {
+  if (!raw) return undefined;
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return undefined;
+  }
+}
+
+// Decides what rolling the session back does to each product it touched
+export async function planImportRollback(shop: string, importSessionId: string) {
+  const importSession = await prisma.importSession.findFirst({
+    where: { id: importSessionId, shop }
+  });
+  if (!importSession) {
+    throw new Error('Import session not found');
+  }
+
+  const rows = await prisma.importedProduct.findMany({
+    where: { shop, importSessionId, shopifyProductId: { not: null } },
+    select: { shopifyProductId: true, title: true, sku: true, createdAt: true }
+  });
+  const rowsByProduct = new Map(rows.map(row => [row.shopifyProductId as string, row]));
+
+  // The first time the session touched a product decides what happened to it
+  const entries = new Map<string, RollbackPlanEntry>();
+  let warning: string | null = null;
+  const items = await prisma.importItem.findMany({
+    where: { importSessionId, shopifyProductId: { not: null } },
+    orderBy: { rowIndex: 'asc' }
+  });
+
+  if (items.length > 0) {
+    // Products an earlier (interrupted) rollback of this session already handled
+    const rolledBack = new Set(items.filter(item => item.outcome === 'rolled_back').map(item => item.shopifyProductId));
+
+    for (const item of items) {
+      const productId = item.shopifyProductId as string;
+      if (entries.has(productId) || rolledBack.has(productId)) continue;
+      const row = rowsByProduct.get(productId);
+      const beforeSnapshot = parseSnapshot(item.beforeSnapshot);
+      const base = { shopifyProductId: productId, title: row?.title || item.rowKey, sku: row?.sku ?? null };
+
+      if (item.outcome === 'created') {
+        entries.set(productId, { ...base, action: 'delete' });
+      } else if (beforeSnapshot) {
+        // Updated (or interrupted while updating): the snapshot has the values from before the import
+        entries.set(productId, { ...base, action: 'restore', beforeSnapshot });
+      } else if (item.outcome === 'pending') {
+        // A pending row with a product id crashed right after productCreate, so the import created it
+        entries.set(productId, { ...base, action: 'delete' });
+      } else if (item.outcome === 'updated') {
+        entries.set(productId, { ...base, action: 'skip', reason: 'No before-snapshot was captured for this update' });
+      }
+    }
+  } else if (rowsByProduct.size > 0) {
+    // Sessions without checkpoints (bulk imports from before they wrote ImportItem rows): a product
+    // this session first brought in is deleted; one that was already imported before can't be
+    // restored without a snapshot, so the preview warns that those keep the import's values
+    const earlierRows = await prisma.importedProduct.findMany({
+      where: {
+        shop,
+        shopifyProductId: { in: [...rowsByProduct.keys()] },
+        importSessionId: { not: importSessionId },
+        createdAt: { lt: importSession.startedAt }
+      },
+      select: { shopifyProductId: true }
+    });
+    const importedBefore = new Set(earlierRows.map(row => row.shopifyProductId));
+
+    for (const [productId, row] of rowsByProduct) {
+      const base = { shopifyProductId: productId, title: row.title, sku: row.sku };
+      if (row.createdAt < importSession.startedAt || importedBefore.has(productId)) {
+        entries.set(productId, { ...base, action: 'skip', reason: 'Updated by this import, but no before-snapshot was captured' });
+        warning = 'This bulk import ran before bulk imports kept before-snapshots. Rolling it back deletes the products it created, but the products it updated keep the imported values.';
+      } else {
+        entries.set(productId, { ...base, action: 'delete' });
+      }
+    }
+  }
+
+  // A later import changed these products again; undoing this one would undo that one as well
+  const laterRows = await prisma.importedProduct.findMany({
+    where: {
+      shop,
+      shopifyProductId: { in: [...entries.keys()] },
+      importSessionId: { not: importSessionId },
+      createdAt: { gt: importSession.completedAt || importSession.updatedAt }
+    },
+    select: { shopifyProductId: true }
+  });
+  for (const row of laterRows) {
+    const entry = entries.get(row.shopifyProductId as string);
+    if (entry && entry.action !== 'skip') {
+      entry.action = 'skip';
+      entry.reason = 'Changed again by a later import - roll that import back first';
+      delete entry.beforeSnapshot;
+    }
+  }
+
+  const plan = [...entries.values()];
+  return {
+    importSession,
+    plan,
+    warning,
+    counts: {
+      delete: plan.filter(entry => entry.action === 'delete').length,
+      restore: plan.filter(entry => entry.action === 'restore').length,
+      skip: plan.filter(entry => entry.action === 'skip').length
+    }
+  };
+}
+
+async function restoreProduct(admin: any, snapshot: ImportBeforeSnapshot) {
+  await adminGraphql(admin, M_PRODUCT_RESTORE, {
+    variables: { input: { id: snapshot.productId, ...snapshot.product } },
+    throwOnUserErrors: true
+  });
+
+  if (snapshot.variant) {
+    await adminGraphql(admin, M_VARIANT_RESTORE, {
+      variables: {
+        productId: snapshot.productId,
+        variants: [{
+          id: snapshot.variant.id,
+          price: snapshot.variant.price,
+          compareAtPrice: snapshot.variant.compareAtPrice,
+          barcode: snapshot.variant.barcode,
+          inventoryItem: { sku: snapshot.variant.sku || '' }
+        }]
+      },
+      throwOnUserErrors: true
+    });
+  }
+}
+
+// Runs the rollback (job type 'rollback'); the session must already be marked rolling_back
+export async function rollbackImportSession(admin: any, shop: string, importSessionId: string) {
+  const report: RollbackReport = {
+    startedAt: new Date().toISOString(),
+    finishedAt: null,
+    deleted: 0,
+    restored: 0,
+    skipped: 0,
+    failed: 0,
+    entries: []
+  };
+
+  try {
+    const { plan } = await planImportRollback(shop, importSessionId);
+    console.log(`↩️ Rolling back import ${importSessionId}: ${plan.length} products`);
+
+    for (let i = 0; i < plan.length; i++) {
+      const entry = plan[i];
+      const reportEntry: RollbackReportEntry = {
+        shopifyProductId: entry.shopifyProductId,
+        title: entry.title,
+        sku: entry.sku,
+        result: 'skipped',
+        message: entry.reason
+      };
+
+      if (i % 25 === 0) {
+        await prisma.importSession.update({
+          where: { id: importSessionId },
+          data: { currentProduct: `Rolling back ${i + 1} of ${plan.length}: ${entry.title}` }
+        });
+      }
+
+      try {
+        if (entry.action === 'delete') {
+          await adminGraphql(admin, M_PRODUCT_DELETE, {
+            variables: { input: { id: entry.shopifyProductId } },
+            throwOnUserErrors: true
+          });
+          // The product is gone, so are all our records of it
+          await prisma.importedProduct.deleteMany({ where: { shop, shopifyProductId: entry.shopifyProductId } });
+          reportEntry.result = 'deleted';
+          report.deleted++;
+        } else if (entry.action === 'restore' && entry.beforeSnapshot) {
+          await restoreProduct(admin, entry.beforeSnapshot);
+          // Drop the rows this session added when earlier rows for the product remain
+          const otherRow = await prisma.importedProduct.findFirst({
+            where: { shop, shopifyProductId: entry.shopifyProductId, importSessionId: { not: importSessionId } },
+            orderBy: { createdAt: 'desc' }
+          });
+          if (otherRow) {
+            await prisma.importedProduct.deleteMany({
+              where: { shop, shopifyProductId: entry.shopifyProductId, importSessionId }
+            });
+            await refreshShopifyBaseline(admin, otherRow.id, entry.shopifyProductId);
+          }
+          reportEntry.result = 'restored';
+          report.restored++;
+        } else {
+          report.skipped++;
+        }
+
+        if (reportEntry.result !== 'skipped') {
+          await prisma.importItem.updateMany({
+            where: { importSessionId, shopifyProductId: entry.shopifyProductId },
+            data: { outcome: 'rolled_back' }
+          });
+        }
+      } catch (error) {
+        console.error(`❌ Rollback failed for ${entry.title}:`, error);
+        reportEntry.result = 'failed';
+        reportEntry.message = error instanceof Error ? error.message : String(error);
+        report.failed++;
+      }
+
+      report.entries.push(reportEntry);
+    }
+
+    report.finishedAt = new Date().toISOString();
+    await prisma.importSession.update({
+      where: { id: importSessionId },
+      data: {
+        status: 'rolled_back',
+        currentProduct: 'Rolled back',
+        rollbackReport: JSON.stringify(report),
+        rolledBackAt: new Date()
+      }
+    });
+    console.log(`✅ Import ${importSessionId} rolled back: ${report.deleted} deleted, ${report.restored} restored, ${report.skipped} skipped, ${report.failed} failed`);
+    return report;
+  } catch (error) {
+    await prisma.importSession.update({
+      where: { id: importSessionId },
+      data: {
+        status: 'rollback_failed',
+        errorMessage: error instanceof Error ? error.message : String(error),
+        rollbackReport: JSON.stringify(report)
+      }
+    });
+    throw error;
+  }
+}
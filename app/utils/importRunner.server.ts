@@ -0,0 +1,1400 @@
+import prisma from "../db.server";
+import { adminGraphql } from "./adminGraphql.server";
+import { fetchAllSupplierItems, parseFeedFormat } from "./supplierApi.server";
+import { parseSupplierAuthType } from "./supplierAuth";
+import { normalizeItemsPath } from "./itemsPath";
+import { applyMarkupRules, mapSupplierItems } from "./importPipeline.server";
+import { saveJobDefinition } from "./jobDefinition.server";
+import { BULK_IMPORT_THRESHOLD, startBulkProductImport } from "./bulkImport.server";
+import { buildChangePlanEntry, findExistingProduct, getShopifyProducts } from "./sync.server";
+import type { ChangePlanEntry } from "./sync.server";
+import { acquireSyncLock, detachSyncLock, formatSyncLockMessage, releaseSyncLock } from "./syncLock.server";
+import type { SyncLockHandle } from "./syncLock.server";
+import type { ImportBeforeSnapshot } from "./importRollback.server";
+import { getShopifySnapshot, toBaselineData } from "./shopifyConflicts.server";
+import { getShopifyLockedFields, keepLockTags, LOCK_METAFIELD_KEY, LOCK_METAFIELD_NAMESPACE, mergeLockedFields, omitLockedProductFields, omitLockedVariantFields, parseLockedFields } from "./fieldLocks";
+
+// Wizard imports (bulkCreateProducts). The route only validates the request, creates the
+// ImportSession and queues an 'import' job; the job worker (jobQueue.server.ts) runs it here,
+// outside any HTTP request, while ImportProcessStep polls the session for progress.
+
+// lockedFields is the ImportedProduct row's lock list; locks set on the Shopify product are added to it.
+// onBeforeUpdate receives the product's values as they were before this update (for rolling the import back)
+// and is awaited before anything is written.
+async function updateShopifyProduct(
+  admin: any,
+  productId: string,
+  productData: any,
+  lockedFields?: string | null,
+  onBeforeUpdate?: (beforeSnapshot: ImportBeforeSnapshot) => Promise<void>
+) {
+  try {
+    console.log(`📝 Updating Shopify product: ${productData.title}`);
+
+    // Step 0: Read the current variants and the merchant's Shopify-side locks (tags / metafield)
+    const getVariantsQuery = `#graphql
+      query getProductVariants($productId: ID!) {
+        product(id: $productId) {
+          title
+          descriptionHtml
+          vendor
+          productType
+          tags
+          status
+          lockMetafield: metafield(namespace: "${LOCK_METAFIELD_NAMESPACE}", key: "${LOCK_METAFIELD_KEY}") { value }
+          variants(first: 10) {
+            edges {
+              node {
+                id
+                sku
+                price
+                compareAtPrice
+                barcode
+              }
+            }
+          }
+        }
+      }
+    `;
+
+    const variantsResult = await adminGraphql(admin, getVariantsQuery, {
+      variables: { productId }
+    });
+    const currentProduct = variantsResult.data?.product;
+    if (!currentProduct) {
+      throw new Error(`Product ${productId} no longer exists in Shopify`);
+    }
+    const existingVariants = currentProduct?.variants?.edges || [];
+    const locked = mergeLockedFields(
+      parseLockedFields(lockedFields),
+      getShopifyLockedFields(currentProduct?.tags, currentProduct?.lockMetafield?.value)
+    );
+    if (locked.length > 0) {
+      console.log(`🔒 Locked fields kept as they are in Shopify: ${locked.join(', ')}`);
+    }
+
+    if (onBeforeUpdate) {
+      const firstVariant = existingVariants[0]?.node;
+      await onBeforeUpdate({
+        productId,
+        product: {
+          title: currentProduct.title,
+          descriptionHtml: currentProduct.descriptionHtml,
+          vendor: currentProduct.vendor,
+          productType: currentProduct.productType,
+          tags: currentProduct.tags || [],
+          status: currentProduct.status
+        },
+        variant: firstVariant ? {
+          id: firstVariant.id,
+          price: firstVariant.price,
+          compareAtPrice: firstVariant.compareAtPrice,
+          sku: firstVariant.sku,
+          barcode: firstVariant.barcode
+        } : null
+      });
+    }
+    
+    // Step 1: Update the product
+    const productMutation = `#graphql
+      mutation productUpdate($input: ProductInput!) {
+        productUpdate(input: $input) {
+          product { 
+            id 
+            title 
+            handle
+            status
+          }
+          userErrors { field message }
+        }
+      }
+    `;
+
+    const productInput = omitLockedProductFields({
+      id: productId,
+      title: productData.title || productData.name || productData.product_name || productData.productName || 'Unknown Product',
+      descriptionHtml: productData.descriptionHtml || productData.description || productData.description_html || productData.productDescription || '',
+      vendor: productData.vendor || productData.brand || productData.manufacturer || '',
+      productType: productData.productType || productData.product_type || productData.category || '',
+      tags: keepLockTags(productData.tags || productData.categories || [], currentProduct?.tags),
+      status: productData.status || 'ACTIVE'
+    }, locked);
+
+    let product: any = { id: productId, title: productData.title };
+    if (Object.keys(productInput).length > 1) {
+      const productResult = await adminGraphql(admin, productMutation, { variables: { input: productInput }, throwOnUserErrors: true, idempotent: true });
+
+      product = productResult.data?.productUpdate?.product;
+      if (!product) {
+        throw new Error('Failed to update product');
+      }
+
+      console.log(`✅ Product updated: ${product.title} (ID: ${product.id})`);
+    }
+
+    // Step 2: Update variants using bulk update mutation
+    console.log(`🔄 Updating variants using bulk update...`);
+
+    if (existingVariants.length > 0) {
+      const existingVariant = existingVariants[0]?.node;
+
+      if (existingVariant) {
+        const bulkUpdateVariantsMutation = `#graphql
+          mutation productVariantsBulkUpdate($productId: ID!, $variants: [ProductVariantsBulkInput!]!) {
+            productVariantsBulkUpdate(productId: $productId, variants: $variants) {
+              product { id }
+              productVariants { 
+                id 
+                sku 
+                price 
+                barcode
+              }
+              userErrors { field message }
+            }
+          }
+        `;
+
+        const toMoneyString = (val: any): string | undefined => {
+          if (val === null || val === undefined) return undefined;
+          const cleaned = String(val).trim();
+          if (cleaned === '') return undefined;
+          const num = parseFloat(cleaned.replace(/[^0-9.\-]/g, ''));
+          if (Number.isNaN(num)) return undefined;
+          return num.toFixed(2);
+        };
+
+        let variantInput: any = {
+          id: existingVariant.id
+        };
+
+        // Update price from product data
+        const priceStr = toMoneyString(productData.price);
+        if (priceStr !== undefined) {
+          variantInput.price = priceStr;
+        }
+
+        // Update SKU from product data
+        if (productData.supplier_sku_code) {
+          variantInput.inventoryItem = {
+            sku: String(productData.supplier_sku_code)
+          };
+        }
+
+        // Update barcode from product data
+        if (productData.barcode) {
+          variantInput.barcode = String(productData.barcode);
+        }
+
+        variantInput = omitLockedVariantFields(variantInput, locked);
+
+        if (Object.keys(variantInput).length > 1) {
+          console.log('Updating variant with data:', JSON.stringify(variantInput, null, 2));
+
+          const variantUpdateResult = await adminGraphql(admin, bulkUpdateVariantsMutation, {
+            variables: { 
+              productId: product.id,
+              variants: [variantInput]
+            },
+            idempotent: true
+          });
+          
+          if (variantUpdateResult.data?.productVariantsBulkUpdate?.userErrors?.length > 0) {
+            console.warn('⚠️ Variant update warnings:', variantUpdateResult.data.productVariantsBulkUpdate.userErrors);
+          } else {
+            console.log(`✅ Updated variant: ${productData.supplier_sku_code || 'No SKU'}`);
+          }
+        }
+      }
+    }
+
+    // Step 3: Images update skipped as requested
+    console.log(`🖼️ Images update skipped for existing product`);
+
+    return product;
+  } catch (error) {
+    console.error(`❌ Error updating Shopify product: ${productData.title}`, error);
+    throw error;
+  }
+}
+
+// Database helper functions
+async function checkProductInDatabase(shop: string, sku: string, title: string) {
+  try {
+    // First try to find by SKU
+    if (sku) {
+      const productBySku = await prisma.importedProduct.findFirst({
+        where: {
+          shop,
+          sku: sku
+        }
+      });
+      if (productBySku) {
+        return productBySku;
+      }
+    }
+
+    // If not found by SKU, try to find by title
+    if (title) {
+      const productByTitle = await prisma.importedProduct.findFirst({
+        where: {
+          shop,
+          title: title
+        }
+      });
+      if (productByTitle) {
+        return productByTitle;
+      }
+    }
+
+    return null;
+  } catch (error) {
+    console.error('Error checking product in database:', error);
+    return null;
+  }
+}
+
+async function publishProductToSalesChannels(admin: any, productId: string) {
+  try {
+    console.log('🔄 Publishing product to sales channels:', productId);
+    
+    // First, get all available publications
+    const getPublicationsQuery = `#graphql
+      query {
+        publications(first: 10) {
+          edges {
+            node {
+              id
+              name
+            }
+          }
+        }
+      }
+    `;
+    
+    const publicationsResult = await adminGraphql(admin, getPublicationsQuery);
+    
+    if (!publicationsResult.data?.publications?.edges) {
+      console.log('❌ No publications found');
+      return;
+    }
+    
+    const publications = publicationsResult.data.publications.edges.map((edge: any) => edge.node);
+    console.log('📋 Available publications:', publications.map((p: any) => ({ name: p.name, id: p.id })));
+    
+    // Publish to all available publications
+    for (const publication of publications) {
+      try {
+        const publishMutation = `#graphql
+          mutation publishablePublish($id: ID!, $input: [PublicationInput!]!) {
+            publishablePublish(id: $id, input: $input) {
+              publishable {
+                ... on Product {
+                  id
+                  title
+                }
+              }
+              userErrors {
+                field
+                message
+              }
+            }
+          }
+        `;
+        
+        const publishResult = await adminGraphql(admin, publishMutation, {
+          variables: {
+            id: productId,
+            input: [
+              {
+                publicationId: publication.id
+              }
+            ]
+          }
+        });
+        
+        if (publishResult.data?.publishablePublish?.publishable) {
+          console.log(`✅ Product published to ${publication.name} successfully`);
+        } else if (publishResult.data?.publishablePublish?.userErrors?.length > 0) {
+          console.log(`⚠️ Failed to publish to ${publication.name}:`, publishResult.data.publishablePublish.userErrors);
+        } else {
+          console.log(`❌ Failed to publish to ${publication.name}`);
+        }
+      } catch (error) {
+        console.log(`❌ Error publishing to ${publication.name}:`, error);
+      }
+    }
+    
+    console.log('✅ Product publishing process completed');
+  } catch (error) {
+    console.log('❌ Error in publishProductToSalesChannels:', error);
+  }
+}
+
+// Supplier products for a wizard import: the uploaded CSV rows or every page of the supplier API,
+// with the wizard's filters and key mappings applied
+export async function loadImportProducts(shop: string, payload: any): Promise<any[]> {
+  // Get products based on data source
+  let productsToProcess: any[] = [];
+  
+  console.log('🔄 === IMPORT PROCESSING START ===');
+  console.log('📊 Data source:', payload.dataSource);
+  console.log('📊 Total products expected:', payload.totalProducts);
+  console.log('Payload received:', {
+    dataSource: payload.dataSource,
+    hasCsvData: !!payload.csvData,
+    hasApiCredentials: !!payload.apiCredentials,
+    importFilters: payload.importFilters,
+    keyMappings: payload.keyMappings
+  });
+  
+  console.log('=== FILTER ANALYSIS ===');
+  console.log('Import filters type:', typeof payload.importFilters);
+  console.log('Import filters:', JSON.stringify(payload.importFilters, null, 2));
+  if (payload.importFilters?.selectedValues) {
+    console.log('Selected values count:', payload.importFilters.selectedValues.length);
+    console.log('Selected values:', payload.importFilters.selectedValues);
+  } else {
+    console.log('No selected values found in filters');
+  }
+  console.log('=== END FILTER ANALYSIS ===');
+
+  if (payload.dataSource === 'csv' && payload.csvData) {
+    console.log('Processing CSV data...');
+    productsToProcess = processCsvData(payload.csvData, payload.importFilters, payload.keyMappings);
+  } else if (payload.dataSource === 'api' && payload.apiCredentials) {
+    console.log('Processing API data...');
+    console.log('API Credentials:', {
+      hasUrl: !!payload.apiCredentials.apiUrl,
+      hasToken: !!payload.apiCredentials.accessToken,
+      url: payload.apiCredentials.apiUrl
+    });
+    // Fall back to the saved connection's feed settings when the wizard didn't send them
+    let { paginationConfig, authType, authConfig, requestConfig, itemsPath, feedFormat } = payload.apiCredentials;
+    if ((!paginationConfig || !authType || !requestConfig || !itemsPath || !feedFormat) && payload.apiCredentials.connectionId) {
+      const savedConnection = await prisma.connection.findFirst({
+        where: { id: payload.apiCredentials.connectionId, shop },
+        select: { paginationConfig: true, authType: true, authConfig: true, requestConfig: true, itemsPath: true, feedFormat: true }
+      });
+      paginationConfig = paginationConfig || savedConnection?.paginationConfig;
+      requestConfig = requestConfig || savedConnection?.requestConfig;
+      itemsPath = itemsPath || savedConnection?.itemsPath;
+      feedFormat = feedFormat || savedConnection?.feedFormat;
+      if (!authType) {
+        authType = savedConnection?.authType;
+        authConfig = savedConnection?.authConfig;
+      }
+    }
+    productsToProcess = await fetchApiData({ ...payload.apiCredentials, paginationConfig, authType, authConfig, requestConfig, itemsPath, feedFormat }, payload.importFilters, payload.keyMappings);
+    console.log('API processing result:', {
+      productsCount: productsToProcess.length,
+      firstProduct: productsToProcess[0] || 'No products'
+    });
+  } else {
+    console.log('No valid data source, using fallback...');
+    productsToProcess = [{
+      title: 'Imported Product',
+      status: payload.importConfig === 'published' ? 'ACTIVE' : 'DRAFT',
+      price: '10.00'
+    }];
+    console.log('Using fallback demo product');
+  }
+
+  console.log('=== FINAL SUMMARY ===');
+  console.log('Data Source:', payload.dataSource);
+  console.log('Total Products to Process:', productsToProcess.length);
+  console.log('Import Config:', payload.importConfig);
+  console.log('Markup Config:', payload.markupConfig);
+  console.log('=====================');
+
+  return productsToProcess;
+}
+
+// Source row identity stored with each checkpoint, to recognise the row when the import resumes
+function getRowKey(productData: any): string {
+  return String(productData?.variants?.[0]?.sku || productData?.title || '');
+}
+
+// Records how far a row got (ImportItem): pending while it is being processed, then created,
+// updated or failed. shopifyProductId is saved as soon as the product exists in Shopify.
+async function saveCheckpoint(
+  importSessionId: string,
+  rowIndex: number,
+  rowKey: string,
+  data: { outcome?: string; shopifyProductId?: string | null; error?: string | null; beforeSnapshot?: string | null }
+) {
+  try {
+    await prisma.importItem.upsert({
+      where: { importSessionId_rowIndex: { importSessionId, rowIndex } },
+      create: {
+        importSessionId,
+        rowIndex,
+        rowKey,
+        outcome: data.outcome || 'pending',
+        shopifyProductId: data.shopifyProductId ?? null,
+        error: data.error ?? null
+      },
+      update: { rowKey, ...data }
+    });
+  } catch (error) {
+    console.error(`❌ Failed to save checkpoint for row ${rowIndex}:`, error);
+  }
+}
+
+// Keeps the first before-snapshot of a row; later attempts would capture values this import already changed
+async function saveBeforeSnapshot(importSessionId: string, rowIndex: number, beforeSnapshot: ImportBeforeSnapshot) {
+  await prisma.importItem.updateMany({
+    where: { importSessionId, rowIndex, beforeSnapshot: null },
+    data: { beforeSnapshot: JSON.stringify(beforeSnapshot) }
+  });
+}
+
+// Runs a queued wizard import against its ImportSession; returns the final counts.
+// A resumed session (paused earlier) continues from its processedIndex with its previous counts.
+// The merchant pauses or cancels by changing the session status; the loop notices before the next product.
+export async function runImportJob(admin: any, shop: string, importSessionId: string, payload: any) {
+  let importLock: SyncLockHandle | null = null;
+  try {
+    const started = await prisma.importSession.updateMany({
+      where: { id: importSessionId, status: 'queued' },
+      data: { status: 'running' }
+    });
+    if (started.count === 0) {
+      // Paused or cancelled before the worker got to it
+      console.log(`⏭️ Import ${importSessionId} is no longer queued, skipping`);
+      return { success: true, skipped: true, results: [], sessionId: importSessionId, imported: 0, failed: 0, totalProducts: 0 };
+    }
+
+    let productsToProcess = await loadImportProducts(shop, payload);
+
+    // If no products found, create a demo product for testing
+    if (productsToProcess.length === 0) {
+      console.log('⚠️ No products found! Creating demo product for testing...');
+      productsToProcess = [{
+        title: 'Demo Product - Test Import',
+        descriptionHtml: '<p>This is a demo product created for testing the import process.</p>',
+        vendor: 'Demo Vendor',
+        productType: 'Test',
+        tags: ['demo', 'test'],
+        status: payload.importConfig === 'published' ? 'ACTIVE' : 'DRAFT',
+        variants: [{
+          price: '10.00',
+          compareAtPrice: '12.00',
+          sku: 'DEMO-001',
+          barcode: '123456789'
+        }]
+      }];
+      console.log('✅ Demo product created for testing');
+    }
+
+    // Don't import into a connection that a sync (or another import) is already processing.
+    // The lease carries the session as its run key, so a resumed import reclaims the one its dead run held.
+    if (payload.apiCredentials?.connectionId) {
+      const lockResult = await acquireSyncLock(shop, payload.apiCredentials.connectionId, 'import', {
+        runKey: `import:${importSessionId}`
+      });
+      if (!lockResult.acquired) {
+        throw new Error(formatSyncLockMessage(lockResult.holder, lockResult.since));
+      }
+      importLock = lockResult.lock;
+    }
+
+    const processing = await prisma.importSession.updateMany({
+      where: { id: importSessionId, status: 'running' },
+      data: {
+        status: 'processing',
+        totalProducts: productsToProcess.length,
+        currentProduct: 'Starting import...'
+      }
+    });
+    const importSession = await prisma.importSession.findUniqueOrThrow({ where: { id: importSessionId } });
+    if (processing.count === 0) {
+      console.log(`⏹️ Import ${importSessionId} was ${importSession.status} while loading products`);
+      return { success: true, stopped: importSession.status, results: [], sessionId: importSessionId, imported: 0, failed: 0, totalProducts: productsToProcess.length };
+    }
+
+    // Save connection if not already saved (for API imports)
+    let connectionId = payload.apiCredentials?.connectionId;
+    if (payload.dataSource === 'api' && payload.apiCredentials && !connectionId) {
+      console.log('🔗 Creating connection for API import...');
+      try {
+        const connection = await prisma.connection.create({
+          data: {
+            shop,
+            type: 'api',
+            name: 'API Import Connection',
+            apiUrl: payload.apiCredentials.apiUrl,
+            accessToken: payload.apiCredentials.accessToken,
+            authType: parseSupplierAuthType(payload.apiCredentials.authType),
+            authConfig: payload.apiCredentials.authConfig ? JSON.stringify(payload.apiCredentials.authConfig) : null,
+            requestConfig: payload.apiCredentials.requestConfig ? JSON.stringify(payload.apiCredentials.requestConfig) : null,
+            itemsPath: normalizeItemsPath(payload.apiCredentials.itemsPath) || null,
+            feedFormat: parseFeedFormat(payload.apiCredentials.feedFormat),
+            paginationConfig: payload.apiCredentials.paginationConfig ? JSON.stringify(payload.apiCredentials.paginationConfig) : null,
+            supplierName: 'API Supplier',
+            supplierEmail: 'api@supplier.com',
+            status: 'connected',
+            productCount: 0,
+          },
+        });
+        connectionId = connection.id;
+        console.log('✅ Connection created:', connectionId);
+      } catch (error) {
+        console.error('❌ Failed to create connection:', error);
+      }
+    }
+
+    // Link the session to its connection for the connection's import history
+    if (connectionId && importSession.connectionId !== connectionId) {
+      await prisma.importSession.update({ where: { id: importSession.id }, data: { connectionId } });
+    }
+
+    // Keep the wizard configuration so scheduled syncs of this connection replay it exactly
+    if (payload.dataSource === 'api' && connectionId) {
+      try {
+        await saveJobDefinition(shop, connectionId, {
+          dataSource: payload.dataSource,
+          importType: payload.importType,
+          importConfig: payload.importConfig,
+          keyMappings: payload.keyMappings,
+          importFilters: payload.importFilters,
+          markupConfig: payload.markupConfig
+        }, importSession.id);
+      } catch (error) {
+        console.error('❌ Failed to save job definition:', error);
+      }
+    }
+
+    // Large catalogs go through a Shopify bulk operation instead of several calls per product;
+    // the session is finished by getProgress / the scheduler once the operation completes
+    if (importSession.processedIndex === 0 && (payload.useBulkOperations || productsToProcess.length >= BULK_IMPORT_THRESHOLD)) {
+      console.log(`🚚 Using the bulk operations pipeline for ${productsToProcess.length} products`);
+      const processedProducts = productsToProcess.map(productData => ({
+        ...applyMarkupRules(productData, payload.markupConfig),
+        status: payload.importConfig === 'published' ? 'ACTIVE' : 'DRAFT'
+      }));
+      await startBulkProductImport(admin, {
+        importSessionId: importSession.id,
+        connectionId,
+        shop,
+        products: processedProducts,
+        syncLockToken: importLock?.token
+      });
+      // The session holds the lease from here on and the bulk poller releases it when Shopify is done
+      if (importLock) {
+        detachSyncLock(importLock);
+        importLock = null;
+      }
+
+      return {
+        success: true,
+        bulkOperation: true,
+        sessionId: importSession.id,
+        imported: 0,
+        failed: 0,
+        totalProducts: productsToProcess.length
+      };
+    }
+
+    // Rows checkpointed by an earlier run of this session (pause, crash or watchdog resume).
+    // With checkpoints every row is revisited and finished ones are skipped, so the counters are
+    // rebuilt from what was actually done; sessions without any fall back to processedIndex.
+    const checkpoints = new Map(
+      (await prisma.importItem.findMany({ where: { importSessionId: importSession.id } })).map(item => [item.rowIndex, item])
+    );
+    const startIndex = checkpoints.size > 0 ? 0 : importSession.processedIndex;
+
+    const results: any[] = [];
+    let importedCount = checkpoints.size > 0 ? 0 : importSession.importedProducts;
+    let failedCount = checkpoints.size > 0 ? 0 : importSession.failedProducts;
+    let stoppedStatus: string | null = null;
+
+    if (checkpoints.size > 0 || startIndex > 0) {
+      console.log(`▶️ Resuming import ${importSession.id}: ${checkpoints.size} checkpointed rows, starting at product ${startIndex + 1}/${productsToProcess.length}`);
+    }
+    console.log(`🔄 Starting to process ${productsToProcess.length} products...`);
+    
+            // Process each product with real-time progress tracking
+    for (let i = startIndex; i < productsToProcess.length; i++) {
+      const productData = productsToProcess[i];
+      const rowKey = getRowKey(productData);
+      const checkpoint = checkpoints.get(i);
+
+      // Finished before the restart. A checkpoint for a different key means the source order changed,
+      // so the row is processed again (the import matches existing products by SKU/title anyway).
+      if (checkpoint && checkpoint.rowKey === rowKey && checkpoint.outcome !== 'pending') {
+        if (checkpoint.outcome === 'failed') failedCount++;
+        else importedCount++;
+        continue;
+      }
+      // Crashed after productCreate but before the row was finished: update that product instead of creating another
+      const interruptedProductId = checkpoint && checkpoint.rowKey === rowKey ? checkpoint.shopifyProductId : null;
+        
+        console.log(`🔄 Processing product ${i + 1}/${productsToProcess.length}: ${productData.title}`);
+        
+        // Update progress in session before processing each product. The update only applies while
+        // the session is still processing, so a pause or cancel stops the loop right here.
+        const progressUpdate = await prisma.importSession.updateMany({
+          where: { id: importSession.id, status: 'processing' },
+          data: { 
+            importedProducts: importedCount,
+            failedProducts: failedCount,
+            totalProducts: productsToProcess.length,
+            processedIndex: i
+          }
+        });
+        if (progressUpdate.count === 0) {
+          const current = await prisma.importSession.findUnique({ where: { id: importSession.id }, select: { status: true } });
+          stoppedStatus = current?.status || 'cancelled';
+          await prisma.importSession.update({
+            where: { id: importSession.id },
+            data: { importedProducts: importedCount, failedProducts: failedCount, processedIndex: i }
+          });
+          break;
+        }
+        
+        await saveCheckpoint(importSession.id, i, rowKey, {
+          outcome: 'pending',
+          shopifyProductId: interruptedProductId,
+          error: null,
+          // A retried row keeps the snapshot from its first attempt, which still has the pre-import values
+          ...(!(checkpoint && checkpoint.rowKey === rowKey) && { beforeSnapshot: null })
+        });
+        console.log(`📊 Progress before processing: Imported=${importedCount}, Failed=${failedCount}, Total=${productsToProcess.length}`);
+        
+        try {
+        // Apply markup rules
+        const processedProduct = applyMarkupRules(productData, payload.markupConfig);
+        console.log('After markup application:', {
+          title: processedProduct.title,
+          originalPrice: productData.variants?.[0]?.price,
+          newPrice: processedProduct.variants?.[0]?.price,
+          markupApplied: processedProduct.markupApplied
+        });
+        
+        // Set status based on import config
+        processedProduct.status = payload.importConfig === 'published' ? 'ACTIVE' : 'DRAFT';
+        
+        console.log('🔧 Status setting:', {
+          importConfig: payload.importConfig,
+          finalStatus: processedProduct.status,
+          isPublished: payload.importConfig === 'published',
+          isDraft: payload.importConfig === 'draft'
+        });
+        
+        // Extract image URLs for later use
+        let productImages: any[] = [];
+        if (processedProduct.variants && processedProduct.variants.length > 0) {
+          for (const variant of processedProduct.variants) {
+            const imageUrl = variant.image_url;
+            if (imageUrl && typeof imageUrl === 'string' && imageUrl.trim()) {
+              productImages.push(imageUrl.trim());
+              console.log('Found image URL for product:', imageUrl);
+            }
+          }
+        }
+
+        // Check if product already exists in database
+        const existingProduct = await checkProductInDatabase(
+          shop, 
+          processedProduct.variants?.[0]?.sku || '', 
+          processedProduct.title
+        ) ?? (interruptedProductId ? { shopifyProductId: interruptedProductId, lockedFields: null } : null);
+
+        let productId: string = '';
+        let isUpdate = false;
+        // This import created the product before the crash: finishing it is not an update of a merchant's
+        // product, so there is nothing to snapshot and rolling back must still delete it
+        const isResumedCreate = !!interruptedProductId && existingProduct?.shopifyProductId === interruptedProductId;
+
+        if (existingProduct && existingProduct.shopifyProductId) {
+          // Product exists, update it
+          console.log(`🔄 Product already exists, updating: ${processedProduct.title}`);
+          try {
+            const updatedProduct = await updateShopifyProduct(
+              admin,
+              existingProduct.shopifyProductId,
+              processedProduct,
+              existingProduct.lockedFields,
+              isResumedCreate ? undefined : beforeSnapshot => saveBeforeSnapshot(importSession.id, i, beforeSnapshot)
+            );
+            productId = updatedProduct.id;
+            isUpdate = true;
+            console.log(`✅ Product updated successfully: ${productId}`);
+          } catch (updateError) {
+            console.error(`❌ Failed to update product: ${processedProduct.title}`, updateError);
+            // If update fails, try to create new product
+            console.log(`🔄 Update failed, trying to create new product: ${processedProduct.title}`);
+            isUpdate = false;
+          }
+        }
+
+        if (!isUpdate) {
+          // Product doesn't exist or update failed, create new product
+          console.log(`🆕 Creating new product: ${processedProduct.title}`);
+          
+          // Step 1: Create product (without images)
+          const createProductMutation = `#graphql
+            mutation productCreate($input: ProductInput!) {
+              productCreate(input: $input) {
+                product { 
+                  id 
+                  title 
+                  status 
+                  descriptionHtml
+                }
+                userErrors { field message }
+              }
+            }
+          `;
+          
+          const productInput = {
+            title: processedProduct.title,
+            descriptionHtml: processedProduct.descriptionHtml,
+            vendor: processedProduct.vendor,
+            productType: processedProduct.productType,
+            tags: processedProduct.tags,
+            status: processedProduct.status
+          };
+          
+          console.log('Creating product:', productInput.title);
+          const productResult = await adminGraphql(admin, createProductMutation, { variables: { input: productInput } });
+          
+                          if (productResult.data?.productCreate?.product) {
+              productId = productResult.data.productCreate.product.id;
+              console.log('Product created successfully:', productId);
+              await saveCheckpoint(importSession.id, i, rowKey, { shopifyProductId: productId });
+              
+              // Add product options for variants
+
+            
+            // Step 1.5: Add images to product if available
+            if (productImages.length > 0) {
+              const addImagesMutation = `#graphql
+                mutation productCreateMedia($productId: ID!, $media: [CreateMediaInput!]!) {
+                  productCreateMedia(productId: $productId, media: $media) {
+                    media {
+                      id
+                      ... on MediaImage {
+                        id
+                        image {
+                          url
+                        }
+                      }
+                    }
+                    userErrors { field message }
+                  }
+                }
+              `;
+              
+              const mediaInputs = productImages.map(imageUrl => ({
+                originalSource: imageUrl,
+                mediaContentType: "IMAGE"
+              }));
+              
+              console.log('Adding images to product:', productImages.length, 'images');
+              const imagesResult = await adminGraphql(admin, addImagesMutation, {
+                variables: {
+                  productId: productId,
+                  media: mediaInputs
+                }
+              });
+              
+              if (imagesResult.data?.productCreateMedia?.media) {
+                console.log('Images added successfully:', imagesResult.data.productCreateMedia.media.length, 'images');
+              } else if (imagesResult.data?.productCreateMedia?.userErrors) {
+                console.error('Image creation failed:', imagesResult.data.productCreateMedia.userErrors);
+                // Log specific image URL that failed
+                productImages.forEach((imageUrl, index) => {
+                  console.error(`Failed image ${index + 1}:`, imageUrl);
+                });
+              }
+            }
+            
+            // Step 2: Create variants using bulk mutation
+            console.log('🔧 Checking variants for product:', processedProduct.title);
+            console.log('🔧 processedProduct.variants:', JSON.stringify(processedProduct.variants, null, 2));
+            
+            if (processedProduct.variants && processedProduct.variants.length > 0) {
+              const createVariantsMutation = `#graphql
+                mutation productVariantsBulkCreate($productId: ID!, $variants: [ProductVariantsBulkInput!]!) {
+                  productVariantsBulkCreate(productId: $productId, variants: $variants) {
+                    productVariants { id title price }
+                    userErrors { field message }
+                  }
+                }
+              `;
+
+              // Note: Images are added separately, variants will inherit product images
+              
+              const variantInputs = processedProduct.variants.map((variant: any) => {
+                const toMoneyString = (val: any): string => {
+                  if (val === null || val === undefined) return '0.00';
+                  const cleaned = String(val).trim();
+                  if (cleaned === '') return '0.00';
+                  const num = parseFloat(cleaned.replace(/[^0-9.\-]/g, ''));
+                  if (Number.isNaN(num)) return '0.00';
+                  return num.toFixed(2);
+                };
+
+                const variantInput: any = {
+                  inventoryItem: {
+                    sku: variant.sku || variant.supplier_sku_code || ''
+                  },
+                  optionValues: [
+                    {
+                      optionName: "Title",
+                      name: processedProduct.title || "Default"
+                    }
+                  ]
+                };
+
+                // Add price
+                variantInput.price = toMoneyString(variant.price);
+                console.log(`🔧 Variant price: original="${variant.price}" -> processed="${variantInput.price}"`);
+
+                // Add compareAtPrice if available
+                if (variant.compareAtPrice) {
+                  variantInput.compareAtPrice = toMoneyString(variant.compareAtPrice);
+                }
+
+                return variantInput;
+              });
+
+              console.log('Creating variants:', variantInputs.length, 'variants');
+              console.log('Variant inputs:', JSON.stringify(variantInputs, null, 2));
+              
+              const variantsResult = await adminGraphql(admin, createVariantsMutation, {
+                variables: {
+                  productId: productId,
+                  variants: variantInputs
+                }
+              });
+              
+              console.log('Variant creation response:', JSON.stringify(variantsResult, null, 2));
+
+              if (variantsResult.data?.productVariantsBulkCreate?.productVariants) {
+                console.log('Variants created successfully:', variantsResult.data.productVariantsBulkCreate.productVariants.length, 'variants');
+              } else if (variantsResult.data?.productVariantsBulkCreate?.userErrors) {
+                console.error('Variant creation failed:', variantsResult.data.productVariantsBulkCreate.userErrors);
+              } else {
+                console.error('❌ Variant creation failed - no productVariants or userErrors in response');
+              }
+            }
+
+            console.log('Product and variants created successfully');
+            
+            // Publish product to sales channels
+            await publishProductToSalesChannels(admin, productId);
+            
+            // Increment success counter
+            importedCount++;
+            
+            // Update progress in real-time
+            console.log(`✅ Product success: Imported=${importedCount}, Failed=${failedCount}, Total=${productsToProcess.length}`);
+            try {
+              await prisma.importSession.update({
+                where: { id: importSession.id },
+                data: {
+                  importedProducts: importedCount,
+                  failedProducts: failedCount
+                }
+              });
+              console.log(`✅ Session updated successfully: Imported=${importedCount}, Failed=${failedCount}`);
+            } catch (updateError) {
+              console.error('❌ Failed to update session:', updateError);
+            }
+            
+            // Save to database, with the product's Shopify state as the conflict detection baseline
+            const baseline = await getShopifySnapshot(admin, productId).catch(() => null);
+            try {
+              await prisma.importedProduct.create({
+                data: {
+                  shop,
+                  connectionId: connectionId, // Use the connectionId variable
+                  importSessionId: importSession.id,
+                  shopifyProductId: productId,
+                  title: processedProduct.title || '',
+                  bodyHtml: processedProduct.descriptionHtml || '',
+                  vendor: processedProduct.vendor || '',
+                  productType: processedProduct.productType || '',
+                  tags: JSON.stringify(processedProduct.tags || []),
+                  status: processedProduct.status || 'draft',
+                  price: String(processedProduct.variants?.[0]?.price || ''),
+                  compareAtPrice: processedProduct.variants?.[0]?.compareAtPrice || '',
+                  sku: processedProduct.variants?.[0]?.sku || '',
+                  barcode: processedProduct.variants?.[0]?.barcode || '',
+                  weight: processedProduct.variants?.[0]?.weight || 0,
+                  weightUnit: processedProduct.variants?.[0]?.weightUnit || 'kg',
+                  inventoryQuantity: processedProduct.variants?.[0]?.inventoryQuantity || 0,
+                  requiresShipping: processedProduct.variants?.[0]?.requiresShipping !== false,
+                  taxable: processedProduct.variants?.[0]?.taxable !== false,
+                  images: JSON.stringify(processedProduct.images || []),
+                  options: JSON.stringify(processedProduct.options || []),
+                  variants: JSON.stringify(processedProduct.variants || []),
+                  markupApplied: !!processedProduct.markupApplied,
+                  markupType: processedProduct.markupType || '',
+                  markupValue: processedProduct.markupValue || '',
+                  ...toBaselineData(baseline)
+                }
+              });
+            } catch (dbError) {
+              console.error('Failed to save product to database:', dbError);
+            }
+            
+            await saveCheckpoint(importSession.id, i, rowKey, { outcome: 'created', shopifyProductId: productId });
+            results.push({ success: true, product: productResult.data.productCreate.product });
+          } else {
+            console.error('Product creation failed:', productResult.data?.productCreate?.userErrors);
+            failedCount++;
+            await saveCheckpoint(importSession.id, i, rowKey, { outcome: 'failed', error: 'Product creation failed' });
+            results.push({ success: false, product: processedProduct.title, error: 'Product creation failed' });
+          }
+        }
+        
+        // Handle update case
+        if (isUpdate) {
+          // Product was updated successfully
+          console.log(`✅ Product updated successfully: ${productId}`);
+          
+          // Publish product to sales channels
+          await publishProductToSalesChannels(admin, productId);
+          
+          // Increment success counter
+          importedCount++;
+          
+          // Update progress in real-time
+          console.log(`✅ Product updated: Imported=${importedCount}, Failed=${failedCount}, Total=${productsToProcess.length}`);
+          try {
+            await prisma.importSession.update({
+              where: { id: importSession.id },
+              data: {
+                importedProducts: importedCount,
+                failedProducts: failedCount
+              }
+            });
+            console.log(`✅ Session updated successfully: Imported=${importedCount}, Failed=${failedCount}`);
+          } catch (updateError) {
+            console.error('❌ Failed to update session:', updateError);
+          }
+          
+          // Save to database, with the product's Shopify state as the conflict detection baseline
+          const baseline = await getShopifySnapshot(admin, productId).catch(() => null);
+          try {
+            await prisma.importedProduct.create({
+              data: {
+                shop,
+                connectionId: connectionId,
+                importSessionId: importSession.id,
+                shopifyProductId: productId,
+                title: processedProduct.title || '',
+                bodyHtml: processedProduct.descriptionHtml || '',
+                vendor: processedProduct.vendor || '',
+                productType: processedProduct.productType || '',
+                tags: JSON.stringify(processedProduct.tags || []),
+                status: processedProduct.status || 'draft',
+                price: String(processedProduct.variants?.[0]?.price || ''),
+                compareAtPrice: processedProduct.variants?.[0]?.compareAtPrice || '',
+                sku: processedProduct.variants?.[0]?.sku || '',
+                barcode: processedProduct.variants?.[0]?.barcode || '',
+                weight: processedProduct.variants?.[0]?.weight || 0,
+                weightUnit: processedProduct.variants?.[0]?.weightUnit || 'kg',
+                inventoryQuantity: processedProduct.variants?.[0]?.inventoryQuantity || 0,
+                requiresShipping: processedProduct.variants?.[0]?.requiresShipping !== false,
+                taxable: processedProduct.variants?.[0]?.taxable !== false,
+                images: JSON.stringify(processedProduct.images || []),
+                options: JSON.stringify(processedProduct.options || []),
+                variants: JSON.stringify(processedProduct.variants || []),
+                markupApplied: !!processedProduct.markupApplied,
+                markupType: processedProduct.markupType || '',
+                markupValue: processedProduct.markupValue || '',
+                // Keep the merchant's locks on the re-imported row
+                lockedFields: existingProduct?.lockedFields ?? null,
+                ...toBaselineData(baseline)
+              }
+            });
+          } catch (dbError) {
+            console.error('Failed to save product to database:', dbError);
+          }
+          
+          await saveCheckpoint(importSession.id, i, rowKey, { outcome: isResumedCreate ? 'created' : 'updated', shopifyProductId: productId });
+          results.push({ success: true, product: { id: productId, title: processedProduct.title } });
+        }
+      } catch (err: any) {
+        failedCount++;
+        await saveCheckpoint(importSession.id, i, rowKey, { outcome: 'failed', error: err?.message || 'Unknown error' });
+        
+        // Update progress for failed product
+        await prisma.importSession.update({
+          where: { id: importSession.id },
+          data: {
+            importedProducts: importedCount,
+            failedProducts: failedCount
+          }
+        });
+        
+        results.push({ 
+          success: false, 
+          product: productData.title,
+          error: err?.message || 'Unknown error' 
+        });
+        console.log(`❌ Skipped product: ${productData.title} - ${err?.message || 'Unknown error'}`);
+      }
+    }
+
+    if (stoppedStatus) {
+      console.log(`⏸️ Import ${importSession.id} ${stoppedStatus}: Imported=${importedCount}, Failed=${failedCount}, Total=${productsToProcess.length}`);
+      return {
+        success: true,
+        stopped: stoppedStatus,
+        results,
+        sessionId: importSession.id,
+        imported: importedCount,
+        failed: failedCount,
+        totalProducts: productsToProcess.length
+      };
+    }
+
+    // Update import session (unless it was paused or cancelled during the last product)
+    const completed = await prisma.importSession.updateMany({
+      where: { id: importSession.id, status: 'processing' },
+      data: {
+        importedProducts: importedCount,
+        failedProducts: failedCount,
+        processedIndex: productsToProcess.length,
+        status: 'completed',
+        completedAt: new Date()
+      }
+    });
+    if (completed.count === 0) {
+      // Nothing is left to do; keep the counts so a resume finishes straight away
+      await prisma.importSession.update({
+        where: { id: importSession.id },
+        data: { importedProducts: importedCount, failedProducts: failedCount, processedIndex: productsToProcess.length }
+      });
+    }
+
+    console.log('✅ Import completed! Final stats:', {
+      imported: importedCount,
+      failed: failedCount,
+      total: productsToProcess.length,
+      sessionId: importSession.id
+    });
+
+    return {
+      success: true,
+      results,
+      sessionId: importSession.id,
+      imported: importedCount,
+      failed: failedCount,
+      totalProducts: productsToProcess.length
+    };
+  } catch (error) {
+    console.error('❌ Import processing error:', error);
+    await prisma.importSession.update({
+      where: { id: importSessionId },
+      data: {
+        status: 'failed',
+        errorMessage: error instanceof Error ? error.message : 'Import processing failed',
+        completedAt: new Date()
+      }
+    });
+    throw error;
+  } finally {
+    if (importLock) await releaseSyncLock(importLock);
+  }
+}
+
+// Dry-run version of the bulkCreateProducts loop: applies markup and decides create/update
+// exactly like the import does, but only returns the planned changes.
+export async function planBulkImport(admin: any, shop: string, products: any[], payload: any): Promise<ChangePlanEntry[]> {
+  const shopifyIndex = products.length > 0 ? await getShopifyProducts(admin) : null;
+  const plan: ChangePlanEntry[] = [];
+
+  for (const productData of products) {
+    if (!productData || typeof productData !== 'object') {
+      plan.push(buildChangePlanEntry('skip', {}, null, 'Product data is not an object'));
+      continue;
+    }
+
+    const processedProduct = applyMarkupRules(productData, payload.markupConfig);
+    processedProduct.status = payload.importConfig === 'published' ? 'ACTIVE' : 'DRAFT';
+
+    const existingProduct = await checkProductInDatabase(
+      shop,
+      processedProduct.variants?.[0]?.sku || '',
+      processedProduct.title
+    );
+
+    if (existingProduct && existingProduct.shopifyProductId) {
+      plan.push(buildChangePlanEntry('update', processedProduct, existingProduct));
+      continue;
+    }
+
+    // The import only updates products it imported before; flag Shopify products it would duplicate
+    const inShopify = shopifyIndex ? findExistingProduct(processedProduct, shopifyIndex) : null;
+    plan.push(buildChangePlanEntry('create', processedProduct, existingProduct,
+      inShopify ? `A Shopify product with this SKU/title already exists (${inShopify.id}) and will be duplicated` : undefined));
+  }
+
+  return plan;
+}
+
+function processCsvData(csvData: any, importFilters: any, keyMappings: any) {
+  console.log('=== CSV DATA PROCESSING START ===');
+  console.log('csvData:', {
+    hasRows: !!csvData?.rows,
+    rowsLength: csvData?.rows?.length || 0,
+    hasHeaders: !!csvData?.headers,
+    headersLength: csvData?.headers?.length || 0,
+    firstRow: csvData?.rows?.[0] || 'No rows'
+  });
+  
+  if (!csvData?.rows || !Array.isArray(csvData.rows)) {
+    console.log('No CSV rows found, returning empty array');
+    return [];
+  }
+  
+  console.log('Processing CSV data:', {
+    totalRows: csvData.rows.length,
+    filters: importFilters,
+    keyMappings: keyMappings
+  });
+  
+  let filteredRows = csvData.rows;
+  
+  // Simple logic - if any values selected, import those products
+  if (importFilters?.selectedValues?.length > 0) {
+    console.log('=== SELECTED PRODUCTS MODE ===');
+    console.log('Selected values count:', importFilters.selectedValues.length);
+    console.log('Selected values:', importFilters.selectedValues);
+    
+    // Get unique product indices from selected values
+    const selectedIndices = new Set<number>();
+    
+    console.log('🔍 === DETAILED FILTER ANALYSIS ===');
+    console.log('CSV Headers:', csvData.headers);
+    console.log('CSV Rows count:', csvData.rows.length);
+    console.log('First few rows:', csvData.rows.slice(0, 3));
+    
+    // Create a map of selected values for exact matching
+    const selectedValueMap = new Map();
+    for (const token of importFilters.selectedValues) {
+      const [key, value] = token.split('::');
+      if (!key || !value) continue;
+      
+      if (!selectedValueMap.has(key)) {
+        selectedValueMap.set(key, new Set());
+      }
+      selectedValueMap.get(key).add(value.toLowerCase());
+    }
+    
+    console.log('🔍 Selected value map:', Object.fromEntries(
+      Array.from(selectedValueMap.entries()).map(([key, values]) => [key, Array.from(values)])
+    ));
+    
+    // Find rows that match EXACTLY the selected values
+    csvData.rows.forEach((row: any, index: number) => {
+      // Handle case where row might be an array instead of object
+      let processedRow = row;
+      if (Array.isArray(row) && csvData.headers) {
+        // Convert array to object using headers
+        processedRow = {};
+        csvData.headers.forEach((header: string, i: number) => {
+          processedRow[header] = row[i] || '';
+        });
+      } else if (typeof row === 'object' && row !== null) {
+        // Row is already an object
+        processedRow = row;
+      } else {
+        console.error(`❌ Invalid row structure at index ${index}:`, row);
+        return; // Skip this row
+      }
+      
+      // Check if this row matches ANY of the selected values
+      let rowMatches = false;
+      for (const [key, selectedValues] of selectedValueMap) {
+        const rowValue = String(processedRow[key] || '').trim().toLowerCase();
+        if (selectedValues.has(rowValue)) {
+          console.log(`  ✅ Row ${index} matches selected value: ${key}="${rowValue}"`);
+          rowMatches = true;
+          break; // Found a match, no need to check other keys
+        }
+        
+        // Handle decimal tolerance for price fields
+        if (key === 'price' || key.toLowerCase().includes('price')) {
+          const rowPrice = parseFloat(rowValue);
+          if (!isNaN(rowPrice)) {
+            for (const selectedValue of selectedValues) {
+              const filterPrice = parseFloat(selectedValue);
+              if (!isNaN(filterPrice)) {
+                // Allow tolerance of ±0.01 for price matching
+                const tolerance = 0.01;
+                if (Math.abs(rowPrice - filterPrice) <= tolerance) {
+                  console.log(`  ✅ Row ${index} matches price with tolerance: ${key}="${rowValue}" ≈ "${selectedValue}" (tolerance: ±${tolerance})`);
+                  rowMatches = true;
+                  break; // Found a match, no need to check other keys
+                }
+              }
+            }
+          }
+        }
+      }
+      
+      if (rowMatches) {
+        console.log(`  ✅ Adding row ${index} to selected products`);
+        selectedIndices.add(index);
+      }
+    });
+    
+    console.log('🔍 === FILTER RESULTS ===');
+    console.log('Selected indices:', Array.from(selectedIndices));
+    console.log('Selected indices count:', selectedIndices.size);
+    console.log('Expected products:', importFilters.selectedValues.length);
+    console.log('Selected values:', importFilters.selectedValues);
+    console.log('=== END FILTER ANALYSIS ===');
+    
+    // Get selected rows
+    filteredRows = Array.from(selectedIndices).map(index => csvData.rows[index]);
+    
+    console.log(`Selected ${filteredRows.length} products from ${csvData.rows.length} total`);
+    console.log('Selected products:', filteredRows.map((row: any, i: number) => 
+      `${i + 1}. ${row.Title || row.title || row.name || 'No Title'}`
+    ));
+  } else {
+    console.log('=== ALL PRODUCTS MODE ===');
+    console.log('No specific filters, keeping all products');
+  }
+  
+  // Convert filtered rows to product format
+  const products = filteredRows.map((row: any, index: number) => {
+    // Debug logging for row structure
+    console.log(`🔍 Processing row ${index}:`, {
+      rowType: typeof row,
+      isArray: Array.isArray(row),
+      rowKeys: Array.isArray(row) ? 'Array' : Object.keys(row),
+      rowValues: Array.isArray(row) ? row : Object.values(row),
+      sampleValue: Array.isArray(row) ? row[0] : row[Object.keys(row)[0]]
+    });
+    
+    // Ensure row is an object with proper field names
+    let processedRow = row;
+    if (Array.isArray(row) && csvData.headers) {
+      // Convert array to object using headers
+      processedRow = {};
+      csvData.headers.forEach((header: string, i: number) => {
+        processedRow[header] = row[i] || '';
+      });
+      console.log(`🔧 Converted array row to object:`, processedRow);
+    } else if (typeof row === 'object' && row !== null) {
+      // Row is already an object, ensure it has the expected structure
+      processedRow = row;
+      console.log(`🔧 Row is already an object:`, processedRow);
+    } else {
+      console.error(`❌ Invalid row structure:`, row);
+      // Create a fallback object
+      processedRow = {
+        Title: `Product ${index + 1}`,
+        SKU: `SKU-${index + 1}`,
+        Tags: '',
+        price: '10.00'
+      };
+    }
+    
+    // Extract tags properly - handle both string and array formats
+    let tags: string[] = [];
+    
+    // Check multiple possible tag field names
+    const possibleTagFields = ['Tags', 'tags', 'Tag', 'tag', 'Categories', 'categories'];
+    let foundTagField = null;
+    
+    for (const fieldName of possibleTagFields) {
+      if (processedRow[fieldName]) {
+        foundTagField = fieldName;
+        console.log(`🔍 Found tags in field: ${fieldName} = ${processedRow[fieldName]}`);
+        break;
+      }
+    }
+    
+    if (foundTagField) {
+      const tagValue = processedRow[foundTagField];
+      if (typeof tagValue === 'string') {
+        // Split by comma and clean up
+        tags = tagValue.split(',').map((tag: string) => tag.trim()).filter(Boolean);
+        console.log(`🔍 Extracted tags from string: [${tags.join(', ')}]`);
+      } else if (Array.isArray(tagValue)) {
+        // Already an array, clean up
+        tags = tagValue.map((tag: string) => String(tag).trim()).filter(Boolean);
+        console.log(`🔍 Extracted tags from array: [${tags.join(', ')}]`);
+      }
+    } else {
+      console.log(`⚠️ No tags field found. Available fields: ${Object.keys(processedRow).join(', ')}`);
+    }
+    
+    const product = {
+      title: processedRow.Title || processedRow.title || processedRow['Product Title'] || `Product ${index + 1}`,
+      descriptionHtml: processedRow.Description || processedRow.description || '',
+      vendor: processedRow.Vendor || processedRow.vendor || 'Default Vendor',
+      productType: processedRow.Type || processedRow.type || 'Default Type',
+      tags: tags,
+      status: 'DRAFT',
+      variants: [{
+        price: processedRow['Variant Price'] || processedRow.price || processedRow['Buffer Quantity'] || '10.00',
+        compareAtPrice: processedRow['Variant Compare At Price'] || processedRow.compareAtPrice || '',
+        sku: processedRow.SKU || processedRow.sku || `SKU-${index + 1}`,
+        barcode: processedRow['Variant Barcode'] || processedRow.barcode || '',
+        inventoryQuantity: processedRow['Variant Inventory Quantity'] || processedRow.inventoryQuantity || 0,
+        image_url: processedRow['Image URL'] || processedRow.image_url || ''
+      }]
+    };
+    
+         // Use the original tags from CSV, don't override with filter values
+     // The tags should come from the CSV data itself, not from selected filters
+     console.log(`✅ Using original CSV tags: ${product.tags.join(', ')}`);
+    
+    return product;
+  });
+  
+  console.log(`=== CSV PROCESSING COMPLETE ===`);
+  console.log(`Total products created: ${products.length}`);
+  console.log(`First product:`, products[0] || 'No products');
+  
+  return products;
+}
+
+async function fetchApiData(apiCredentials: any, importFilters: any, keyMappings: any) {
+  try {
+    console.log('=== API DATA FETCHING START ===');
+    console.log('API URL:', apiCredentials.apiUrl);
+    console.log('Access Token:', apiCredentials.accessToken ? 'Present' : 'Missing');
+    
+    // Walks every page when the connection has pagination configured
+    const { items, truncated } = await fetchAllSupplierItems(apiCredentials, apiCredentials.paginationConfig);
+    console.log('API returned', items.length, 'items across all pages');
+    if (truncated) {
+      console.warn(`⚠️ Importing a partial feed: ${truncated}`);
+    }
+    
+    console.log('Final items array length:', items.length);
+    if (items.length > 0) {
+      console.log('Sample item:', items[0]);
+      console.log('Available fields in API item:', Object.keys(items[0]));
+      
+      // Show all available product names for debugging
+      console.log('=== ALL AVAILABLE API PRODUCTS ===');
+      items.forEach((item: any, index: number) => {
+        console.log(`${index + 1}. "${item.name || 'No Name'}"`);
+      });
+      console.log('=== END AVAILABLE API PRODUCTS ===');
+    }
+    
+    // Filters, key mappings and the Shopify product shape are shared with the scheduled sync
+    const transformedProducts = mapSupplierItems(items, importFilters, keyMappings);
+    
+    console.log('=== API DATA FETCHING END ===');
+    console.log('Final transformed products:', transformedProducts.length);
+    return transformedProducts;
+  } catch (error) {
+    console.error('Error fetching API data:', error);
+    return [];
+  }
+}
\ No newline at end of file
@@ -0,0 +1,255 @@
+import { adminGraphql, getUserErrors } from "./adminGraphql.server";
+import { M_INVENTORY_ACTIVATE, M_SET_ON_HAND, M_SET_ON_HAND_QUANTITIES, M_VARIANT_POLICY } from "./graphql.server";
+
+// Supplier quantity -> Shopify on-hand inventory for API connections, applied on every sync run.
+// Settings are stored per connection in Connection.inventorySyncConfig (JSON string) and follow the
+// Stock Adjustments CSV flow: a buffer quantity held back from the supplier figure, the locations to
+// set, and whether variants keep selling once they are out of stock.
+
+export type ContinueSellingPolicy = 'CONTINUE' | 'DENY';
+
+export interface InventorySyncConfig {
+  enabled: boolean;
+  quantityField: string;   // dot path to the quantity on each supplier product/variant, e.g. "stock" or "inventory.available"
+  locationIds: string[];   // Location GIDs
+  bufferQuantity: number;
+  continueSelling: ContinueSellingPolicy | null; // null leaves the variant's inventory policy alone
+}
+
+// What we need to know about a Shopify variant to set its inventory
+export interface ShopifyVariantInventory {
+  id: string;
+  sku: string | null;
+  inventoryPolicy: string | null;
+  inventoryItemId: string | null;
+  tracked: boolean;
+  selectedOptions?: Array<{ name: string; value: string }>; // lets the bulk import keep existing variants
+}
+
+// A supplier row that was matched to (or created as) a Shopify product during the run
+export interface InventorySyncTarget {
+  productId: string;
+  productData: any;
+  title: string;
+  sku?: string | null;
+}
+
+export interface InventorySyncFailure {
+  title: string;
+  sku?: string | null;
+  message: string;
+}
+
+const SET_QUANTITIES_BATCH_SIZE = 200;
+const DEFAULT_QUANTITY_FIELDS = ['inventory_quantity', 'inventoryQuantity', 'quantity', 'stock'];
+
+export function toLocationGid(id: string | number) {
+  const idStr = String(id).trim();
+  return idStr.startsWith('gid://shopify/Location/') ? idStr : `gid://shopify/Location/${idStr}`;
+}
+
+// Accepts the stored JSON string (or an already parsed object). Returns null when inventory sync
+// is off or has nowhere to write to.
+export function parseInventorySyncConfig(raw: any): InventorySyncConfig | null {
+  let config: any = raw;
+  if (typeof raw === 'string') {
+    try {
+      config = JSON.parse(raw);
+    } catch {
+      config = null;
+    }
+  }
+
+  if (!config || typeof config !== 'object' || !config.enabled) return null;
+
+  const locationIds = (Array.isArray(config.locationIds) ? config.locationIds : [])
+    .filter((id: any) => id && String(id).trim() !== '')
+    .map(toLocationGid);
+  if (locationIds.length === 0) return null;
+
+  const bufferQuantity = Number(config.bufferQuantity);
+  return {
+    enabled: true,
+    quantityField: typeof config.quantityField === 'string' ? config.quantityField.trim() : '',
+    locationIds,
+    bufferQuantity: bufferQuantity > 0 ? Math.floor(bufferQuantity) : 0,
+    continueSelling: config.continueSelling === 'CONTINUE' || config.continueSelling === 'DENY' ? config.continueSelling : null
+  };
+}
+
+function getByPath(obj: any, path: string): any {
+  return path.split('.').reduce((acc: any, key: string) => (acc == null ? undefined : acc[key]), obj);
+}
+
+// Raw supplier quantity from a product or variant row, or null when the row doesn't carry one
+export function getSupplierQuantity(source: any, quantityField: string): number | null {
+  if (!source || typeof source !== 'object') return null;
+  const fields = quantityField ? [quantityField] : DEFAULT_QUANTITY_FIELDS;
+  for (const field of fields) {
+    const value = getByPath(source, field);
+    if (value === undefined || value === null || String(value).trim() === '') continue;
+    const quantity = Number(value);
+    if (!Number.isNaN(quantity)) return Math.floor(quantity);
+  }
+  return null;
+}
+
+// The on-hand figure we would set for a supplier row: supplier quantity minus the buffer, never negative
+export function getTargetQuantity(source: any, config: InventorySyncConfig): number | null {
+  const quantity = getSupplierQuantity(source, config.quantityField);
+  return quantity === null ? null : Math.max(0, quantity - config.bufferQuantity);
+}
+
+async function fetchProductVariants(admin: any, productId: string): Promise<ShopifyVariantInventory[]> {
+  const query = `#graphql
+    query productVariantInventory($id: ID!) {
+      product(id: $id) {
+        variants(first: 100) {
+          edges {
+            node {
+              id
+              sku
+              inventoryPolicy
+              inventoryItem { id tracked }
+            }
+          }
+        }
+      }
+    }
+  `;
+  const result = await adminGraphql(admin, query, { variables: { id: productId } });
+  return (result.data?.product?.variants?.edges || []).map(({ node }: any) => ({
+    id: node.id,
+    sku: node.sku || null,
+    inventoryPolicy: node.inventoryPolicy || null,
+    inventoryItemId: node.inventoryItem?.id || null,
+    tracked: !!node.inventoryItem?.tracked
+  }));
+}
+
+// Supplier quantity for one Shopify variant: the supplier variant with the same SKU if there is
+// one, otherwise the product-level quantity
+function getVariantQuantity(productData: any, variant: ShopifyVariantInventory, config: InventorySyncConfig) {
+  const supplierVariants = Array.isArray(productData?.variants) ? productData.variants : [];
+  const supplierVariant = variant.sku
+    ? supplierVariants.find((v: any) => v?.sku !== undefined && String(v.sku) === variant.sku)
+    : null;
+  return getTargetQuantity(supplierVariant, config) ?? getTargetQuantity(productData, config);
+}
+
+// Sets one quantity on its own, stocking the item at the location first if Shopify refuses it
+async function setSingleQuantity(admin: any, update: { inventoryItemId: string; locationId: string; quantity: number }) {
+  const first = await adminGraphql(admin, M_SET_ON_HAND, { variables: update, idempotent: true });
+  if (getUserErrors(first).length === 0) return;
+
+  await adminGraphql(admin, M_INVENTORY_ACTIVATE, {
+    variables: { inventoryItemId: update.inventoryItemId, locationId: update.locationId },
+    throwOnUserErrors: true,
+    idempotent: true
+  });
+  await adminGraphql(admin, M_SET_ON_HAND, { variables: update, throwOnUserErrors: true, idempotent: true });
+}
+
+// Pushes supplier quantities for every target product to the configured locations and applies the
+// continue-selling policy. `knownVariants` is the variant data already fetched for the run; products
+// created during the run are looked up individually.
+export async function syncInventoryLevels(
+  admin: any,
+  config: InventorySyncConfig,
+  targets: InventorySyncTarget[],
+  knownVariants: Map<string, ShopifyVariantInventory[]>
+): Promise<{ updated: number; failures: InventorySyncFailure[] }> {
+  const failedTargets = new Map<number, string>();
+  const updatedTargets = new Set<number>();
+  const quantityUpdates: { inventoryItemId: string; locationId: string; quantity: number; target: number }[] = [];
+  const variantUpdatesByProduct = new Map<string, { target: number; variants: any[] }>();
+
+  for (let i = 0; i < targets.length; i++) {
+    const target = targets[i];
+    try {
+      const variants = knownVariants.get(target.productId) || await fetchProductVariants(admin, target.productId);
+
+      for (const variant of variants) {
+        if (!variant.inventoryItemId) continue;
+        const quantity = getVariantQuantity(target.productData, variant, config);
+        if (quantity === null) continue;
+
+        for (const locationId of config.locationIds) {
+          quantityUpdates.push({ inventoryItemId: variant.inventoryItemId, locationId, quantity, target: i });
+        }
+        updatedTargets.add(i);
+
+        // Quantities only stick on tracked items, and the policy is only sent when it differs
+        const variantInput: any = { id: variant.id };
+        if (!variant.tracked) variantInput.inventoryItem = { tracked: true };
+        if (config.continueSelling && variant.inventoryPolicy !== config.continueSelling) {
+          variantInput.inventoryPolicy = config.continueSelling;
+        }
+        if (Object.keys(variantInput).length > 1) {
+          if (!variantUpdatesByProduct.has(target.productId)) {
+            variantUpdatesByProduct.set(target.productId, { target: i, variants: [] });
+          }
+          variantUpdatesByProduct.get(target.productId)!.variants.push(variantInput);
+        }
+      }
+
+      if (!updatedTargets.has(i)) {
+        console.log(`⏩ No supplier quantity in "${config.quantityField || 'default fields'}" for: ${target.title}`);
+      }
+    } catch (error) {
+      failedTargets.set(i, error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  for (const [productId, { target, variants }] of variantUpdatesByProduct) {
+    try {
+      await adminGraphql(admin, M_VARIANT_POLICY, {
+        variables: { productId, variants },
+        throwOnUserErrors: true,
+        idempotent: true
+      });
+    } catch (error) {
+      failedTargets.set(target, `Inventory policy update failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  for (let i = 0; i < quantityUpdates.length; i += SET_QUANTITIES_BATCH_SIZE) {
+    const batch = quantityUpdates.slice(i, i + SET_QUANTITIES_BATCH_SIZE);
+    try {
+      const result = await adminGraphql(admin, M_SET_ON_HAND_QUANTITIES, {
+        variables: {
+          input: {
+            reason: "correction",
+            setQuantities: batch.map(({ inventoryItemId, locationId, quantity }) => ({ inventoryItemId, locationId, quantity }))
+          }
+        },
+        idempotent: true
+      });
+      if (getUserErrors(result).length === 0) {
+        console.log(`✅ Inventory set for batch ${i / SET_QUANTITIES_BATCH_SIZE + 1} (${batch.length} levels)`);
+        continue;
+      }
+    } catch (error) {
+      console.error('❌ Error setting inventory batch, retrying items one by one:', error);
+    }
+
+    // The whole batch is rejected when any item isn't stocked at a location - retry each on its own
+    for (const { target, ...update } of batch) {
+      try {
+        await setSingleQuantity(admin, update);
+      } catch (error) {
+        failedTargets.set(target, `Could not set quantity at ${update.locationId}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+  }
+
+  const failures = [...failedTargets].map(([index, message]) => ({
+    title: targets[index].title,
+    sku: targets[index].sku,
+    message
+  }));
+  const updated = [...updatedTargets].filter(index => !failedTargets.has(index)).length;
+
+  console.log(`📦 Inventory sync: ${updated} products updated across ${config.locationIds.length} locations, ${failures.length} failed`);
+  return { updated, failures };
+}
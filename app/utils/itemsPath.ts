@@ -0,0 +1,66 @@
+// Where the product array sits in a supplier API response. Stored per connection in
+// Connection.itemsPath as a dot path ("data.catalog.products"); JSONPath-style input such as
+// "$.data.catalog.products[*]" is accepted and normalized. No path means the response is
+// searched for the first array (see extractItems in supplierApi.server.ts).
+// Shared by the fetchers and the credentials UI.
+
+export interface ItemsPathCandidate {
+  path: string; // '' is the response body itself
+  count: number;
+}
+
+const MAX_DETECT_DEPTH = 5;
+// Plural JSON keys, and the singular names of repeating XML elements
+const PREFERRED_KEYS = ['products', 'items', 'data', 'results', 'records', 'catalog', 'product', 'item', 'article', 'offer'];
+
+// "$.data['catalog'].products[*]" -> "data.catalog.products"
+export function normalizeItemsPath(raw: any): string {
+  if (typeof raw !== 'string') return '';
+  return raw
+    .trim()
+    .replace(/^\$\.?/, '')
+    .replace(/\[\*\]$/, '')
+    .replace(/\[['"]([^'"\]]+)['"]\]/g, '.$1')
+    .replace(/\[(\d+)\]/g, '.$1')
+    .replace(/^\./, '');
+}
+
+// The array at the path, or null when the path doesn't lead to an array
+export function resolveItemsPath(body: any, itemsPath: string): any[] | null {
+  const path = normalizeItemsPath(itemsPath);
+  const value = path
+    ? path.split('.').reduce((acc: any, key: string) => (acc == null ? undefined : acc[key]), body)
+    : body;
+  return Array.isArray(value) ? value : null;
+}
+
+const isArrayOfObjects = (value: any) =>
+  Array.isArray(value) && value.length > 0 && typeof value[0] === 'object' && value[0] !== null && !Array.isArray(value[0]);
+
+// Every non-empty array of objects in the response, best guess first: the usual product
+// keys ahead of other names, then bigger arrays, then shallower ones
+export function detectItemsPaths(body: any): ItemsPathCandidate[] {
+  const candidates: Array<ItemsPathCandidate & { depth: number; preferred: boolean }> = [];
+
+  const walk = (value: any, path: string[]) => {
+    if (isArrayOfObjects(value)) {
+      const key = path[path.length - 1] || '';
+      candidates.push({
+        path: path.join('.'),
+        count: value.length,
+        depth: path.length,
+        preferred: PREFERRED_KEYS.includes(key.toLowerCase())
+      });
+      return; // arrays inside product objects (variants, images) aren't product lists
+    }
+    if (!value || typeof value !== 'object' || Array.isArray(value) || path.length >= MAX_DETECT_DEPTH) return;
+    for (const key of Object.keys(value)) {
+      walk(value[key], [...path, key]);
+    }
+  };
+  walk(body, []);
+
+  return candidates
+    .sort((a, b) => Number(b.preferred) - Number(a.preferred) || b.count - a.count || a.depth - b.depth)
+    .map(({ path, count }) => ({ path, count }));
+}
@@ -0,0 +1,105 @@
+import prisma from "../db.server";
+
+// Versioned job definitions: the full import wizard configuration (key mappings, import filters,
+// markup conditions, draft/published) saved against a Connection. The bulk import saves a new version
+// whenever the configuration changes; the scheduled sync replays the latest version so it treats
+// products exactly like the original import did.
+
+export interface JobDefinitionConfig {
+  dataSource: string;
+  importType: string;
+  importConfig: string;
+  keyMappings: Record<string, string>;
+  importFilters: any;
+  markupConfig: any;
+}
+
+export interface JobDefinition extends JobDefinitionConfig {
+  id: string;
+  connectionId: string;
+  version: number;
+  createdAt: Date;
+}
+
+const parseJson = (value: string | null, fallback: any) => {
+  if (!value) return fallback;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return fallback;
+  }
+};
+
+function toJobDefinition(row: any): JobDefinition {
+  return {
+    id: row.id,
+    connectionId: row.connectionId,
+    version: row.version,
+    createdAt: row.createdAt,
+    dataSource: row.dataSource,
+    importType: row.importType,
+    importConfig: row.importConfig,
+    keyMappings: parseJson(row.keyMappings, {}),
+    importFilters: parseJson(row.importFilters, {}),
+    markupConfig: parseJson(row.markupConfig, {})
+  };
+}
+
+export async function getLatestJobDefinition(shop: string, connectionId: string): Promise<JobDefinition | null> {
+  const row = await prisma.jobDefinition.findFirst({
+    where: { shop, connectionId },
+    orderBy: { version: 'desc' }
+  });
+  return row ? toJobDefinition(row) : null;
+}
+
+// Saves the wizard configuration as the connection's next version. Re-running an import with the
+// same configuration keeps the current version instead of adding an identical one.
+export async function saveJobDefinition(
+  shop: string,
+  connectionId: string,
+  config: JobDefinitionConfig,
+  importSessionId?: string
+): Promise<JobDefinition> {
+  const data = {
+    dataSource: config.dataSource || 'api',
+    importType: config.importType || 'all',
+    importConfig: config.importConfig || 'draft',
+    keyMappings: JSON.stringify(config.keyMappings || {}),
+    importFilters: JSON.stringify(config.importFilters || {}),
+    markupConfig: JSON.stringify(config.markupConfig || {})
+  };
+
+  const latest = await prisma.jobDefinition.findFirst({
+    where: { shop, connectionId },
+    orderBy: { version: 'desc' }
+  });
+
+  const unchanged = latest && (Object.keys(data) as Array<keyof typeof data>).every(key => latest[key] === data[key]);
+  if (latest && unchanged) {
+    console.log(`📋 Job definition v${latest.version} unchanged for connection ${connectionId}`);
+    return toJobDefinition(latest);
+  }
+
+  const created = await prisma.jobDefinition.create({
+    data: {
+      shop,
+      connectionId,
+      version: (latest?.version || 0) + 1,
+      importSessionId: importSessionId || null,
+      ...data
+    }
+  });
+  console.log(`📋 Saved job definition v${created.version} for connection ${connectionId}`);
+  return toJobDefinition(created);
+}
+
+// Latest version number per connection, for showing in the connection list
+export async function getJobDefinitionVersions(shop: string) {
+  const versions = await prisma.jobDefinition.groupBy({
+    by: ['connectionId'],
+    where: { shop },
+    _max: { version: true }
+  });
+  return new Map(versions.map(v => [v.connectionId, v._max.version]));
+}
@@ -0,0 +1,256 @@
+import { randomUUID } from "crypto";
+import prisma from "../db.server";
+import { unauthenticated } from "../shopify.server";
+import { runImportJob } from "./importRunner.server";
+import { rollbackImportSession } from "./importRollback.server";
+import { syncConnection } from "./sync.server";
+import type { SyncTrigger } from "./sync.server";
+
+// Database-backed job queue for work that must not depend on an HTTP request staying open.
+// Routes and the scheduler enqueue a Job row; a worker loop in the app server process claims
+// queued jobs one at a time, runs them with the shop's offline admin session and refreshes
+// Job.heartbeatAt while they run. Set DISABLE_JOB_WORKER=true to keep a process from picking
+// up jobs (e.g. when a separate instance owns the queue).
+// A watchdog fails jobs whose heartbeat went stale (the process running them died) and puts
+// their import sessions back in the queue, where they resume from their checkpoints.
+
+export type JobType = 'import' | 'sync' | 'rollback';
+
+const POLL_INTERVAL_MS = 2000; // how often an idle worker looks for queued jobs
+const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+const STALE_HEARTBEAT_MS = 5 * 60 * 1000; // no heartbeat for this long = the worker is gone
+const WATCHDOG_INTERVAL_MS = 60 * 1000;
+const MAX_IMPORT_ATTEMPTS = 3; // automatic resumes of an interrupted import before it waits for the merchant
+
+const WORKER_ID = `${process.pid}-${randomUUID().slice(0, 8)}`;
+
+declare global {
+  // eslint-disable-next-line no-var
+  var jobWorkerInterval: NodeJS.Timeout | undefined;
+}
+
+let isWorkerBusy = false;
+let lastWatchdogAt = 0;
+
+export interface ImportJobPayload {
+  importSessionId: string;
+  payload: any; // the wizard's bulkCreateProducts payload
+}
+
+export interface SyncJobPayload {
+  connectionId: string;
+  trigger: SyncTrigger;
+}
+
+export interface RollbackJobPayload {
+  importSessionId: string;
+}
+
+export async function enqueueJob(
+  shop: string,
+  type: JobType,
+  payload: ImportJobPayload | SyncJobPayload | RollbackJobPayload,
+  options: { importSessionId?: string | null; connectionId?: string | null; runAt?: Date; attempts?: number } = {}
+) {
+  const job = await prisma.job.create({
+    data: {
+      shop,
+      type,
+      payload: JSON.stringify(payload),
+      importSessionId: options.importSessionId || null,
+      connectionId: options.connectionId || null,
+      runAt: options.runAt || new Date(),
+      attempts: options.attempts || 0
+    }
+  });
+  console.log(`📥 Queued ${type} job ${job.id} for ${shop}`);
+  return job;
+}
+
+// Claims the oldest due job. Two workers can race for the same row; only one conditional update wins.
+async function claimNextJob() {
+  const candidates = await prisma.job.findMany({
+    where: { status: 'queued', runAt: { lte: new Date() } },
+    orderBy: { createdAt: 'asc' },
+    take: 5
+  });
+
+  for (const candidate of candidates) {
+    const now = new Date();
+    const claimed = await prisma.job.updateMany({
+      where: { id: candidate.id, status: 'queued' },
+      data: {
+        status: 'running',
+        workerId: WORKER_ID,
+        startedAt: now,
+        heartbeatAt: now,
+        attempts: { increment: 1 }
+      }
+    });
+    if (claimed.count > 0) {
+      return { ...candidate, attempts: candidate.attempts + 1 };
+    }
+  }
+  return null;
+}
+
+async function runJobHandler(job: { shop: string; type: string; payload: string }) {
+  const { admin } = await unauthenticated.admin(job.shop);
+  const payload = JSON.parse(job.payload);
+
+  switch (job.type) {
+    case 'import': {
+      const { importSessionId, payload: importPayload } = payload as ImportJobPayload;
+      const result = await runImportJob(admin, job.shop, importSessionId, importPayload);
+      // Per-product results can be huge; the session keeps the counts
+      const { results: _results, ...summary } = result;
+      return summary;
+    }
+
+    case 'sync': {
+      const { connectionId, trigger } = payload as SyncJobPayload;
+      const connection = await prisma.connection.findFirst({
+        where: { id: connectionId, shop: job.shop, isActive: true }
+      });
+      if (!connection) {
+        throw new Error('Connection not found or inactive');
+      }
+      const result = await syncConnection(admin, job.shop, connection, { trigger });
+      if (result.inProgressSince) {
+        // Skip this run rather than piling up behind a long manual sync or import
+        console.log(`⏭️ Sync job skipped for ${connection.name}: ${result.error}`);
+      }
+      const { plan: _plan, ...summary } = result as any;
+      return summary;
+    }
+
+    case 'rollback': {
+      const { importSessionId } = payload as RollbackJobPayload;
+      const report = await rollbackImportSession(admin, job.shop, importSessionId);
+      const { entries: _entries, ...summary } = report;
+      return summary;
+    }
+
+    default:
+      throw new Error(`Unknown job type: ${job.type}`);
+  }
+}
+
+async function runJob(job: NonNullable<Awaited<ReturnType<typeof claimNextJob>>>) {
+  console.log(`⚙️ Running ${job.type} job ${job.id} (attempt ${job.attempts})`);
+
+  const heartbeat = setInterval(async () => {
+    try {
+      await prisma.job.updateMany({
+        where: { id: job.id, workerId: WORKER_ID, status: 'running' },
+        data: { heartbeatAt: new Date() }
+      });
+    } catch (error) {
+      console.error('❌ Failed to record job heartbeat:', error);
+    }
+  }, HEARTBEAT_INTERVAL_MS);
+
+  try {
+    const result = await runJobHandler(job);
+    await prisma.job.update({
+      where: { id: job.id },
+      data: { status: 'completed', result: JSON.stringify(result ?? null), finishedAt: new Date() }
+    });
+    console.log(`✅ ${job.type} job ${job.id} completed`);
+  } catch (error) {
+    console.error(`❌ ${job.type} job ${job.id} failed:`, error);
+    await prisma.job.update({
+      where: { id: job.id },
+      data: { status: 'failed', error: error instanceof Error ? error.message : String(error), finishedAt: new Date() }
+    });
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
+
+// Fails running jobs whose worker stopped sending heartbeats. Their import sessions become
+// 'interrupted' (failed, but resumable) and are queued again until MAX_IMPORT_ATTEMPTS is reached.
+export async function recoverStaleJobs(now: Date = new Date()) {
+  const staleJobs = await prisma.job.findMany({
+    where: { status: 'running', heartbeatAt: { lt: new Date(now.getTime() - STALE_HEARTBEAT_MS) } }
+  });
+
+  for (const job of staleJobs) {
+    // Claim the stale job so two watchdogs don't both requeue it
+    const claimed = await prisma.job.updateMany({
+      where: { id: job.id, status: 'running', heartbeatAt: job.heartbeatAt },
+      data: { status: 'failed', error: 'Worker stopped responding (stale heartbeat)', finishedAt: now }
+    });
+    if (claimed.count === 0) continue;
+    console.log(`🩺 ${job.type} job ${job.id} has a stale heartbeat (last ${job.heartbeatAt?.toISOString()}), marked failed`);
+
+    if (job.type === 'rollback' && job.importSessionId) {
+      // Products already handled are gone from the plan, so a new rollback picks up the rest
+      await prisma.importSession.updateMany({
+        where: { id: job.importSessionId, status: 'rolling_back' },
+        data: { status: 'rollback_failed', errorMessage: 'The rollback stopped unexpectedly; run it again to finish' }
+      });
+      continue;
+    }
+
+    if (job.type !== 'import' || !job.importSessionId) continue;
+
+    const interrupted = await prisma.importSession.updateMany({
+      where: { id: job.importSessionId, status: { in: ['running', 'processing'] } },
+      data: {
+        status: 'interrupted',
+        currentProduct: 'Interrupted',
+        errorMessage: 'The import stopped unexpectedly; it can be resumed from its last checkpoint'
+      }
+    });
+    if (interrupted.count === 0) continue;
+
+    if (job.attempts >= MAX_IMPORT_ATTEMPTS) {
+      console.log(`⚠️ Import ${job.importSessionId} interrupted ${job.attempts} times, waiting for a manual resume`);
+      continue;
+    }
+
+    await prisma.importSession.updateMany({
+      where: { id: job.importSessionId, status: 'interrupted' },
+      data: { status: 'queued', currentProduct: 'Resuming after interruption...' }
+    });
+    await enqueueJob(job.shop, 'import', JSON.parse(job.payload), {
+      importSessionId: job.importSessionId,
+      connectionId: job.connectionId,
+      attempts: job.attempts
+    });
+    console.log(`▶️ Import ${job.importSessionId} requeued after interruption (attempt ${job.attempts + 1})`);
+  }
+}
+
+// Drains the queue, one job at a time
+export async function runQueuedJobs() {
+  let job = await claimNextJob();
+  while (job) {
+    await runJob(job);
+    job = await claimNextJob();
+  }
+}
+
+export function startJobWorker() {
+  if (global.jobWorkerInterval || process.env.DISABLE_JOB_WORKER === 'true') {
+    return;
+  }
+
+  console.log(`⚙️ Starting job worker ${WORKER_ID}...`);
+  global.jobWorkerInterval = setInterval(async () => {
+    if (isWorkerBusy) return;
+    isWorkerBusy = true;
+    try {
+      if (Date.now() - lastWatchdogAt >= WATCHDOG_INTERVAL_MS) {
+        lastWatchdogAt = Date.now();
+        await recoverStaleJobs();
+      }
+      await runQueuedJobs();
+    } catch (error) {
+      console.error('❌ Job worker error:', error);
+    } finally {
+      isWorkerBusy = false;
+    }
+  }, POLL_INTERVAL_MS);
+}
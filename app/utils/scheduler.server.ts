@@ -0,0 +1,212 @@
+import prisma from "../db.server";
+import { pollRunningBulkImports } from "./bulkImport.server";
+import { enqueueJob } from "./jobQueue.server";
+
+// Background scheduler for Connection.scheduleEnabled / scheduleFrequency / scheduleTime.
+// Runs inside the app server process; set DISABLE_SYNC_SCHEDULER=true to turn it off
+// (e.g. when running several app instances and only one should own the schedule).
+
+const TICK_INTERVAL_MS = 60 * 1000; // check for due connections every minute
+
+declare global {
+  // eslint-disable-next-line no-var
+  var syncSchedulerInterval: NodeJS.Timeout | undefined;
+}
+
+let isTickRunning = false;
+
+// Where a schedule's time and calendar live: the shop's timezone and, for monthly schedules,
+// the day of the month it was set up on
+export interface ScheduleCalendar {
+  timeZone?: string | null;
+  dayOfMonth?: number | null;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+// Unknown or missing zones fall back to UTC rather than failing the schedule
+function resolveTimeZone(timeZone?: string | null): string {
+  if (!timeZone) return 'UTC';
+  try {
+    getFormatter(timeZone);
+    return timeZone;
+  } catch {
+    console.warn(`⚠️ Unknown schedule timezone ${timeZone}, using UTC`);
+    return 'UTC';
+  }
+}
+
+function getFormatter(timeZone: string) {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric'
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+// The wall-clock time in `timeZone`, held in the UTC fields of a Date so that calendar steps
+// (next day, next month) don't depend on the server's own timezone
+function toWallClock(date: Date, timeZone: string): Date {
+  const parts: Record<string, number> = {};
+  for (const part of getFormatter(timeZone).formatToParts(date)) {
+    if (part.type !== 'literal') parts[part.type] = Number(part.value);
+  }
+  return new Date(Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second));
+}
+
+// The instant a wall-clock time in `timeZone` happens at (the offset is looked up twice so a
+// time near a DST change lands on the right side of it)
+function fromWallClock(wall: Date, timeZone: string): Date {
+  const offsetAt = (instant: Date) => toWallClock(instant, timeZone).getTime() - instant.getTime();
+  const guess = new Date(wall.getTime() - offsetAt(wall));
+  return new Date(wall.getTime() - offsetAt(guess));
+}
+
+// Same time on `dayOfMonth` of the following month, or its last day when the month is shorter
+function addMonth(wall: Date, dayOfMonth: number): Date {
+  const year = wall.getUTCFullYear();
+  const month = wall.getUTCMonth() + 1;
+  const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  const next = new Date(wall);
+  next.setUTCFullYear(year, month, Math.min(dayOfMonth, lastDay));
+  return next;
+}
+
+// The day of the month a monthly schedule saved now would run on, in the shop's timezone
+export function getScheduleDay(nextSyncAt: Date, timeZone?: string | null): number {
+  return toWallClock(nextSyncAt, resolveTimeZone(timeZone)).getUTCDate();
+}
+
+// Work out the next run strictly after `after`.
+// scheduleTime is "HH:mm" in the shop's timezone (calendar.timeZone); for hourly schedules only the
+// minutes are used. Pass the previous due time as `anchor` so weekly/monthly runs stay on the same
+// weekday/date; monthly runs go back to calendar.dayOfMonth after a shorter month.
+export function computeNextSyncAt(
+  frequency: string | null,
+  time: string | null,
+  after: Date = new Date(),
+  anchor?: Date | null,
+  calendar: ScheduleCalendar = {}
+): Date | null {
+  if (!frequency) return null;
+  const timeZone = resolveTimeZone(calendar.timeZone);
+  const [hours, minutes] = (time || '09:00').split(':').map(Number);
+
+  // Test and hourly schedules step in real time, so a DST change doesn't skip or repeat a run
+  if (frequency === 'test' || frequency === 'hourly') {
+    const stepMs = (frequency === 'test' ? 5 : 60) * 60 * 1000;
+    if (!anchor && frequency === 'test') {
+      return new Date(after.getTime() + stepMs);
+    }
+    let next: Date;
+    if (anchor) {
+      next = new Date(anchor);
+    } else {
+      const wall = toWallClock(after, timeZone);
+      wall.setUTCMinutes(minutes || 0, 0, 0);
+      next = fromWallClock(wall, timeZone);
+    }
+    while (next <= after) {
+      next = new Date(next.getTime() + stepMs);
+    }
+    return next;
+  }
+
+  let wall: Date;
+  if (anchor) {
+    wall = toWallClock(anchor, timeZone);
+  } else {
+    wall = toWallClock(after, timeZone);
+    wall.setUTCHours(hours || 0, minutes || 0, 0, 0);
+  }
+  const dayOfMonth = calendar.dayOfMonth || wall.getUTCDate();
+
+  while (fromWallClock(wall, timeZone) <= after) {
+    if (frequency === 'monthly') {
+      wall = addMonth(wall, dayOfMonth);
+    } else {
+      wall.setUTCDate(wall.getUTCDate() + (frequency === 'weekly' ? 7 : 1));
+    }
+  }
+  return fromWallClock(wall, timeZone);
+}
+
+export async function runDueSyncSchedules(now: Date = new Date()) {
+  const dueConnections = await prisma.connection.findMany({
+    where: {
+      isActive: true,
+      type: 'api',
+      scheduleEnabled: true,
+      OR: [{ nextSyncAt: null }, { nextSyncAt: { lte: now } }]
+    },
+    select: {
+      id: true,
+      shop: true,
+      name: true,
+      scheduleFrequency: true,
+      scheduleTime: true,
+      scheduleTimezone: true,
+      scheduleDay: true,
+      nextSyncAt: true
+    }
+  });
+
+  for (const connection of dueConnections) {
+    const nextSyncAt = computeNextSyncAt(connection.scheduleFrequency, connection.scheduleTime, now, connection.nextSyncAt, {
+      timeZone: connection.scheduleTimezone,
+      dayOfMonth: connection.scheduleDay
+    });
+
+    // Claim the run by moving nextSyncAt forward; if another process already did, skip it
+    const claimed = await prisma.connection.updateMany({
+      where: { id: connection.id, nextSyncAt: connection.nextSyncAt },
+      data: { nextSyncAt }
+    });
+    if (claimed.count === 0) continue;
+
+    // Schedules saved before the scheduler existed have no due time yet - just plan the first run
+    if (!connection.nextSyncAt) {
+      console.log(`🕐 Scheduled first sync for ${connection.name} at ${nextSyncAt?.toISOString()}`);
+      continue;
+    }
+
+    // The job worker runs the sync, so a long run never holds up the tick
+    try {
+      console.log(`🔄 Scheduled sync queued for ${connection.name} (${connection.shop})`);
+      await enqueueJob(connection.shop, 'sync', { connectionId: connection.id, trigger: 'scheduled' }, { connectionId: connection.id });
+    } catch (error) {
+      console.error(`❌ Failed to queue scheduled sync for ${connection.name}:`, error);
+    }
+  }
+}
+
+export function startSyncScheduler() {
+  if (global.syncSchedulerInterval || process.env.DISABLE_SYNC_SCHEDULER === 'true') {
+    return;
+  }
+
+  console.log('🕐 Starting sync scheduler...');
+  global.syncSchedulerInterval = setInterval(async () => {
+    // Polling bulk imports can outlast the tick interval; never run two ticks at once
+    if (isTickRunning) return;
+    isTickRunning = true;
+    try {
+      await runDueSyncSchedules();
+      await pollRunningBulkImports();
+    } catch (error) {
+      console.error('❌ Sync scheduler error:', error);
+    } finally {
+      isTickRunning = false;
+    }
+  }, TICK_INTERVAL_MS);
+}
@@ -0,0 +1,238 @@
+import { createHash } from "crypto";
+import prisma from "../db.server";
+import { adminGraphql } from "./adminGraphql.server";
+import { getShopifyLockedFields, LOCK_METAFIELD_KEY, LOCK_METAFIELD_NAMESPACE, LOCK_TAG_PREFIX, mergeLockedFields, parseLockedFields } from "./fieldLocks";
+import type { LockableField } from "./fieldLocks";
+import type { UpdateFieldGroup } from "./updateScope";
+
+// Detects products edited in Shopify since our last push so a sync doesn't silently overwrite them.
+// After every push we store the product's Shopify updatedAt and a hash per watched field
+// (ImportedProduct.shopifyUpdatedAt / shopifyHash). Before the next update, a newer updatedAt
+// triggers a re-read; fields whose hash changed were edited in Shopify and go through the
+// connection's conflict policy.
+
+export type ConflictPolicy = 'supplier_wins' | 'shopify_wins' | 'review';
+
+export const CONFLICT_POLICIES: ConflictPolicy[] = ['supplier_wins', 'shopify_wins', 'review'];
+
+export function parseConflictPolicy(raw: any): ConflictPolicy {
+  return CONFLICT_POLICIES.includes(raw) ? raw : 'supplier_wins';
+}
+
+// Fields we watch for Shopify-side edits and the update scope group that overwrites each
+const WATCHED_FIELDS: Partial<Record<LockableField, UpdateFieldGroup>> = {
+  title: 'content',
+  description: 'content',
+  vendor: 'content',
+  productType: 'content',
+  sku: 'content',
+  barcode: 'content',
+  tags: 'tags',
+  status: 'status',
+  price: 'price',
+  compareAtPrice: 'price'
+};
+
+export interface ShopifySnapshot {
+  productId: string;
+  updatedAt: string | null;
+  values: Partial<Record<LockableField, any>>;
+  hashes: Partial<Record<LockableField, string>>;
+  lockedFields: LockableField[]; // Shopify-side locks (tags / metafield)
+  lockTags: string[];
+}
+
+const Q_PRODUCT_SNAPSHOT = `#graphql
+  query productSnapshot($id: ID!) {
+    product(id: $id) {
+      id
+      updatedAt
+      title
+      descriptionHtml
+      vendor
+      productType
+      tags
+      status
+      lockMetafield: metafield(namespace: "${LOCK_METAFIELD_NAMESPACE}", key: "${LOCK_METAFIELD_KEY}") { value }
+      variants(first: 1) {
+        edges { node { price compareAtPrice sku barcode } }
+      }
+    }
+  }
+`;
+
+function hashValue(value: any): string {
+  return createHash('sha256').update(JSON.stringify(value ?? null)).digest('hex').slice(0, 16);
+}
+
+// Current Shopify state of the watched fields, or null when the product no longer exists
+export async function getShopifySnapshot(admin: any, productId: string): Promise<ShopifySnapshot | null> {
+  const result = await adminGraphql(admin, Q_PRODUCT_SNAPSHOT, { variables: { id: productId } });
+  const product = result.data?.product;
+  return product ? toShopifySnapshot(product) : null;
+}
+
+// Builds a snapshot from any Product payload with the Q_PRODUCT_SNAPSHOT fields
+// (e.g. the rows of a bulk operation result file)
+export function toShopifySnapshot(product: any): ShopifySnapshot {
+  const variant = product.variants?.edges?.[0]?.node || {};
+  // Sync-lock tags are ours, not merchant content - leave them out so adding a lock is not an "edit"
+  const tags = (product.tags || []).filter((tag: string) => !tag.toLowerCase().startsWith(LOCK_TAG_PREFIX));
+  const values: ShopifySnapshot['values'] = {
+    title: product.title ?? null,
+    description: product.descriptionHtml ?? null,
+    vendor: product.vendor ?? null,
+    productType: product.productType ?? null,
+    tags: [...tags].sort(),
+    status: product.status ?? null,
+    price: variant.price ?? null,
+    compareAtPrice: variant.compareAtPrice ?? null,
+    sku: variant.sku ?? null,
+    barcode: variant.barcode ?? null
+  };
+
+  const hashes: ShopifySnapshot['hashes'] = {};
+  for (const field of Object.keys(values) as LockableField[]) {
+    hashes[field] = hashValue(values[field]);
+  }
+
+  return {
+    productId: product.id,
+    updatedAt: product.updatedAt || null,
+    values,
+    hashes,
+    lockedFields: getShopifyLockedFields(product.tags, product.lockMetafield?.value),
+    lockTags: (product.tags || []).filter((tag: string) => tag.toLowerCase().startsWith(LOCK_TAG_PREFIX))
+  };
+}
+
+// ImportedProduct columns that record a snapshot as the new baseline
+export function toBaselineData(snapshot: ShopifySnapshot | null) {
+  if (!snapshot) return {};
+  return {
+    shopifyUpdatedAt: snapshot.updatedAt ? new Date(snapshot.updatedAt) : null,
+    shopifyHash: JSON.stringify(snapshot.hashes)
+  };
+}
+
+// Re-reads the Shopify product and stores it as the baseline
+export async function refreshShopifyBaseline(admin: any, importedProductId: string, shopifyProductId: string) {
+  const snapshot = await getShopifySnapshot(admin, shopifyProductId);
+  if (!snapshot) return null;
+  await prisma.importedProduct.update({
+    where: { id: importedProductId },
+    data: toBaselineData(snapshot)
+  });
+  return snapshot;
+}
+
+// "Shopify wins": the edited fields become product locks so later syncs keep them as well
+export async function keepShopifyValues(importedProduct: { id: string; lockedFields: string | null }, fields: LockableField[]) {
+  const lockedFields = mergeLockedFields(parseLockedFields(importedProduct.lockedFields), fields);
+  await prisma.importedProduct.update({
+    where: { id: importedProduct.id },
+    data: { lockedFields: JSON.stringify(lockedFields) }
+  });
+  return lockedFields;
+}
+
+// Watched fields an update with this scope would actually write (locked fields are never written)
+export function getOverwrittenFields(updateScope: UpdateFieldGroup[], lockedFields: LockableField[]): LockableField[] {
+  return (Object.keys(WATCHED_FIELDS) as LockableField[]).filter(field =>
+    updateScope.includes(WATCHED_FIELDS[field]!) && !lockedFields.includes(field)
+  );
+}
+
+export interface ShopifyEdit {
+  fields: LockableField[];
+  snapshot: ShopifySnapshot;
+}
+
+// Returns the fields edited in Shopify since the baseline that the coming update would overwrite.
+// `indexedUpdatedAt` comes from the sync's product index: when it isn't newer than the baseline the
+// product wasn't touched and no extra request is made. Products without a baseline are never in conflict.
+export async function detectShopifyEdit(
+  admin: any,
+  importedProduct: { shopifyProductId: string | null; shopifyUpdatedAt: Date | null; shopifyHash: string | null },
+  indexedUpdatedAt: string | undefined,
+  overwrittenFields: LockableField[]
+): Promise<ShopifyEdit | null> {
+  if (!importedProduct.shopifyProductId || !importedProduct.shopifyHash || overwrittenFields.length === 0) return null;
+  if (indexedUpdatedAt && importedProduct.shopifyUpdatedAt && new Date(indexedUpdatedAt) <= importedProduct.shopifyUpdatedAt) {
+    return null;
+  }
+
+  let baseline: Record<string, string>;
+  try {
+    baseline = JSON.parse(importedProduct.shopifyHash);
+  } catch {
+    return null;
+  }
+
+  const snapshot = await getShopifySnapshot(admin, importedProduct.shopifyProductId);
+  if (!snapshot) return null;
+
+  const fields = overwrittenFields.filter(field => baseline[field] && baseline[field] !== snapshot.hashes[field]);
+  return fields.length > 0 ? { fields, snapshot } : null;
+}
+
+// Records a detected edit. Open conflicts are kept one per product: a later sync refreshes the
+// pending entry instead of queueing a duplicate.
+export async function recordConflict(params: {
+  shop: string;
+  connectionId: string | null;
+  importedProduct: { id: string; title: string; sku: string | null; shopifyProductId: string | null };
+  edit: ShopifyEdit;
+  supplierData: any;
+  syncRunId?: string | null;
+  status: 'open' | 'supplier_applied' | 'shopify_kept';
+}) {
+  const { shop, connectionId, importedProduct, edit, supplierData, syncRunId, status } = params;
+  const shopifyValues = Object.fromEntries(edit.fields.map(field => [field, edit.snapshot.values[field] ?? null]));
+  const data = {
+    syncRunId: syncRunId || null,
+    title: importedProduct.title,
+    sku: importedProduct.sku,
+    fields: JSON.stringify(edit.fields),
+    shopifyValues: JSON.stringify(shopifyValues),
+    supplierData: JSON.stringify(supplierData),
+    detectedAt: new Date()
+  };
+
+  const openConflict = await prisma.syncConflict.findFirst({
+    where: { importedProductId: importedProduct.id, status: 'open' }
+  });
+
+  if (openConflict) {
+    return prisma.syncConflict.update({
+      where: { id: openConflict.id },
+      data: {
+        ...data,
+        status,
+        ...(status !== 'open' && { resolvedBy: 'policy', resolvedAt: new Date() })
+      }
+    });
+  }
+
+  return prisma.syncConflict.create({
+    data: {
+      ...data,
+      shop,
+      connectionId,
+      importedProductId: importedProduct.id,
+      shopifyProductId: importedProduct.shopifyProductId || edit.snapshot.productId,
+      status,
+      ...(status !== 'open' && { resolvedBy: 'policy', resolvedAt: new Date() })
+    }
+  });
+}
+
+// Open conflict counts per connection, for the connection list
+export async function getOpenConflictCounts(shop: string): Promise<Map<string, number>> {
+  const groups = await prisma.syncConflict.groupBy({
+    by: ['connectionId'],
+    where: { shop, status: 'open' },
+    _count: { _all: true }
+  });
+  return new Map(groups.filter(group => group.connectionId).map(group => [group.connectionId as string, group._count._all]));
+}
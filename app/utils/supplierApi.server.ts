@@ -0,0 +1,233 @@
+import type { SupplierAuthConfig } from "./supplierAuth";
+import type { SupplierRequestConfig } from "./supplierRequestConfig";
+import { normalizeItemsPath, resolveItemsPath } from "./itemsPath";
+import { extractXmlItems, parseXmlDocument, XML_ACCEPT } from "./xmlFeed.server";
+import { CSV_ACCEPT, parseCsvDocument } from "./csvFeed.server";
+import { supplierFetch } from "./supplierRequest.server";
+
+// Fetching supplier product feeds, including feeds split over several pages.
+// Pagination settings are stored per connection in Connection.paginationConfig (JSON string).
+// Feeds are JSON unless the connection's feedFormat is 'xml' (see xmlFeed.server.ts) or 'csv'
+// (see csvFeed.server.ts).
+
+const FEED_ACCEPT: Record<string, string> = { xml: XML_ACCEPT, csv: CSV_ACCEPT };
+
+export type PaginationType = 'none' | 'page' | 'link' | 'next_url' | 'cursor';
+
+export interface PaginationConfig {
+  type: PaginationType;
+  pageParam?: string;   // 'page' mode: query param holding the page number
+  sizeParam?: string;   // 'page' mode: query param holding the page size
+  pageSize?: number;
+  startPage?: number;   // first page number, usually 1 (some APIs start at 0)
+  nextUrlPath?: string; // 'next_url' mode: dot path to the next page URL in the body, e.g. "links.next"
+  cursorParam?: string; // 'cursor' mode: query param the cursor is sent back in
+  cursorPath?: string;  // 'cursor' mode: dot path to the next cursor in the body, e.g. "meta.next_cursor"
+  maxPages?: number;    // safety limit so a misbehaving API can't loop forever
+}
+
+export interface SupplierApiCredentials {
+  apiUrl: string;
+  accessToken: string;
+  authType?: string | null;
+  authConfig?: SupplierAuthConfig | string | null;
+  requestConfig?: SupplierRequestConfig | string | null;
+  itemsPath?: string | null;
+  feedFormat?: string | null; // 'json' (default), 'xml' or 'csv'
+}
+
+export type FeedFormat = 'json' | 'xml' | 'csv';
+
+export function parseFeedFormat(raw: any): FeedFormat {
+  return raw === 'xml' || raw === 'csv' ? raw : 'json';
+}
+
+export interface SupplierFeed {
+  items: any[];
+  truncated?: string; // why paging stopped before the end of the feed, when it did
+}
+
+export const DEFAULT_MAX_PAGES = 100;
+
+// Accepts the stored JSON string (or an already parsed object) and fills in defaults
+export function parsePaginationConfig(raw: any): PaginationConfig {
+  let config: any = raw;
+  if (typeof raw === 'string') {
+    try {
+      config = JSON.parse(raw);
+    } catch {
+      config = null;
+    }
+  }
+
+  if (!config || typeof config !== 'object' || !config.type || config.type === 'none') {
+    return { type: 'none' };
+  }
+
+  const maxPages = Number(config.maxPages);
+  return {
+    ...config,
+    pageSize: config.pageSize ? Number(config.pageSize) : undefined,
+    startPage: config.startPage !== undefined && config.startPage !== '' ? Number(config.startPage) : 1,
+    maxPages: maxPages > 0 ? maxPages : DEFAULT_MAX_PAGES
+  };
+}
+
+// Pull the product list out of a response body: the array at the connection's items path when it
+// has one, otherwise either the body itself or the first array property
+export function extractItems(body: any, itemsPath?: string | null): any[] {
+  if (normalizeItemsPath(itemsPath)) {
+    return resolveItemsPath(body, itemsPath as string) || [];
+  }
+  if (Array.isArray(body)) return body;
+  if (body && typeof body === 'object') {
+    if (Array.isArray(body.products)) return body.products;
+    if (Array.isArray(body.data)) return body.data;
+    for (const key of Object.keys(body)) {
+      if (Array.isArray(body[key]) && body[key].length > 0) {
+        return body[key];
+      }
+    }
+  }
+  return [];
+}
+
+function getByPath(obj: any, path?: string): any {
+  if (!path) return undefined;
+  return path.split('.').reduce((acc: any, key: string) => (acc == null ? undefined : acc[key]), obj);
+}
+
+// Parses an RFC 5988 Link header and returns the rel="next" URL, if any
+function getNextLink(linkHeader: string | null): string | null {
+  if (!linkHeader) return null;
+  for (const part of linkHeader.split(',')) {
+    const match = part.match(/<([^>]+)>\s*;\s*rel="?next"?/i);
+    if (match) return match[1];
+  }
+  return null;
+}
+
+function getPageItems(body: any, apiCredentials: SupplierApiCredentials, itemsPath: string) {
+  return apiCredentials.feedFormat === 'xml' ? extractXmlItems(body, itemsPath) : extractItems(body, itemsPath);
+}
+
+// A wrong items path must fail the run, not look like a supplier with no products
+function assertItemsPath(body: any, itemsPath: string) {
+  if (itemsPath && !resolveItemsPath(body, itemsPath)) {
+    throw new Error(`Items path "${itemsPath}" does not point to an array in the API response`);
+  }
+}
+
+// templateVars fill the connection's body template (POST feeds paginate in the body)
+async function fetchPage(url: string, apiCredentials: SupplierApiCredentials, templateVars: Record<string, string | number> = {}) {
+  const feedFormat = parseFeedFormat(apiCredentials.feedFormat);
+  const res = await supplierFetch(url, apiCredentials, { templateVars, accept: FEED_ACCEPT[feedFormat] });
+
+  if (!res.ok) {
+    const errorText = await res.text().catch(() => '');
+    throw new Error(`API request failed: ${res.status} ${res.statusText}${errorText ? ` - ${errorText.substring(0, 200)}` : ''}`);
+  }
+
+  let body: any;
+  if (feedFormat === 'xml') {
+    body = parseXmlDocument(await res.text(), apiCredentials.itemsPath);
+  } else if (feedFormat === 'csv') {
+    body = parseCsvDocument(await res.text());
+  } else {
+    body = await res.json();
+  }
+  return { body, linkHeader: res.headers.get('link') };
+}
+
+// Walks every page of the supplier feed and returns all items in order.
+// Throws on HTTP errors so callers never mistake a failed page for an empty feed. Hitting the page
+// limit or a page URL loop returns what was fetched, flagged as truncated.
+export async function fetchAllSupplierItems(
+  apiCredentials: SupplierApiCredentials,
+  paginationConfig?: any
+): Promise<SupplierFeed> {
+  const config = parsePaginationConfig(paginationConfig);
+  // CSV rows are the items themselves
+  const itemsPath = apiCredentials.feedFormat === 'csv' ? '' : normalizeItemsPath(apiCredentials.itemsPath);
+
+  if (config.type === 'none') {
+    const { body } = await fetchPage(apiCredentials.apiUrl, apiCredentials, { page: 1, pageSize: '', cursor: '' });
+    assertItemsPath(body, itemsPath);
+    return { items: getPageItems(body, apiCredentials, itemsPath) };
+  }
+
+  const maxPages = config.maxPages || DEFAULT_MAX_PAGES;
+  const items: any[] = [];
+  const visitedUrls = new Set<string>();
+  let pageNumber = config.startPage ?? 1;
+  let cursor = '';
+  let url: string | null = apiCredentials.apiUrl;
+  let truncated: string | undefined;
+
+  if (config.type === 'page') {
+    const firstUrl = new URL(apiCredentials.apiUrl);
+    firstUrl.searchParams.set(config.pageParam || 'page', String(pageNumber));
+    if (config.pageSize) {
+      firstUrl.searchParams.set(config.sizeParam || 'size', String(config.pageSize));
+    }
+    url = firstUrl.toString();
+  }
+
+  for (let pagesFetched = 0; url; pagesFetched++) {
+    if (pagesFetched >= maxPages) {
+      truncated = `Stopped after ${maxPages} pages (max page limit)`;
+      console.warn(`⚠️ ${truncated} for ${apiCredentials.apiUrl}`);
+      break;
+    }
+    if (visitedUrls.has(url)) {
+      truncated = `The API returned a page URL that was already fetched (${url})`;
+      console.warn(`⚠️ ${truncated}, stopping`);
+      break;
+    }
+    visitedUrls.add(url);
+
+    const { body, linkHeader } = await fetchPage(url, apiCredentials, { page: pageNumber, pageSize: config.pageSize ?? '', cursor });
+    // Later pages may drop the wrapper once they run out of items
+    if (pagesFetched === 0) assertItemsPath(body, itemsPath);
+    const pageItems = getPageItems(body, apiCredentials, itemsPath);
+    items.push(...pageItems);
+    console.log(`📄 Page ${pagesFetched + 1}: ${pageItems.length} items (total ${items.length})`);
+
+    let nextUrl: string | null = null;
+    switch (config.type) {
+      case 'page': {
+        // Stop on an empty page, or a short page when we know the page size
+        if (pageItems.length === 0) break;
+        if (config.pageSize && pageItems.length < config.pageSize) break;
+        pageNumber++;
+        const next: URL = new URL(url);
+        next.searchParams.set(config.pageParam || 'page', String(pageNumber));
+        nextUrl = next.toString();
+        break;
+      }
+      case 'link':
+        nextUrl = getNextLink(linkHeader);
+        break;
+      case 'next_url': {
+        const value = getByPath(body, config.nextUrlPath || 'next');
+        nextUrl = typeof value === 'string' && value ? value : null;
+        break;
+      }
+      case 'cursor': {
+        const nextCursor = getByPath(body, config.cursorPath || 'next_cursor');
+        if (nextCursor !== undefined && nextCursor !== null && nextCursor !== '' && pageItems.length > 0) {
+          cursor = String(nextCursor);
+          const next: URL = new URL(apiCredentials.apiUrl);
+          next.searchParams.set(config.cursorParam || 'cursor', cursor);
+          nextUrl = next.toString();
+        }
+        break;
+      }
+    }
+
+    // Next links are often relative to the current page
+    url = nextUrl ? new URL(nextUrl, url).toString() : null;
+  }
+
+  return { items, truncated };
+}
@@ -0,0 +1,61 @@
+// How a connection authenticates against its supplier API. Stored per connection in
+// Connection.authType and Connection.authConfig (JSON); the secret itself (token, API key,
+// password or client secret) stays in Connection.accessToken.
+// Shared by the request builder (supplierRequest.server.ts) and the credentials UI.
+
+export type SupplierAuthType = 'bearer' | 'api_key' | 'basic' | 'query' | 'oauth2' | 'none';
+
+export interface SupplierAuthConfig {
+  headerName?: string;   // 'api_key': header carrying the key
+  queryParam?: string;   // 'query': query string parameter carrying the token
+  username?: string;     // 'basic': user name; accessToken is the password
+  tokenUrl?: string;     // 'oauth2': client-credentials token endpoint
+  clientId?: string;     // 'oauth2': client id; accessToken is the client secret
+  scope?: string;        // 'oauth2': optional space separated scopes
+}
+
+export const SUPPLIER_AUTH_TYPES: Array<{ value: SupplierAuthType; label: string; secretLabel: string }> = [
+  { value: 'bearer', label: 'Bearer token (Authorization header)', secretLabel: 'Access Token' },
+  { value: 'api_key', label: 'API key header', secretLabel: 'API Key' },
+  { value: 'basic', label: 'HTTP Basic auth', secretLabel: 'Password' },
+  { value: 'query', label: 'Token in query string', secretLabel: 'Token' },
+  { value: 'oauth2', label: 'OAuth2 client credentials', secretLabel: 'Client Secret' },
+  { value: 'none', label: 'No authentication (public URL)', secretLabel: '' }
+];
+
+export const DEFAULT_API_KEY_HEADER = 'X-Api-Key';
+export const DEFAULT_TOKEN_QUERY_PARAM = 'api_key';
+
+export function parseSupplierAuthType(raw: any): SupplierAuthType {
+  return SUPPLIER_AUTH_TYPES.some(option => option.value === raw) ? raw : 'bearer';
+}
+
+// Accepts the stored JSON string (or an already parsed object)
+export function parseSupplierAuthConfig(raw: any): SupplierAuthConfig {
+  let config: any = raw;
+  if (typeof raw === 'string') {
+    try {
+      config = JSON.parse(raw);
+    } catch {
+      config = null;
+    }
+  }
+  return config && typeof config === 'object' && !Array.isArray(config) ? config : {};
+}
+
+// Public feeds (auth type 'none') are the only connections without a secret
+export function authRequiresSecret(authType: SupplierAuthType): boolean {
+  return authType !== 'none';
+}
+
+// Fields the auth type needs besides the secret, for validating the credentials form
+export function getMissingAuthFields(authType: SupplierAuthType, config: SupplierAuthConfig): string[] {
+  switch (authType) {
+    case 'basic':
+      return config.username ? [] : ['username'];
+    case 'oauth2':
+      return [!config.tokenUrl && 'token URL', !config.clientId && 'client ID'].filter(Boolean) as string[];
+    default:
+      return [];
+  }
+}
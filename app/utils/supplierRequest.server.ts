@@ -0,0 +1,161 @@
+import type { SupplierAuthConfig } from "./supplierAuth";
+import {
+  DEFAULT_API_KEY_HEADER,
+  DEFAULT_TOKEN_QUERY_PARAM,
+  parseSupplierAuthConfig,
+  parseSupplierAuthType
+} from "./supplierAuth";
+import type { SupplierRequestConfig } from "./supplierRequestConfig";
+import { parseSupplierRequestConfig, renderBodyTemplate } from "./supplierRequestConfig";
+
+// Builds every outbound request to a supplier API: applies the connection's request shape
+// (see supplierRequestConfig.ts), its auth scheme (see supplierAuth.ts), the default headers
+// and the timeout. OAuth2 client-credentials tokens are cached per process until shortly
+// before they expire, and fetched again when the supplier answers 401.
+
+export interface SupplierRequestCredentials {
+  accessToken: string | null;
+  authType?: string | null;
+  authConfig?: SupplierAuthConfig | string | null;
+  requestConfig?: SupplierRequestConfig | string | null;
+}
+
+export interface SupplierRequestOptions {
+  accept?: string;
+  timeoutMs?: number;
+  templateVars?: Record<string, string | number | null | undefined>; // body template placeholders
+}
+
+const REQUEST_TIMEOUT_MS = 10000;
+const TOKEN_EXPIRY_MARGIN_MS = 60 * 1000; // refresh a bit early so a token never expires mid-request
+const DEFAULT_TOKEN_LIFETIME_S = 3600;
+
+const oauthTokens = new Map<string, { accessToken: string; expiresAt: number }>();
+
+function getTokenCacheKey(config: SupplierAuthConfig) {
+  return `${config.tokenUrl}|${config.clientId}|${config.scope || ''}`;
+}
+
+// Client-credentials grant; the client authenticates with HTTP Basic as RFC 6749 recommends
+async function getOAuthToken(config: SupplierAuthConfig, clientSecret: string, forceRefresh = false) {
+  if (!config.tokenUrl || !config.clientId) {
+    throw new Error('OAuth2 connections need a token URL and client ID');
+  }
+
+  const cacheKey = getTokenCacheKey(config);
+  const cached = oauthTokens.get(cacheKey);
+  if (cached && !forceRefresh && cached.expiresAt > Date.now()) {
+    return cached.accessToken;
+  }
+
+  const body = new URLSearchParams({ grant_type: 'client_credentials' });
+  if (config.scope) body.set('scope', config.scope);
+
+  const res = await fetch(config.tokenUrl, {
+    method: 'POST',
+    headers: {
+      Authorization: `Basic ${Buffer.from(`${config.clientId}:${clientSecret}`).toString('base64')}`,
+      'Content-Type': 'application/x-www-form-urlencoded',
+      Accept: 'application/json',
+      'User-Agent': 'Shopify-Product-Import/1.0'
+    },
+    body: body.toString(),
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+  });
+
+  const data = await res.json().catch(() => null);
+  if (!res.ok || !data?.access_token) {
+    const reason = data?.error_description || data?.error || res.statusText;
+    throw new Error(`OAuth2 token request failed: ${res.status}${reason ? ` - ${String(reason).substring(0, 200)}` : ''}`);
+  }
+
+  const lifetimeMs = (Number(data.expires_in) || DEFAULT_TOKEN_LIFETIME_S) * 1000;
+  oauthTokens.set(cacheKey, {
+    accessToken: data.access_token,
+    expiresAt: Date.now() + Math.max(0, lifetimeMs - TOKEN_EXPIRY_MARGIN_MS)
+  });
+  console.log(`🔑 Fetched OAuth2 token from ${config.tokenUrl} (expires in ${Math.round(lifetimeMs / 1000)}s)`);
+  return data.access_token as string;
+}
+
+export async function buildSupplierRequest(
+  url: string,
+  credentials: SupplierRequestCredentials,
+  options: SupplierRequestOptions = {},
+  forceTokenRefresh = false
+): Promise<{ url: string; init: RequestInit }> {
+  const authType = parseSupplierAuthType(credentials.authType);
+  const config = parseSupplierAuthConfig(credentials.authConfig);
+  const requestConfig = parseSupplierRequestConfig(credentials.requestConfig);
+  const secret = credentials.accessToken || '';
+  const requestUrl = new URL(url);
+  const headers: Record<string, string> = {
+    Accept: options.accept || 'application/json',
+    'User-Agent': 'Shopify-Product-Import/1.0'
+  };
+
+  // Custom headers can replace the defaults; the auth scheme below is applied last
+  for (const { key, value } of requestConfig.headers) {
+    if (key.trim()) headers[key.trim()] = value;
+  }
+  for (const { key, value } of requestConfig.queryParams) {
+    if (key.trim()) requestUrl.searchParams.set(key.trim(), value);
+  }
+
+  let body: string | undefined;
+  if (requestConfig.method === 'POST' && requestConfig.bodyTemplate) {
+    body = renderBodyTemplate(requestConfig.bodyTemplate, options.templateVars);
+    if (!Object.keys(headers).some(name => name.toLowerCase() === 'content-type')) {
+      headers['Content-Type'] = 'application/json';
+    }
+  }
+
+  switch (authType) {
+    case 'api_key':
+      headers[config.headerName || DEFAULT_API_KEY_HEADER] = secret;
+      break;
+    case 'basic':
+      headers.Authorization = `Basic ${Buffer.from(`${config.username || ''}:${secret}`).toString('base64')}`;
+      break;
+    case 'query':
+      requestUrl.searchParams.set(config.queryParam || DEFAULT_TOKEN_QUERY_PARAM, secret);
+      break;
+    case 'oauth2':
+      headers.Authorization = `Bearer ${await getOAuthToken(config, secret, forceTokenRefresh)}`;
+      break;
+    case 'none':
+      break;
+    default:
+      // Tokens are sometimes pasted with their 'Bearer ' prefix
+      headers.Authorization = `Bearer ${secret.replace(/^Bearer\s+/i, '')}`;
+  }
+
+  return {
+    url: requestUrl.toString(),
+    init: {
+      method: requestConfig.method,
+      headers,
+      body,
+      signal: AbortSignal.timeout(options.timeoutMs || REQUEST_TIMEOUT_MS)
+    }
+  };
+}
+
+// fetch() for supplier APIs. A 401 on an OAuth2 connection retries once with a fresh token,
+// since the supplier may have revoked the cached one before it expired.
+export async function supplierFetch(
+  url: string,
+  credentials: SupplierRequestCredentials,
+  options: SupplierRequestOptions = {}
+): Promise<Response> {
+  const request = await buildSupplierRequest(url, credentials, options);
+  const res = await fetch(request.url, request.init);
+
+  if (res.status === 401 && parseSupplierAuthType(credentials.authType) === 'oauth2') {
+    console.log('🔑 Supplier rejected the OAuth2 token, fetching a new one');
+    const retry = await buildSupplierRequest(url, credentials, options, true);
+    return fetch(retry.url, retry.init);
+  }
+
+  return res;
+}
@@ -0,0 +1,69 @@
+// The shape of requests to a supplier API: method, extra headers, extra query parameters and a
+// body template. Stored per connection in Connection.requestConfig (JSON); no config means a
+// plain GET. Shared by the request builder (supplierRequest.server.ts) and the credentials UI.
+//
+// Body templates can use {{page}}, {{pageSize}} and {{cursor}} (filled in while paginating)
+// and {{now}} (the current time, ISO 8601). Unknown placeholders are left as they are.
+
+export type SupplierRequestMethod = 'GET' | 'POST';
+
+export interface RequestPair {
+  key: string;
+  value: string;
+}
+
+export interface SupplierRequestConfig {
+  method: SupplierRequestMethod;
+  headers: RequestPair[];
+  queryParams: RequestPair[];
+  bodyTemplate?: string;
+}
+
+export const REQUEST_METHOD_OPTIONS: Array<{ value: SupplierRequestMethod; label: string }> = [
+  { value: 'GET', label: 'GET' },
+  { value: 'POST', label: 'POST' }
+];
+
+export const DEFAULT_REQUEST_CONFIG: SupplierRequestConfig = { method: 'GET', headers: [], queryParams: [] };
+
+const parsePairs = (pairs: any): RequestPair[] =>
+  Array.isArray(pairs)
+    ? pairs
+      .filter(pair => pair && typeof pair.key === 'string')
+      .map(pair => ({ key: pair.key, value: pair.value == null ? '' : String(pair.value) }))
+    : [];
+
+// Accepts the stored JSON string (or an already parsed object) and fills in defaults
+export function parseSupplierRequestConfig(raw: any): SupplierRequestConfig {
+  let config: any = raw;
+  if (typeof raw === 'string') {
+    try {
+      config = JSON.parse(raw);
+    } catch {
+      config = null;
+    }
+  }
+  if (!config || typeof config !== 'object') return { ...DEFAULT_REQUEST_CONFIG };
+
+  return {
+    method: config.method === 'POST' ? 'POST' : 'GET',
+    headers: parsePairs(config.headers),
+    queryParams: parsePairs(config.queryParams),
+    bodyTemplate: typeof config.bodyTemplate === 'string' && config.bodyTemplate.trim() ? config.bodyTemplate : undefined
+  };
+}
+
+// True when the config is just the default plain GET, so nothing needs storing
+export function isDefaultRequestConfig(config: SupplierRequestConfig): boolean {
+  return config.method === 'GET'
+    && !config.headers.some(pair => pair.key.trim())
+    && !config.queryParams.some(pair => pair.key.trim())
+    && !config.bodyTemplate;
+}
+
+export function renderBodyTemplate(template: string, vars: Record<string, string | number | null | undefined> = {}): string {
+  const values: Record<string, any> = { now: new Date().toISOString(), ...vars };
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, name) =>
+    values[name] === undefined || values[name] === null ? placeholder : String(values[name])
+  );
+}
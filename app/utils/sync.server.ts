@@ -0,0 +1,1738 @@
+import { createHash } from "crypto";
+import prisma from "../db.server";
+import { adminGraphql } from "./adminGraphql.server";
+import { M_SET_ON_HAND } from "./graphql.server";
+import { fetchAllSupplierItems } from "./supplierApi.server";
+import { authRequiresSecret, parseSupplierAuthType } from "./supplierAuth";
+import { getTargetQuantity, parseInventorySyncConfig, syncInventoryLevels } from "./inventorySync.server";
+import { applyMarkupRules as applyJobMarkupRules, mapSupplierItems, transformSupplierItems } from "./importPipeline.server";
+import { getLatestJobDefinition } from "./jobDefinition.server";
+import type { JobDefinition } from "./jobDefinition.server";
+import { FULL_UPDATE_SCOPE, parseUpdateScope } from "./updateScope";
+import type { UpdateFieldGroup } from "./updateScope";
+import { getShopifyLockedFields, keepLockTags, LOCK_METAFIELD_KEY, LOCK_METAFIELD_NAMESPACE, LOCK_TAG_PREFIX, mergeLockedFields, omitLockedProductFields, omitLockedVariantFields, parseLockedFields } from "./fieldLocks";
+import type { LockableField } from "./fieldLocks";
+import { detectShopifyEdit, getOverwrittenFields, getShopifySnapshot, keepShopifyValues, parseConflictPolicy, recordConflict, refreshShopifyBaseline, toBaselineData } from "./shopifyConflicts.server";
+import type { ConflictPolicy } from "./shopifyConflicts.server";
+import type { InventorySyncTarget, ShopifyVariantInventory } from "./inventorySync.server";
+import { acquireSyncLock, formatSyncLockMessage, releaseSyncLock } from "./syncLock.server";
+
+// Shared sync engine used by the manual cron route and the background scheduler.
+
+export interface SyncResult {
+  connectionId: string;
+  connectionName: string;
+  syncRunId?: string;
+  totalProducts?: number;
+  created?: number;
+  updated?: number;
+  skipped?: number;
+  unchanged?: number;
+  missing?: number;
+  failed?: number;
+  inventoryUpdated?: number; // products whose on-hand quantities were set from the feed
+  success: boolean;
+  error?: string;
+  dryRun?: boolean;
+  plan?: ChangePlanEntry[];
+  inProgressSince?: string; // set when the run was rejected because another sync holds the lock
+  warning?: string; // e.g. why the missing product policy was not applied
+}
+
+export type SyncTrigger = 'manual' | 'scheduled';
+
+export interface SyncOptions {
+  trigger?: SyncTrigger;
+  dryRun?: boolean;
+}
+
+export type ChangePlanAction = 'create' | 'update' | 'unchanged' | 'skip';
+
+// One row of a dry-run change plan: what would happen to a product and how its key fields would change
+export interface ChangePlanEntry {
+  action: ChangePlanAction;
+  title: string;
+  sku: string | null;
+  oldTitle: string | null;
+  newTitle: string | null;
+  oldPrice: string | null;
+  newPrice: string | null;
+  oldQuantity: number | null;
+  newQuantity: number | null;
+  shopifyProductId: string | null;
+  note?: string;
+}
+
+type SyncRunItemAction = 'created' | 'updated' | 'unchanged' | 'skipped' | 'missing' | 'failed';
+
+interface SyncRunItemInput {
+  title: string;
+  sku?: string | null;
+  action: SyncRunItemAction;
+  errorMessage?: string;
+}
+
+export interface SyncConnection {
+  id: string;
+  name: string;
+  apiUrl: string | null;
+  accessToken: string | null;
+  authType?: string | null;
+  authConfig?: string | null;
+  requestConfig?: string | null;
+  itemsPath?: string | null;
+  feedFormat?: string | null;
+  scheduledTime: string | null;
+  paginationConfig?: string | null;
+  missingProductPolicy?: string | null;
+  missingProductThreshold?: number | null;
+  inventorySyncConfig?: string | null;
+  updateScope?: string | null;
+  conflictPolicy?: string | null;
+}
+
+function applyMarkupRules(product: any, markupConfig: any) {
+  if (!markupConfig?.conditions?.length) {
+    console.log('No markup conditions found, returning product as-is');
+    return product;
+  }
+
+  console.log('Applying markup rules to product:', product.title || product.name);
+  console.log('Markup config:', JSON.stringify(markupConfig, null, 2));
+  
+  // Check if conditions match
+  const conditionsMatch = markupConfig.conditionsType === 'all' 
+    ? markupConfig.conditions.every((condition: any) => checkCondition(product, condition))
+    : markupConfig.conditions.some((condition: any) => checkCondition(product, condition));
+
+  console.log('Conditions match result:', conditionsMatch);
+
+  if (conditionsMatch) {
+    console.log('Conditions match, applying markup');
+    
+    // Find the highest priority condition
+    const highestPriorityCondition = markupConfig.conditions.reduce((highest: any, current: any) => 
+      current.priority > highest.priority ? current : highest
+    );
+
+    console.log('Highest priority condition:', JSON.stringify(highestPriorityCondition, null, 2));
+
+    const markupType = highestPriorityCondition.markupType;
+    const markupValue = parseFloat(highestPriorityCondition.markupValue || '0');
+    
+    // Get current price from different possible locations
+    let currentPrice = 0;
+    if (product.variants && product.variants.length > 0 && product.variants[0].price) {
+      currentPrice = parseFloat(product.variants[0].price);
+    } else if (product.price) {
+      currentPrice = parseFloat(product.price);
+    } else if (product.variants && product.variants.length > 0 && product.variants[0].price) {
+      currentPrice = parseFloat(product.variants[0].price);
+    }
+
+    console.log(`Markup details: type=${markupType}, value=${markupValue}, currentPrice=${currentPrice}`);
+
+    if (markupType === 'percentage' && markupValue > 0 && currentPrice > 0) {
+      const newPrice = currentPrice * (1 + markupValue / 100);
+      
+      // Update price in the correct location
+      if (product.variants && product.variants.length > 0) {
+        product.variants[0].price = newPrice.toFixed(2);
+      } else {
+        product.price = newPrice.toFixed(2);
+      }
+      
+      product.markupApplied = true;
+      product.markupType = 'percentage';
+      product.markupValue = markupValue.toString();
+      console.log(`Applied ${markupValue}% markup: ${currentPrice} → ${newPrice.toFixed(2)}`);
+    } else if (markupType === 'fixed' && markupValue > 0 && currentPrice > 0) {
+      const newPrice = currentPrice + markupValue;
+      
+      // Update price in the correct location
+      if (product.variants && product.variants.length > 0) {
+        product.variants[0].price = newPrice.toFixed(2);
+      } else {
+        product.price = newPrice.toFixed(2);
+      }
+      
+      product.markupApplied = true;
+      product.markupType = 'fixed';
+      product.markupValue = markupValue.toString();
+      console.log(`Applied fixed markup: ${currentPrice} → ${newPrice.toFixed(2)}`);
+    } else {
+      console.log(`Markup not applied: type=${markupType}, value=${markupValue}, currentPrice=${currentPrice}`);
+    }
+  } else {
+    console.log('Conditions do not match, no markup applied');
+  }
+
+  return product;
+}
+
+function checkCondition(product: any, condition: any) {
+  const field = condition.field;
+  const operator = condition.operator;
+  const value = condition.value;
+  
+  let productValue = product[field];
+  
+  // Handle nested fields like variants[0].price
+  if (field.includes('.')) {
+    const parts = field.split('.');
+    productValue = product;
+    for (const part of parts) {
+      productValue = productValue?.[part];
+    }
+  }
+  
+  // Special handling for price field - check multiple locations
+  if (field === 'price') {
+    if (product.variants && product.variants.length > 0 && product.variants[0].price) {
+      productValue = product.variants[0].price;
+    } else if (product.price) {
+      productValue = product.price;
+    }
+  }
+  
+  if (operator === 'between' || operator === 'range') {
+    const [min, max] = value.split('-').map(Number);
+    const numValue = parseFloat(productValue);
+    console.log(`🔍 Price check: ${productValue} (${numValue}) in range ${min}-${max}`);
+    return numValue >= min && (max === 0 || numValue <= max);
+  }
+  
+  // Handle other operators
+  switch (operator) {
+    case 'eq': // Frontend sends 'eq' for "is equal to"
+      return String(productValue).toLowerCase() === String(value).toLowerCase();
+    case 'neq': // Frontend sends 'neq' for "is not equal to"
+      return String(productValue).toLowerCase() !== String(value).toLowerCase();
+    case 'contains':
+      return String(productValue).toLowerCase().includes(String(value).toLowerCase());
+    case 'ncontains': // Frontend sends 'ncontains' for "does not contain"
+      return !String(productValue).toLowerCase().includes(String(value).toLowerCase());
+    case 'starts': // Frontend sends 'starts' for "starts with"
+      return String(productValue).toLowerCase().startsWith(String(value).toLowerCase());
+    case 'ends': // Frontend sends 'ends' for "ends with"
+      return String(productValue).toLowerCase().endsWith(String(value).toLowerCase());
+    default:
+      console.log(`Unknown operator: ${operator}, defaulting to equals`);
+      return String(productValue).toLowerCase() === String(value).toLowerCase();
+  }
+}
+
+// Buffers per-product outcomes and writes them to SyncRunItem in batches.
+// Each flush also refreshes the SyncRun counters so the UI can poll progress mid-run.
+function createSyncRunRecorder(syncRunId: string, connectionId: string) {
+  const pending: any[] = [];
+  const counts: Record<SyncRunItemAction, number> = { created: 0, updated: 0, unchanged: 0, skipped: 0, missing: 0, failed: 0 };
+
+  const flush = async () => {
+    if (pending.length === 0) return;
+    const batch = pending.splice(0, pending.length);
+    try {
+      await prisma.syncRunItem.createMany({ data: batch });
+      await prisma.syncRun.update({
+        where: { id: syncRunId },
+        data: { ...counts }
+      });
+    } catch (error) {
+      console.error('❌ Failed to save sync run items:', error);
+    }
+  };
+
+  const setTotal = async (totalProducts: number) => {
+    try {
+      await prisma.syncRun.update({
+        where: { id: syncRunId },
+        data: { totalProducts }
+      });
+    } catch (error) {
+      console.error('❌ Failed to update sync run total:', error);
+    }
+  };
+
+  const record = async (item: SyncRunItemInput) => {
+    pending.push({
+      syncRunId,
+      connectionId,
+      title: item.title,
+      sku: item.sku ? String(item.sku) : null,
+      action: item.action,
+      errorMessage: item.errorMessage ? item.errorMessage.slice(0, 1000) : null
+    });
+    counts[item.action]++;
+    if (pending.length >= 25) {
+      await flush();
+    }
+  };
+
+  return { syncRunId, record, flush, setTotal };
+}
+
+type SyncRunRecorder = ReturnType<typeof createSyncRunRecorder>;
+
+// Sync a single API connection into Shopify and return its per-connection result.
+// Pass `dryRun` to get a change plan without touching Shopify. Real runs hold the connection's
+// sync lock and are rejected while another sync or import is in progress.
+// Every real run is persisted as a SyncRun with one SyncRunItem per product.
+// The caller is responsible for authenticating `admin` (request session or offline session).
+export async function syncConnection(
+  admin: any,
+  shop: string,
+  connection: SyncConnection,
+  options: SyncOptions = {}
+): Promise<SyncResult> {
+  // The wizard configuration saved by the connection's last import, if any
+  const jobDefinition = await getLatestJobDefinition(shop, connection.id);
+
+  if (options.dryRun) {
+    // Dry runs leave no trace - no SyncRun, no lastSync update
+    return planSync(admin, shop, connection, jobDefinition);
+  }
+
+  const trigger = options.trigger || 'manual';
+  const lockResult = await acquireSyncLock(shop, connection.id, trigger);
+  if (!lockResult.acquired) {
+    return {
+      connectionId: connection.id,
+      connectionName: connection.name,
+      success: false,
+      error: formatSyncLockMessage(lockResult.holder, lockResult.since),
+      inProgressSince: lockResult.since.toISOString()
+    };
+  }
+
+  try {
+    const syncRun = await prisma.syncRun.create({
+      data: {
+        shop,
+        connectionId: connection.id,
+        connectionName: connection.name,
+        trigger,
+        status: 'running',
+        jobDefinitionVersion: jobDefinition?.version ?? null
+      }
+    });
+
+    const recorder = createSyncRunRecorder(syncRun.id, connection.id);
+    const result = await performSync(admin, shop, connection, recorder, jobDefinition);
+    await recorder.flush();
+
+    await prisma.syncRun.update({
+      where: { id: syncRun.id },
+      data: {
+        status: result.success ? 'completed' : 'failed',
+        completedAt: new Date(),
+        totalProducts: result.totalProducts || 0,
+        created: result.created || 0,
+        updated: result.updated || 0,
+        skipped: result.skipped || 0,
+        unchanged: result.unchanged || 0,
+        missing: result.missing || 0,
+        failed: result.failed || 0,
+        errorMessage: result.error || null
+      }
+    });
+
+    return { ...result, syncRunId: syncRun.id };
+  } finally {
+    await releaseSyncLock(lockResult.lock);
+  }
+}
+
+// Markup for synced products: the job definition's conditions when its import had any, otherwise
+// the single price range saved with the connection schedule
+function getMarkupApplier(connection: SyncConnection, jobDefinition: JobDefinition | null): ((product: any) => any) | null {
+  const jobMarkup = jobDefinition?.markupConfig;
+  if (jobDefinition && (jobMarkup?.conditions?.length || jobMarkup?.rules?.length)) {
+    console.log(`💰 Using markup conditions from job definition v${jobDefinition.version}`);
+    return (product: any) => applyJobMarkupRules(product, jobMarkup);
+  }
+  const markupConfig = getScheduleMarkupConfig(connection);
+  return markupConfig ? (product: any) => applyMarkupRules(product, markupConfig) : null;
+}
+
+// Parse the markup settings saved with the connection schedule (scheduledTime JSON)
+function getScheduleMarkupConfig(connection: SyncConnection) {
+  if (!connection.scheduledTime) return null;
+  try {
+    const scheduleData = JSON.parse(connection.scheduledTime);
+    if (scheduleData.markupEnabled) {
+      const markupConfig = {
+        conditions: [{
+          field: 'price',
+          operator: scheduleData.conditionOperator || 'between',
+          value: `${scheduleData.priceFrom}-${scheduleData.priceTo}`,
+          priority: 1,
+          markupType: scheduleData.markupType,
+          markupValue: scheduleData.markupValue
+        }],
+        conditionsType: 'all'
+      };
+      console.log('💰 Markup config loaded:', markupConfig);
+      return markupConfig;
+    }
+  } catch (e) {
+    console.log('⚠️ Could not parse markup config from schedule data');
+  }
+  return null;
+}
+
+// Dry run: same fetch, markup and matching as performSync, but nothing is written to
+// Shopify or the database. Returns the change plan instead.
+async function planSync(
+  admin: any,
+  shop: string,
+  connection: SyncConnection,
+  jobDefinition: JobDefinition | null
+): Promise<SyncResult> {
+  try {
+    console.log(`🧪 Dry run for connection: ${connection.name}`);
+    const applyMarkup = getMarkupApplier(connection, jobDefinition);
+
+    if (!connection.apiUrl || (!connection.accessToken && authRequiresSecret(parseSupplierAuthType(connection.authType)))) {
+      return {
+        connectionId: connection.id,
+        connectionName: connection.name,
+        error: 'Missing API credentials (URL or Access Token)',
+        success: false,
+        dryRun: true
+      };
+    }
+
+    const { products: apiData } = await fetchApiData({
+      apiUrl: connection.apiUrl,
+      accessToken: connection.accessToken || '',
+      authType: connection.authType,
+      authConfig: connection.authConfig,
+      requestConfig: connection.requestConfig,
+      itemsPath: connection.itemsPath,
+      feedFormat: connection.feedFormat
+    }, connection.paginationConfig, jobDefinition);
+
+    const existingProducts = apiData.length > 0 ? await getShopifyProducts(admin) : null;
+    const inventoryConfig = parseInventorySyncConfig(connection.inventorySyncConfig);
+    const updateScope = parseUpdateScope(connection.updateScope);
+    const scopeNote = updateScope.length < FULL_UPDATE_SCOPE.length ? `Only updates: ${updateScope.join(', ') || 'nothing'}` : undefined;
+    const conflictPolicy = parseConflictPolicy(connection.conflictPolicy);
+    const plan: ChangePlanEntry[] = [];
+
+    for (const productData of apiData) {
+      if (!productData || typeof productData !== 'object') {
+        plan.push(buildChangePlanEntry('skip', {}, null, 'Product data is not an object'));
+        continue;
+      }
+
+      const productTitle = productData.title || productData.name || productData.product_name || productData.productName || 'Unknown Product';
+      const productSku = productData.variants?.[0]?.sku || productData.sku || productData.sku_code || productData.skuCode;
+
+      const existingInDb = await checkProductInDatabase(shop, productSku, productTitle);
+      const processedProductData = applyMarkup ? applyMarkup(productData) : productData;
+      const existingInShopify = existingProducts ? findExistingProduct(processedProductData, existingProducts) : null;
+
+      if (existingInDb && existingInShopify && existingInDb.contentHash === computeProductHash(processedProductData, updateScope)) {
+        plan.push(buildChangePlanEntry('unchanged', processedProductData, existingInDb));
+      } else if (existingInShopify) {
+        const { lockedFields } = getProductLocks(existingInDb, existingProducts?.locksByProduct.get(existingInShopify.id));
+        const shopifyEdit = existingInDb
+          ? await detectShopifyEdit(admin, existingInDb, existingInShopify.updatedAt, getOverwrittenFields(updateScope, lockedFields))
+          : null;
+        const conflictNote = shopifyEdit
+          ? `Edited in Shopify since the last sync (${shopifyEdit.fields.join(', ')}); ${CONFLICT_NOTES[conflictPolicy]}`
+          : undefined;
+        const updateNote = [scopeNote, lockedFields.length > 0 ? `Locked: ${lockedFields.join(', ')}` : undefined, conflictNote].filter(Boolean).join('; ');
+        plan.push(buildChangePlanEntry('update', processedProductData, existingInDb,
+          existingInDb ? updateNote || undefined : `Links to existing Shopify product ${existingInShopify.id}; Shopify is not modified`));
+      } else {
+        plan.push(buildChangePlanEntry('create', processedProductData, existingInDb));
+        if (existingProducts) {
+          // Later rows with the same SKU would match the product this run creates
+          addToShopifyProductIndex(existingProducts, processedProductData, { id: 'planned', title: productTitle });
+        }
+      }
+
+      // With inventory sync on, the quantity we'd set is the supplier figure less the buffer
+      if (inventoryConfig) {
+        plan[plan.length - 1].newQuantity = getTargetQuantity(processedProductData.variants?.[0], inventoryConfig)
+          ?? getTargetQuantity(processedProductData, inventoryConfig);
+      }
+    }
+
+    const countOf = (action: ChangePlanAction) => plan.filter(entry => entry.action === action).length;
+    return {
+      connectionId: connection.id,
+      connectionName: connection.name,
+      totalProducts: apiData.length,
+      created: countOf('create'),
+      updated: countOf('update'),
+      unchanged: countOf('unchanged'),
+      skipped: countOf('skip'),
+      failed: 0,
+      success: true,
+      dryRun: true,
+      plan
+    };
+  } catch (error) {
+    console.error(`❌ Dry run failed for connection ${connection.name}:`, error);
+    return {
+      connectionId: connection.id,
+      connectionName: connection.name,
+      error: error instanceof Error ? error.message : String(error),
+      success: false,
+      dryRun: true
+    };
+  }
+}
+
+const CONFLICT_NOTES: Record<ConflictPolicy, string> = {
+  supplier_wins: 'supplier values will overwrite them',
+  shopify_wins: 'Shopify values will be kept and locked',
+  review: 'update will wait for review'
+};
+
+async function performSync(
+  admin: any,
+  shop: string,
+  connection: SyncConnection,
+  recorder: SyncRunRecorder,
+  jobDefinition: JobDefinition | null
+): Promise<SyncResult> {
+  try {
+    console.log(`🔄 Processing connection: ${connection.name}`);
+    console.log('🔍 Connection Debug:', {
+      id: connection.id,
+      name: connection.name,
+      apiUrl: connection.apiUrl,
+      // accessToken holds passwords, API keys and client secrets too - never log any of it
+      authType: connection.authType,
+      hasSecret: !!connection.accessToken,
+      scheduledTime: connection.scheduledTime
+    });
+
+    // Markup from the job definition, or the schedule's price range
+    const applyMarkup = getMarkupApplier(connection, jobDefinition);
+
+    // Validate API credentials
+    if (!connection.apiUrl || (!connection.accessToken && authRequiresSecret(parseSupplierAuthType(connection.authType)))) {
+      console.error(`❌ Missing API credentials for connection: ${connection.name}`);
+      console.error('API URL:', connection.apiUrl);
+      console.error('Access Token:', connection.accessToken ? 'Present' : 'Missing');
+      return {
+        connectionId: connection.id,
+        connectionName: connection.name,
+        error: 'Missing API credentials (URL or Access Token)',
+        success: false
+      };
+    }
+
+    // Fetch latest data from API
+    const { products: apiData, feed } = await fetchApiData({
+      apiUrl: connection.apiUrl,
+      accessToken: connection.accessToken || '',
+      authType: connection.authType,
+      authConfig: connection.authConfig,
+      requestConfig: connection.requestConfig,
+      itemsPath: connection.itemsPath,
+      feedFormat: connection.feedFormat
+    }, connection.paginationConfig, jobDefinition);
+
+    if (apiData.length === 0) {
+      console.log(`⚠️ No products found for connection: ${connection.name}`);
+      return {
+        connectionId: connection.id,
+        connectionName: connection.name,
+        totalProducts: 0,
+        created: 0,
+        updated: 0,
+        skipped: 0,
+        unchanged: 0,
+        failed: 0,
+        success: true
+      };
+    }
+
+    console.log(`📦 Found ${apiData.length} products from API`);
+    await recorder.setTotal(apiData.length);
+
+    // Get existing Shopify products
+    const existingProducts = await getShopifyProducts(admin);
+    console.log(`🏪 Found ${existingProducts.productCount} existing Shopify products (${existingProducts.bySku.size} SKUs)`);
+
+    let created = 0;
+    let updated = 0;
+    let skipped = 0;
+    let unchanged = 0;
+    let failed = 0;
+    let inventoryUpdated = 0;
+    const inventoryConfig = parseInventorySyncConfig(connection.inventorySyncConfig);
+    const inventoryTargets: InventorySyncTarget[] = [];
+    // Field groups this sync may change on existing products; creates always get everything
+    const updateScope = parseUpdateScope(connection.updateScope);
+    const syncExistingInventory = updateScope.includes('inventory');
+    console.log(`🎯 Update scope for ${connection.name}: ${updateScope.join(', ') || 'none'}`);
+    const conflictPolicy = parseConflictPolicy(connection.conflictPolicy);
+
+    for (const productData of apiData) {
+      try {
+        // Validate product data
+        if (!productData || typeof productData !== 'object') {
+          console.warn('⚠️ Invalid product data, skipping:', productData);
+          skipped++;
+          await recorder.record({ title: 'Invalid product data', action: 'skipped', errorMessage: 'Product data is not an object' });
+          continue;
+        }
+
+        // Debug: Log product data structure
+        console.log('🔍 Product data structure:', {
+          keys: Object.keys(productData),
+          title: productData.title,
+          name: productData.name,
+          product_name: productData.product_name,
+          productName: productData.productName,
+          price: productData.price,
+          variants: productData.variants ? `${productData.variants.length} variants` : 'no variants',
+          hasPrice: !!productData.price,
+          hasVariants: !!(productData.variants && productData.variants.length > 0)
+        });
+
+        const productTitle = productData.title || productData.name || productData.product_name || productData.productName || 'Unknown Product';
+        const productSku = productData.variants?.[0]?.sku || productData.sku || productData.sku_code || productData.skuCode;
+
+        console.log(`🔄 Processing product: ${productTitle} (SKU: ${productSku})`);
+
+        // Step 1: Check if product exists in our database
+        const existingInDb = await checkProductInDatabase(shop, productSku, productTitle);
+
+        // Apply markup if configured
+        let processedProductData = productData;
+        if (applyMarkup) {
+          processedProductData = applyMarkup(productData);
+          console.log(`💰 Applied markup to product: ${productTitle}`);
+        }
+
+        // Step 2: Check if product exists in Shopify
+        const existingInShopify = findExistingProduct(processedProductData, existingProducts);
+        // Products created here get the full mapping; updates of existing ones only the scoped fields
+        const contentHash = computeProductHash(productData, existingInDb && existingInShopify ? updateScope : FULL_UPDATE_SCOPE);
+        // Merchant locks from the product locks UI and from Shopify tags/metafield
+        const locks = getProductLocks(existingInDb, existingInShopify ? existingProducts.locksByProduct.get(existingInShopify.id) : undefined);
+        const syncInventory = syncExistingInventory && !locks.lockedFields.includes('inventory');
+
+        // Step 3: Before overwriting, check whether someone edited the product in Shopify since our last push
+        const shopifyEdit = existingInDb && existingInShopify && existingInDb.contentHash !== contentHash
+          ? await detectShopifyEdit(admin, existingInDb, existingInShopify.updatedAt, getOverwrittenFields(updateScope, locks.lockedFields))
+          : null;
+        if (shopifyEdit) {
+          console.log(`✋ ${productTitle} was edited in Shopify since the last sync (${shopifyEdit.fields.join(', ')}); policy: ${conflictPolicy}`);
+        }
+
+        if (existingInDb && existingInShopify && existingInDb.contentHash === contentHash) {
+          // Same payload as the last push - nothing to send to Shopify
+          unchanged++;
+          if (syncInventory) {
+            inventoryTargets.push({ productId: existingInShopify.id, productData, title: productTitle, sku: productSku });
+          }
+          if (!existingInDb.shopifyHash) {
+            // Rows from before conflict detection get their baseline on the first sync that sees them
+            await refreshShopifyBaseline(admin, existingInDb.id, existingInShopify.id);
+          }
+          await recorder.record({ title: productTitle, sku: productSku, action: 'unchanged' });
+          console.log(`⏭️ Unchanged since last sync: ${productTitle}`);
+        } else if (existingInDb && existingInShopify && shopifyEdit && conflictPolicy === 'review') {
+          // Hold the update until the merchant picks a side; later syncs refresh the same open conflict
+          await recordConflict({
+            shop,
+            connectionId: connection.id,
+            importedProduct: existingInDb,
+            edit: shopifyEdit,
+            supplierData: productData,
+            syncRunId: recorder.syncRunId,
+            status: 'open'
+          });
+          skipped++;
+          await recorder.record({
+            title: productTitle,
+            sku: productSku,
+            action: 'skipped',
+            errorMessage: `Edited in Shopify since the last sync (${shopifyEdit.fields.join(', ')}); queued for review`
+          });
+        } else if (existingInDb && existingInShopify) {
+          // Product exists in both places - UPDATE
+          console.log(`📝 Product exists in both DB and Shopify - Updating...`);
+          let updateLocks = locks;
+          if (shopifyEdit) {
+            if (conflictPolicy === 'shopify_wins') {
+              // Shopify's edit sticks: the edited fields become locks so later syncs keep them too
+              await keepShopifyValues(existingInDb, shopifyEdit.fields);
+              updateLocks = { ...locks, lockedFields: mergeLockedFields(locks.lockedFields, shopifyEdit.fields) };
+            }
+            await recordConflict({
+              shop,
+              connectionId: connection.id,
+              importedProduct: existingInDb,
+              edit: shopifyEdit,
+              supplierData: productData,
+              syncRunId: recorder.syncRunId,
+              status: conflictPolicy === 'shopify_wins' ? 'shopify_kept' : 'supplier_applied'
+            });
+          }
+          await updateShopifyProduct(admin, existingInShopify.id, productData, updateScope, existingInDb.images, updateLocks);
+          const baseline = toBaselineData(await getShopifySnapshot(admin, existingInShopify.id));
+          await updateProductInDatabase(existingInDb.id, productData, contentHash, undefined, baseline);
+          if (syncInventory) {
+            inventoryTargets.push({ productId: existingInShopify.id, productData, title: productTitle, sku: productSku });
+          }
+          updated++;
+          await recorder.record({ title: productTitle, sku: productSku, action: 'updated' });
+          console.log(`✅ Updated product: ${productTitle}`);
+        } else if (existingInDb && !existingInShopify) {
+          // Product exists in DB but not in Shopify - CREATE in Shopify
+          console.log(`🆕 Product exists in DB but not in Shopify - Creating in Shopify...`);
+          const newShopifyProduct = await createShopifyProduct(admin, productData, connection.id);
+          if (newShopifyProduct) {
+            const baseline = toBaselineData(await getShopifySnapshot(admin, newShopifyProduct.id));
+            await updateProductInDatabase(existingInDb.id, productData, contentHash, newShopifyProduct.id, baseline);
+            addToShopifyProductIndex(existingProducts, productData, newShopifyProduct);
+            inventoryTargets.push({ productId: newShopifyProduct.id, productData, title: productTitle, sku: productSku });
+          }
+          created++;
+          await recorder.record({ title: productTitle, sku: productSku, action: 'created' });
+          console.log(`✅ Created product in Shopify: ${productTitle}`);
+        } else if (!existingInDb && existingInShopify) {
+          // Product exists in Shopify but not in DB - CREATE in DB
+          console.log(`💾 Product exists in Shopify but not in DB - Creating in DB...`);
+          const baseline = toBaselineData(await getShopifySnapshot(admin, existingInShopify.id));
+          await createProductInDatabase(shop, connection.id, productData, existingInShopify.id, contentHash, baseline);
+          if (syncInventory) {
+            inventoryTargets.push({ productId: existingInShopify.id, productData, title: productTitle, sku: productSku });
+          }
+          updated++;
+          await recorder.record({ title: productTitle, sku: productSku, action: 'updated' });
+          console.log(`✅ Added product to DB: ${productTitle}`);
+        } else {
+          // Product doesn't exist anywhere - CREATE in both
+          console.log(`🆕 Product doesn't exist anywhere - Creating in both...`);
+          const newShopifyProduct = await createShopifyProduct(admin, productData, connection.id);
+          if (newShopifyProduct) {
+            const baseline = toBaselineData(await getShopifySnapshot(admin, newShopifyProduct.id));
+            await createProductInDatabase(shop, connection.id, productData, newShopifyProduct.id, contentHash, baseline);
+            addToShopifyProductIndex(existingProducts, productData, newShopifyProduct);
+            inventoryTargets.push({ productId: newShopifyProduct.id, productData, title: productTitle, sku: productSku });
+          }
+          created++;
+          await recorder.record({ title: productTitle, sku: productSku, action: 'created' });
+          console.log(`✅ Created product in both: ${productTitle}`);
+        }
+      } catch (error) {
+        const productTitle = productData?.title || productData?.name || 'Unknown Product';
+        const productSku = productData?.variants?.[0]?.sku || productData?.sku || productData?.sku_code || productData?.skuCode;
+        console.error(`❌ Error processing product ${productTitle}:`, error);
+        failed++;
+        await recorder.record({
+          title: productTitle,
+          sku: productSku,
+          action: 'failed',
+          errorMessage: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
+
+    // Supplier quantities -> on-hand inventory, every run (including unchanged products, since
+    // Shopify stock moves with orders between runs)
+    if (inventoryConfig && inventoryTargets.length > 0) {
+      const inventoryResult = await syncInventoryLevels(admin, inventoryConfig, inventoryTargets, existingProducts.variantsByProduct);
+      inventoryUpdated = inventoryResult.updated;
+      for (const failure of inventoryResult.failures) {
+        failed++;
+        await recorder.record({
+          title: failure.title,
+          sku: failure.sku,
+          action: 'failed',
+          errorMessage: `Inventory sync failed: ${failure.message}`
+        });
+      }
+    }
+
+    // Products that have dropped out of the feed. A partial feed would make every product on the
+    // pages that weren't fetched look discontinued, so the policy waits for a complete run.
+    let missing = 0;
+    let warning: string | undefined;
+    if (feed.truncated) {
+      warning = `Missing product policy skipped, the feed was not fetched completely: ${feed.truncated}`;
+      console.warn(`⚠️ ${warning}`);
+    } else {
+      missing = await applyMissingProductPolicy(admin, shop, connection, getUnfilteredFeedItems(feed.items, jobDefinition), recorder);
+    }
+
+    // Update connection last sync time
+    await prisma.connection.update({
+      where: { id: connection.id },
+      data: {
+        lastSync: new Date(),
+        productCount: apiData.length
+      }
+    });
+
+    console.log(`✅ Connection ${connection.name} processed: ${created} created, ${updated} updated, ${unchanged} unchanged, ${skipped} skipped, ${missing} missing, ${failed} failed, ${inventoryUpdated} inventory updated`);
+
+    return {
+      connectionId: connection.id,
+      connectionName: connection.name,
+      totalProducts: apiData.length,
+      created,
+      updated,
+      skipped,
+      unchanged,
+      missing,
+      failed,
+      inventoryUpdated,
+      success: true,
+      ...(warning && { warning })
+    };
+  } catch (error) {
+    console.error(`❌ Error processing connection ${connection.name}:`, error);
+    return {
+      connectionId: connection.id,
+      connectionName: connection.name,
+      error: error instanceof Error ? error.message : String(error),
+      success: false
+    };
+  }
+}
+
+// Helper functions
+async function fetchApiData(apiCredentials: any, paginationConfig?: string | null, jobDefinition?: JobDefinition | null) {
+  console.log('🔍 API Credentials Debug:', {
+    apiUrl: apiCredentials.apiUrl,
+    authType: apiCredentials.authType,
+    hasSecret: !!apiCredentials.accessToken
+  });
+
+  // Errors propagate so a failed page marks the run as failed instead of syncing a partial feed
+  const feed = await fetchAllSupplierItems(apiCredentials, paginationConfig);
+  const items = feed.items;
+  console.log(`📦 Fetched ${items.length} products from API`);
+  if (!jobDefinition) return { products: items, feed };
+
+  // Same filters, key mappings and product shape as the import that saved the job definition
+  const products = mapSupplierItems(items, jobDefinition.importFilters, jobDefinition.keyMappings);
+  console.log(`📋 Job definition v${jobDefinition.version}: ${products.length} of ${items.length} products after filters`);
+  return {
+    products: products.map(product => ({
+      ...product,
+      status: jobDefinition.importConfig === 'published' ? 'ACTIVE' : 'DRAFT'
+    })),
+    feed
+  };
+}
+
+// Every supplier row, as delivered and with the job definition's key mappings but no filters: a
+// product the filters leave out is still in the feed, so it must not count as missing
+function getUnfilteredFeedItems(items: any[], jobDefinition: JobDefinition | null) {
+  return jobDefinition ? [...items, ...transformSupplierItems(items, jobDefinition.keyMappings)] : items;
+}
+
+interface ShopifyProductRef {
+  id: string;
+  title: string;
+  updatedAt?: string;
+}
+
+// Lookup tables over every product variant in the store, used to match supplier rows
+export interface ShopifyProductIndex {
+  bySku: Map<string, ShopifyProductRef>;
+  byTitle: Map<string, ShopifyProductRef>;
+  variantsByProduct: Map<string, ShopifyVariantInventory[]>;
+  locksByProduct: Map<string, ShopifyProductLocks>; // only products with Shopify-side field locks
+  productCount: number;
+}
+
+// Field locks for one product: the merged lock list plus the sync-lock tags to preserve on tag updates
+export interface ShopifyProductLocks {
+  lockedFields: LockableField[];
+  lockTags: string[];
+}
+
+// Walks every variant in the store with cursor pagination so that matching works
+// for any catalog size and for products with any number of variants.
+export async function getShopifyProducts(admin: any): Promise<ShopifyProductIndex> {
+  const query = `#graphql
+    query getProductVariants($first: Int!, $after: String) {
+      productVariants(first: $first, after: $after) {
+        edges {
+          node {
+            id
+            sku
+            inventoryPolicy
+            inventoryItem { id tracked }
+            selectedOptions { name value }
+            product {
+              id
+              title
+              updatedAt
+              tags
+              lockMetafield: metafield(namespace: "${LOCK_METAFIELD_NAMESPACE}", key: "${LOCK_METAFIELD_KEY}") { value }
+            }
+          }
+        }
+        pageInfo {
+          hasNextPage
+          endCursor
+        }
+      }
+    }
+  `;
+
+  const index: ShopifyProductIndex = { bySku: new Map(), byTitle: new Map(), variantsByProduct: new Map(), locksByProduct: new Map(), productCount: 0 };
+  const seenProducts = new Set<string>();
+  let after: string | null = null;
+  let page = 0;
+
+  do {
+    const data: any = await adminGraphql(admin, query, {
+      variables: { first: 250, after }
+    });
+
+    if (data.errors?.length) {
+      throw new Error(`Failed to fetch Shopify products: ${data.errors[0].message}`);
+    }
+
+    const connection = data.data?.productVariants;
+    for (const edge of connection?.edges || []) {
+      const variant = edge.node;
+      const product = variant.product;
+      if (!product) continue;
+
+      const ref: ShopifyProductRef = { id: product.id, title: product.title, updatedAt: product.updatedAt };
+      if (variant.sku && !index.bySku.has(variant.sku)) {
+        index.bySku.set(variant.sku, ref);
+      }
+      if (!index.variantsByProduct.has(product.id)) {
+        index.variantsByProduct.set(product.id, []);
+      }
+      index.variantsByProduct.get(product.id)!.push({
+        id: variant.id,
+        sku: variant.sku || null,
+        inventoryPolicy: variant.inventoryPolicy || null,
+        inventoryItemId: variant.inventoryItem?.id || null,
+        tracked: !!variant.inventoryItem?.tracked,
+        selectedOptions: variant.selectedOptions || []
+      });
+      if (!seenProducts.has(product.id)) {
+        seenProducts.add(product.id);
+        const titleKey = product.title?.toLowerCase();
+        if (titleKey && !index.byTitle.has(titleKey)) {
+          index.byTitle.set(titleKey, ref);
+        }
+        const lockedFields = getShopifyLockedFields(product.tags, product.lockMetafield?.value);
+        if (lockedFields.length > 0) {
+          index.locksByProduct.set(product.id, {
+            lockedFields,
+            lockTags: (product.tags || []).filter((tag: string) => tag.toLowerCase().startsWith(LOCK_TAG_PREFIX))
+          });
+        }
+      }
+    }
+
+    page++;
+    after = connection?.pageInfo?.hasNextPage ? connection.pageInfo.endCursor : null;
+    if (page % 20 === 0) {
+      console.log(`🏪 Indexed ${index.bySku.size} SKUs across ${seenProducts.size} products so far...`);
+    }
+  } while (after);
+
+  index.productCount = seenProducts.size;
+  return index;
+}
+
+// Keep the index in step with products created during the run so a repeated
+// SKU later in the same feed is matched instead of being created twice
+function addToShopifyProductIndex(index: ShopifyProductIndex, productData: any, product: ShopifyProductRef) {
+  const sku = productData.variants?.[0]?.sku || productData.sku || productData.supplier_sku_code;
+  if (sku) index.bySku.set(String(sku), product);
+  const title = productData.title || productData.name || productData.product_name || productData.productName;
+  if (title && typeof title === 'string') index.byTitle.set(title.toLowerCase(), product);
+}
+
+export function findExistingProduct(productData: any, existingProducts: ShopifyProductIndex) {
+  // Validate productData
+  if (!productData || typeof productData !== 'object') {
+    console.warn('Invalid productData provided to findExistingProduct:', productData);
+    return null;
+  }
+
+  // Try to find by SKU first
+  const sku = productData.variants?.[0]?.sku || productData.sku;
+  if (sku && typeof sku === 'string') {
+    const found = existingProducts.bySku.get(sku);
+    if (found) return found;
+  }
+
+  // Try to find by title
+  const title = productData.title || productData.name || productData.product_name || productData.productName;
+  if (title && typeof title === 'string') {
+    return existingProducts.byTitle.get(title.toLowerCase()) || null;
+  }
+
+  return null;
+}
+
+// Combines an ImportedProduct row's locks with the ones set on the Shopify product
+export function getProductLocks(existingInDb: any, shopifyLocks?: ShopifyProductLocks): ShopifyProductLocks {
+  return {
+    lockedFields: mergeLockedFields(parseLockedFields(existingInDb?.lockedFields), shopifyLocks?.lockedFields || []),
+    lockTags: shopifyLocks?.lockTags || []
+  };
+}
+
+// Updates an existing Shopify product, touching only the field groups in the connection's update scope
+// and never the fields the merchant locked on this product
+export async function updateShopifyProduct(
+  admin: any,
+  productId: string,
+  productData: any,
+  updateScope: UpdateFieldGroup[],
+  previousImages?: string | null,
+  locks: ShopifyProductLocks = { lockedFields: [], lockTags: [] }
+) {
+  try {
+    console.log(`📝 Updating Shopify product: ${productData.title} (scope: ${updateScope.join(', ') || 'none'})`);
+    const allows = (group: UpdateFieldGroup) => updateScope.includes(group);
+    if (locks.lockedFields.length > 0) {
+      console.log(`🔒 Locked fields kept as they are in Shopify: ${locks.lockedFields.join(', ')}`);
+    }
+
+    // Step 1: Update the product
+    const productMutation = `#graphql
+      mutation productUpdate($input: ProductInput!) {
+        productUpdate(input: $input) {
+          product { 
+            id 
+            title 
+            handle
+            status
+          }
+          userErrors { field message }
+        }
+      }
+    `;
+
+    const productInput: any = omitLockedProductFields({
+      id: productId,
+      ...(allows('content') && {
+        title: productData.title || productData.name || productData.product_name || productData.productName || 'Unknown Product',
+        descriptionHtml: productData.descriptionHtml || productData.description || productData.description_html || productData.productDescription || '',
+        vendor: productData.vendor || productData.brand || productData.manufacturer || '',
+        productType: productData.productType || productData.product_type || productData.category || ''
+      }),
+      ...(allows('tags') && { tags: keepLockTags(productData.tags || productData.categories || [], locks.lockTags) }),
+      ...(allows('status') && { status: productData.status || 'ACTIVE' })
+    }, locks.lockedFields);
+
+    if (Object.keys(productInput).length > 1) {
+      const productResult = await adminGraphql(admin, productMutation, { variables: { input: productInput }, throwOnUserErrors: true, idempotent: true });
+
+      const product = productResult.data?.productUpdate?.product;
+      if (!product) {
+        throw new Error('Failed to update product');
+      }
+
+      console.log(`✅ Product updated: ${product.title} (ID: ${product.id})`);
+    }
+
+    // Step 2: Update variants using bulk update mutation (price group and SKU/barcode from content)
+    if (allows('price') || allows('content')) {
+      console.log(`🔄 Updating variants using bulk update...`);
+      
+      // First, get existing variants to update them
+      const getVariantsQuery = `#graphql
+        query getProductVariants($productId: ID!) {
+          product(id: $productId) {
+            variants(first: 10) {
+              edges {
+                node {
+                  id
+                  sku
+                  price
+                }
+              }
+            }
+          }
+        }
+      `;
+
+      const variantsResult = await adminGraphql(admin, getVariantsQuery, {
+        variables: { productId }
+      });
+      const existingVariants = variantsResult.data?.product?.variants?.edges || [];
+      const existingVariant = existingVariants[0]?.node;
+
+      if (existingVariant) {
+        const bulkUpdateVariantsMutation = `#graphql
+          mutation productVariantsBulkUpdate($productId: ID!, $variants: [ProductVariantsBulkInput!]!) {
+            productVariantsBulkUpdate(productId: $productId, variants: $variants) {
+              product { id }
+              productVariants { 
+                id 
+                sku 
+                price 
+                barcode
+              }
+              userErrors { field message }
+            }
+          }
+        `;
+
+        const toMoneyString = (val: any): string | undefined => {
+          if (val === null || val === undefined) return undefined;
+          const cleaned = String(val).trim();
+          if (cleaned === '') return undefined;
+          const num = parseFloat(cleaned.replace(/[^0-9.\-]/g, ''));
+          if (Number.isNaN(num)) return undefined;
+          return num.toFixed(2);
+        };
+
+        const variantInput: any = {
+          id: existingVariant.id
+        };
+
+        // Raw supplier rows carry flat fields; job definition products carry the import's variants[0]
+        const sourceVariant = productData.variants?.[0] || {};
+
+        if (allows('price')) {
+          const priceStr = toMoneyString(sourceVariant.price ?? productData.price);
+          if (priceStr !== undefined) {
+            variantInput.price = priceStr;
+          }
+          const compareAtStr = toMoneyString(sourceVariant.compareAtPrice || productData.rrp);
+          if (compareAtStr !== undefined) {
+            variantInput.compareAtPrice = compareAtStr;
+          }
+        }
+
+        if (allows('content')) {
+          const sku = productData.supplier_sku_code || sourceVariant.sku;
+          if (sku) {
+            variantInput.inventoryItem = {
+              sku: String(sku)
+            };
+          }
+          const barcode = productData.barcode || sourceVariant.barcode;
+          if (barcode) {
+            variantInput.barcode = String(barcode);
+          }
+        }
+
+        const unlockedVariantInput = omitLockedVariantFields(variantInput, locks.lockedFields);
+        if (Object.keys(unlockedVariantInput).length > 1) {
+          console.log('Updating variant with data:', JSON.stringify(unlockedVariantInput, null, 2));
+
+          const variantUpdateResult = await adminGraphql(admin, bulkUpdateVariantsMutation, {
+            variables: { 
+              productId,
+              variants: [unlockedVariantInput]
+            },
+            idempotent: true
+          });
+          
+          if (variantUpdateResult.data?.productVariantsBulkUpdate?.userErrors?.length > 0) {
+            console.warn('⚠️ Variant update warnings:', variantUpdateResult.data.productVariantsBulkUpdate.userErrors);
+          } else {
+            console.log(`✅ Updated variant: ${unlockedVariantInput.inventoryItem?.sku || 'No SKU'}`);
+          }
+        }
+      }
+    }
+
+    // Step 3: Images - only replaced when the supplier's image list changed since the last sync,
+    // so merchant-added images survive syncs where nothing changed
+    if (allows('images') && !locks.lockedFields.includes('images')) {
+      const imageUrls = getProductImageUrls(productData);
+      const storedImages = previousImages ? JSON.parse(previousImages) : [];
+      if (imageUrls.length > 0 && storedImages.length > 0 && JSON.stringify(imageUrls) !== JSON.stringify(storedImages)) {
+        await replaceProductImages(admin, productId, imageUrls);
+      }
+    }
+  } catch (error) {
+    console.error(`❌ Error updating Shopify product: ${productData.title}`, error);
+    throw error;
+  }
+}
+
+// Image URLs on a supplier row (product-level and per variant), de-duplicated in order
+function getProductImageUrls(productData: any): string[] {
+  const urls = [
+    ...(Array.isArray(productData.images) ? productData.images : []),
+    ...(Array.isArray(productData.image_urls) ? productData.image_urls : []),
+    productData.image_url,
+    ...(Array.isArray(productData.variants) ? productData.variants.map((variant: any) => variant?.image_url) : [])
+  ]
+    .map((image: any) => (typeof image === 'object' && image ? image.src || image.url : image))
+    .filter((url: any) => typeof url === 'string' && url.trim())
+    .map((url: string) => url.trim());
+  return [...new Set(urls)];
+}
+
+async function replaceProductImages(admin: any, productId: string, imageUrls: string[]) {
+  const mediaQuery = `#graphql
+    query productMedia($id: ID!) {
+      product(id: $id) {
+        media(first: 100) {
+          edges { node { id } }
+        }
+      }
+    }
+  `;
+  const mediaResult = await adminGraphql(admin, mediaQuery, { variables: { id: productId } });
+  const mediaIds = (mediaResult.data?.product?.media?.edges || []).map((edge: any) => edge.node.id);
+
+  if (mediaIds.length > 0) {
+    const deleteMutation = `#graphql
+      mutation productDeleteMedia($productId: ID!, $mediaIds: [ID!]!) {
+        productDeleteMedia(productId: $productId, mediaIds: $mediaIds) {
+          deletedMediaIds
+          mediaUserErrors { field message }
+        }
+      }
+    `;
+    await adminGraphql(admin, deleteMutation, { variables: { productId, mediaIds } });
+  }
+
+  const createMutation = `#graphql
+    mutation productCreateMedia($productId: ID!, $media: [CreateMediaInput!]!) {
+      productCreateMedia(productId: $productId, media: $media) {
+        media { id }
+        mediaUserErrors { field message }
+      }
+    }
+  `;
+  await adminGraphql(admin, createMutation, {
+    variables: {
+      productId,
+      media: imageUrls.map(imageUrl => ({ originalSource: imageUrl, mediaContentType: 'IMAGE' }))
+    }
+  });
+  console.log(`🖼️ Replaced ${mediaIds.length} images with ${imageUrls.length} from the supplier`);
+}
+
+// Normalized fingerprint of what we push for a product (title, description, price, inventory,
+// images, variants). Stored on ImportedProduct so later syncs can skip products that haven't changed.
+// A partial update scope is part of the fingerprint: a scoped update only wrote some of the fields,
+// so widening the scope later must not find the product "unchanged".
+function computeProductHash(productData: any, updateScope: UpdateFieldGroup[] = FULL_UPDATE_SCOPE): string {
+  const text = (val: any) => (val === null || val === undefined ? '' : String(val).trim());
+  const money = (val: any) => {
+    const num = parseFloat(text(val).replace(/[^0-9.-]/g, ''));
+    return Number.isNaN(num) ? '' : num.toFixed(2);
+  };
+  const quantity = (val: any) => {
+    const num = parseInt(text(val), 10);
+    return Number.isNaN(num) ? null : num;
+  };
+
+  const images = [
+    ...(Array.isArray(productData.images) ? productData.images : []),
+    ...(Array.isArray(productData.image_urls) ? productData.image_urls : []),
+    productData.image_url
+  ]
+    .map((image: any) => text(typeof image === 'object' && image ? image.src || image.url : image))
+    .filter(Boolean);
+
+  const variants = (Array.isArray(productData.variants) ? productData.variants : []).map((variant: any) => ({
+    sku: text(variant.sku),
+    price: money(variant.price),
+    compareAtPrice: money(variant.compareAtPrice || variant.compare_at_price),
+    barcode: text(variant.barcode),
+    inventory: quantity(variant.inventoryQuantity ?? variant.inventory_quantity ?? variant.quantity),
+    image: text(variant.image_url)
+  }));
+
+  const normalized = {
+    title: text(productData.title || productData.name || productData.product_name || productData.productName),
+    description: text(productData.descriptionHtml || productData.description || productData.description_html || productData.productDescription),
+    vendor: text(productData.vendor || productData.brand || productData.manufacturer),
+    productType: text(productData.productType || productData.product_type || productData.category),
+    tags: productData.tags || productData.categories || [],
+    status: text(productData.status),
+    price: money(productData.price),
+    sku: text(productData.supplier_sku_code || productData.sku || productData.sku_code || productData.skuCode),
+    barcode: text(productData.barcode),
+    inventory: quantity(productData.inventory_quantity ?? productData.inventoryQuantity ?? productData.quantity ?? productData.stock),
+    images,
+    variants,
+    ...(updateScope.length < FULL_UPDATE_SCOPE.length && { updateScope })
+  };
+
+  return createHash('sha256').update(JSON.stringify(normalized)).digest('hex');
+}
+
+// Describe a planned change by comparing the incoming product with what we last stored for it.
+// `existing` is the ImportedProduct row (or null when the product is new to us).
+export function buildChangePlanEntry(action: ChangePlanAction, productData: any, existing: any, note?: string): ChangePlanEntry {
+  const title = productData.title || productData.name || productData.product_name || productData.productName || null;
+  const price = productData.variants?.[0]?.price ?? productData.price;
+  const quantity = productData.variants?.[0]?.inventoryQuantity ?? productData.inventory_quantity ?? productData.inventoryQuantity ?? productData.quantity ?? productData.stock;
+  const parsedQuantity = parseInt(String(quantity ?? ''), 10);
+
+  return {
+    action,
+    title: title || existing?.title || 'Unknown Product',
+    sku: productData.variants?.[0]?.sku || productData.sku || productData.supplier_sku_code || existing?.sku || null,
+    oldTitle: existing?.title ?? null,
+    newTitle: title,
+    oldPrice: existing?.price || null,
+    newPrice: price !== undefined && price !== null && price !== '' ? String(price) : null,
+    oldQuantity: existing?.inventoryQuantity ?? null,
+    newQuantity: Number.isNaN(parsedQuantity) ? null : parsedQuantity,
+    shopifyProductId: existing?.shopifyProductId ?? null,
+    ...(note && { note })
+  };
+}
+
+const MISSING_PRODUCT_POLICIES = ['zero_inventory', 'draft', 'archive', 'tag'];
+const DISCONTINUED_TAG = 'discontinued';
+
+// Compare the feed against this connection's ImportedProduct rows. Products present again get
+// their miss counter reset; products absent for `missingProductThreshold` consecutive runs get
+// the connection's missing product policy applied once (until they reappear).
+// Only called after a successful, non-empty and complete fetch so an outage or a truncated feed never
+// looks like a mass discontinuation.
+async function applyMissingProductPolicy(
+  admin: any,
+  shop: string,
+  connection: SyncConnection,
+  apiData: any[],
+  recorder: SyncRunRecorder
+): Promise<number> {
+  const feedSkus = new Set<string>();
+  const feedTitles = new Set<string>();
+  for (const productData of apiData) {
+    if (!productData || typeof productData !== 'object') continue;
+    // ImportedProduct.sku may have come from any of these fields depending on who created the row
+    for (const sku of [productData.supplier_sku_code, productData.variants?.[0]?.sku, productData.sku, productData.sku_code, productData.skuCode]) {
+      if (sku) feedSkus.add(String(sku));
+    }
+    const title = productData.title || productData.name || productData.product_name || productData.productName;
+    if (title) feedTitles.add(String(title));
+  }
+
+  const importedProducts = await prisma.importedProduct.findMany({
+    where: { shop, connectionId: connection.id },
+    select: { id: true, title: true, sku: true, shopifyProductId: true, missingRunCount: true, missingPolicyAppliedAt: true }
+  });
+
+  const isInFeed = (product: { sku: string | null; title: string }) =>
+    (product.sku ? feedSkus.has(product.sku) : false) || feedTitles.has(product.title);
+
+  const reappeared = importedProducts.filter(p => isInFeed(p) && (p.missingRunCount > 0 || p.missingPolicyAppliedAt));
+  if (reappeared.length > 0) {
+    await prisma.importedProduct.updateMany({
+      where: { id: { in: reappeared.map(p => p.id) } },
+      data: { missingRunCount: 0, missingPolicyAppliedAt: null }
+    });
+  }
+
+  const absent = importedProducts.filter(p => !isInFeed(p));
+  if (absent.length === 0) return 0;
+
+  await prisma.importedProduct.updateMany({
+    where: { id: { in: absent.map(p => p.id) } },
+    data: { missingRunCount: { increment: 1 } }
+  });
+  console.log(`🔍 ${absent.length} products from ${connection.name} are missing from the feed`);
+
+  const policy = connection.missingProductPolicy || 'none';
+  const threshold = Math.max(1, connection.missingProductThreshold || 1);
+  if (!MISSING_PRODUCT_POLICIES.includes(policy)) return 0;
+
+  const due = absent.filter(p => !p.missingPolicyAppliedAt && p.missingRunCount + 1 >= threshold);
+  let applied = 0;
+
+  for (const product of due) {
+    try {
+      if (product.shopifyProductId) {
+        await applyPolicyToShopifyProduct(admin, product.shopifyProductId, policy);
+      }
+      await prisma.importedProduct.update({
+        where: { id: product.id },
+        data: {
+          missingPolicyAppliedAt: new Date(),
+          ...(policy === 'draft' && { status: 'draft' }),
+          ...(policy === 'archive' && { status: 'archived' }),
+          ...(policy === 'zero_inventory' && { inventoryQuantity: 0 })
+        }
+      });
+      applied++;
+      await recorder.record({
+        title: product.title,
+        sku: product.sku,
+        action: 'missing',
+        errorMessage: `Missing for ${product.missingRunCount + 1} runs - applied policy: ${policy}`
+      });
+      console.log(`🚫 Applied "${policy}" to missing product: ${product.title}`);
+    } catch (error) {
+      console.error(`❌ Failed to apply missing product policy to ${product.title}:`, error);
+      await recorder.record({
+        title: product.title,
+        sku: product.sku,
+        action: 'failed',
+        errorMessage: `Missing product policy "${policy}" failed: ${error instanceof Error ? error.message : String(error)}`
+      });
+    }
+  }
+
+  return applied;
+}
+
+async function applyPolicyToShopifyProduct(admin: any, productId: string, policy: string) {
+  switch (policy) {
+    case 'draft':
+    case 'archive': {
+      const mutation = `#graphql
+        mutation productUpdate($input: ProductInput!) {
+          productUpdate(input: $input) {
+            product { id status }
+            userErrors { field message }
+          }
+        }
+      `;
+      await adminGraphql(admin, mutation, {
+        variables: { input: { id: productId, status: policy === 'draft' ? 'DRAFT' : 'ARCHIVED' } },
+        throwOnUserErrors: true
+      });
+      break;
+    }
+    case 'tag': {
+      const mutation = `#graphql
+        mutation tagsAdd($id: ID!, $tags: [String!]!) {
+          tagsAdd(id: $id, tags: $tags) {
+            node { id }
+            userErrors { field message }
+          }
+        }
+      `;
+      await adminGraphql(admin, mutation, {
+        variables: { id: productId, tags: [DISCONTINUED_TAG] },
+        throwOnUserErrors: true
+      });
+      break;
+    }
+    case 'zero_inventory': {
+      const query = `#graphql
+        query productInventoryLevels($id: ID!) {
+          product(id: $id) {
+            variants(first: 100) {
+              edges {
+                node {
+                  inventoryItem {
+                    id
+                    inventoryLevels(first: 50) {
+                      edges { node { location { id } } }
+                    }
+                  }
+                }
+              }
+            }
+          }
+        }
+      `;
+      const result = await adminGraphql(admin, query, { variables: { id: productId } });
+      const variants = result.data?.product?.variants?.edges || [];
+      for (const { node: variant } of variants) {
+        const inventoryItemId = variant.inventoryItem?.id;
+        const levels = variant.inventoryItem?.inventoryLevels?.edges || [];
+        for (const { node: level } of levels) {
+          await adminGraphql(admin, M_SET_ON_HAND, {
+            variables: { inventoryItemId, locationId: level.location.id, quantity: 0 },
+            throwOnUserErrors: true
+          });
+        }
+      }
+      break;
+    }
+  }
+}
+
+// Database helper functions
+async function checkProductInDatabase(shop: string, sku: string, title: string) {
+  try {
+    // First try to find by SKU
+    if (sku) {
+      const productBySku = await prisma.importedProduct.findFirst({
+        where: {
+          shop: shop,
+          sku: sku
+        }
+      });
+      if (productBySku) {
+        console.log(`🔍 Found product in DB by SKU: ${sku}`);
+        return productBySku;
+      }
+    }
+
+    // If not found by SKU, try by title
+    if (title) {
+      const productByTitle = await prisma.importedProduct.findFirst({
+        where: {
+          shop: shop,
+          title: title
+        }
+      });
+      if (productByTitle) {
+        console.log(`🔍 Found product in DB by title: ${title}`);
+        return productByTitle;
+      }
+    }
+
+    console.log(`🔍 Product not found in DB: ${title} (SKU: ${sku})`);
+    return null;
+  } catch (error) {
+    console.error('Error checking product in database:', error);
+    return null;
+  }
+}
+
+// `baseline` is the Shopify state read back after the push (see shopifyConflicts.server.ts)
+async function updateProductInDatabase(productId: string, productData: any, contentHash: string, shopifyProductId?: string, baseline: any = {}) {
+  try {
+    await prisma.importedProduct.update({
+      where: { id: productId },
+      data: {
+        title: productData.title || productData.name || productData.product_name || productData.productName || 'Unknown Product',
+        bodyHtml: productData.descriptionHtml || productData.description || productData.description_html || productData.productDescription || '',
+        vendor: productData.vendor || productData.brand || productData.manufacturer || '',
+        productType: productData.productType || productData.product_type || productData.category || '',
+        tags: JSON.stringify(productData.tags || productData.categories || []),
+        status: productData.status,
+        price: String(productData.price || productData.variants?.[0]?.price || ''),
+        sku: productData.supplier_sku_code || productData.sku || productData.sku_code || productData.skuCode || productData.variants?.[0]?.sku || '',
+        images: JSON.stringify(getProductImageUrls(productData)),
+        variants: JSON.stringify(productData.variants || []),
+        contentHash,
+        ...baseline,
+        ...(shopifyProductId && { shopifyProductId: shopifyProductId })
+      }
+    });
+    console.log(`💾 Updated product in DB: ${productData.title}`);
+  } catch (error) {
+    console.error('Error updating product in database:', error);
+    throw error;
+  }
+}
+
+async function createProductInDatabase(shop: string, connectionId: string, productData: any, shopifyProductId: string, contentHash: string, baseline: any = {}) {
+  try {
+    await prisma.importedProduct.create({
+      data: {
+        shop: shop,
+        connectionId: connectionId,
+        shopifyProductId: shopifyProductId,
+        title: productData.title || productData.name || productData.product_name || productData.productName || 'Unknown Product',
+        bodyHtml: productData.descriptionHtml || productData.description || productData.description_html || productData.productDescription || '',
+        vendor: productData.vendor || productData.brand || productData.manufacturer || '',
+        productType: productData.productType || productData.product_type || productData.category || '',
+        tags: JSON.stringify(productData.tags || productData.categories || []),
+        status: productData.status,
+                 price: String(productData.price || productData.variants?.[0]?.price || ''),
+         sku: productData.supplier_sku_code || productData.sku || productData.sku_code || productData.skuCode || productData.variants?.[0]?.sku || '',
+        images: JSON.stringify(getProductImageUrls(productData)),
+        variants: JSON.stringify(productData.variants || []),
+        contentHash,
+        ...baseline
+      }
+    });
+    console.log(`💾 Created product in DB: ${productData.title}`);
+  } catch (error) {
+    console.error('Error creating product in database:', error);
+    throw error;
+  }
+}
+
+async function createShopifyProduct(admin: any, productData: any, connectionId: string) {
+  try {
+    console.log(`🆕 Creating Shopify product: ${productData.title}`);
+    
+    // Extract image URLs for later use
+    let productImages: any[] = [];
+    
+    // Check if image_url exists directly on product
+    if (productData.image_url && typeof productData.image_url === 'string' && productData.image_url.trim()) {
+      productImages.push(productData.image_url.trim());
+      console.log('Found image URL for product:', productData.image_url);
+    }
+    
+    // Also check variants if they exist
+    if (productData.variants && productData.variants.length > 0) {
+      for (const variant of productData.variants) {
+        const imageUrl = variant.image_url;
+        if (imageUrl && typeof imageUrl === 'string' && imageUrl.trim()) {
+          productImages.push(imageUrl.trim());
+          console.log('Found image URL for variant:', imageUrl);
+        }
+      }
+    }
+
+    // Step 1: Create product (without images)
+    const createProductMutation = `#graphql
+      mutation productCreate($input: ProductInput!) {
+        productCreate(input: $input) {
+          product { 
+            id 
+            title 
+            status 
+            descriptionHtml
+          }
+          userErrors { field message }
+        }
+      }
+    `;
+    
+    const productInput = {
+      title: productData.title || productData.name || productData.product_name || productData.productName || 'Unknown Product',
+      descriptionHtml: productData.descriptionHtml || productData.description || productData.description_html || productData.productDescription || '',
+      vendor: productData.vendor || productData.brand || productData.manufacturer || '',
+      productType: productData.productType || productData.product_type || productData.category || '',
+      tags: productData.tags || productData.categories || [],
+      status: productData.status || 'ACTIVE'
+    };
+    
+    console.log('Creating product:', productInput.title);
+    const productResult = await adminGraphql(admin, createProductMutation, { variables: { input: productInput } });
+    
+    if (productResult.data?.productCreate?.product) {
+      const productId = productResult.data.productCreate.product.id;
+      console.log('Product created successfully:', productId);
+      
+             // Step 1.5: Add images to product if available
+       if (productImages.length > 0) {
+         const addImagesMutation = `#graphql
+           mutation productCreateMedia($productId: ID!, $media: [CreateMediaInput!]!) {
+             productCreateMedia(productId: $productId, media: $media) {
+               media {
+                 id
+                 ... on MediaImage {
+                   id
+                   image {
+                     url
+                   }
+                 }
+               }
+               userErrors { field message }
+             }
+           }
+         `;
+         
+         const mediaInputs = productImages.map(imageUrl => ({
+           originalSource: imageUrl,
+           mediaContentType: "IMAGE"
+         }));
+         
+         console.log('Adding images to product:', productImages.length, 'images');
+         const imagesResult = await adminGraphql(admin, addImagesMutation, {
+           variables: {
+             productId: productId,
+             media: mediaInputs
+           }
+         });
+         
+         if (imagesResult.data?.productCreateMedia?.media) {
+           console.log('Images added successfully:', imagesResult.data.productCreateMedia.media.length, 'images');
+         } else if (imagesResult.data?.productCreateMedia?.userErrors) {
+           console.error('Image creation failed:', imagesResult.data.productCreateMedia.userErrors);
+           // Log specific image URL that failed
+           productImages.forEach((imageUrl, index) => {
+             console.error(`Failed image ${index + 1}:`, imageUrl);
+           });
+         }
+       }
+       
+       // Step 2: Create variants using bulk mutation
+       // Since API data is flat, create a single variant from product data
+       if (productData) {
+         const createVariantsMutation = `#graphql
+           mutation productVariantsBulkCreate($productId: ID!, $variants: [ProductVariantsBulkInput!]!) {
+             productVariantsBulkCreate(productId: $productId, variants: $variants) {
+               productVariants { id title price }
+               userErrors { field message }
+             }
+           }
+         `;
+
+         // Note: Images are added separately, variants will inherit product images
+         
+         const toMoneyString = (val: any): string | undefined => {
+           if (val === null || val === undefined) return undefined;
+           const cleaned = String(val).trim();
+           if (cleaned === '') return undefined;
+           const num = parseFloat(cleaned.replace(/[^0-9.\-]/g, ''));
+           if (Number.isNaN(num)) return undefined;
+           return num.toFixed(2);
+         };
+
+         // Create single variant from product data
+         const variantInput: any = {};
+         // Raw supplier rows carry flat fields; job definition products carry the import's variants[0]
+         const sourceVariant = productData.variants?.[0] || {};
+
+         const priceStr = toMoneyString(sourceVariant.price ?? productData.price);
+         // price is required
+         variantInput.price = priceStr ?? '0.00';
+
+         const compareAtStr = toMoneyString(sourceVariant.compareAtPrice || productData.rrp);
+         if (compareAtStr !== undefined) variantInput.compareAtPrice = compareAtStr;
+
+         // SKU goes inside inventoryItem
+         const sku = productData.supplier_sku_code || sourceVariant.sku;
+         if (sku) {
+           variantInput.inventoryItem = {
+             sku: String(sku)
+           };
+         }
+
+         // Barcode is supported directly
+         const barcode = productData.barcode || sourceVariant.barcode;
+         if (barcode) variantInput.barcode = String(barcode);
+
+         // Note: Images are added at product level, variants inherit them automatically
+
+         // Add option values for Title
+         variantInput.optionValues = [
+           {
+             optionName: "Title",
+             name: productData.name || "Default"
+           }
+         ];
+
+         console.log('Creating variant for product:', JSON.stringify(variantInput, null, 2));
+         const variantsResult = await adminGraphql(admin, createVariantsMutation, { 
+           variables: { 
+             productId: productId,
+             variants: [variantInput] 
+           } 
+         });
+         
+         console.log('Variant creation response:', JSON.stringify(variantsResult, null, 2));
+         
+         if (variantsResult.data?.productVariantsBulkCreate?.productVariants) {
+           console.log('Variant created successfully:', variantsResult.data.productVariantsBulkCreate.productVariants.length, 'variants');
+           console.log('Variant details:', variantsResult.data.productVariantsBulkCreate.productVariants);
+         } else if (variantsResult.data?.productVariantsBulkCreate?.userErrors) {
+           console.error('Variant creation failed with errors:', variantsResult.data.productVariantsBulkCreate.userErrors);
+         } else {
+           console.error('Variant creation failed - no productVariants or userErrors in response');
+           console.error('Full variant response:', JSON.stringify(variantsResult, null, 2));
+         }
+       }
+      
+      console.log('Product and variants created successfully');
+      return productResult.data.productCreate.product;
+    } else {
+      throw new Error('Failed to create product');
+    }
+  } catch (error) {
+    console.error(`❌ Error creating Shopify product: ${productData.title}`, error);
+    throw error;
+  }
+}
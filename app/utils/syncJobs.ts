@@ -0,0 +1,35 @@
+// Client side of manual syncs: /app/api/cron queues a 'sync' job per connection and answers with
+// the job ids; this polls a job until the worker has finished it and returns its sync result.
+// After MAX_WAIT_MS it stops waiting and returns a stillQueued result instead - the job keeps
+// running on the server and its outcome shows up in the sync history.
+
+const POLL_INTERVAL_MS = 2000;
+const MAX_WAIT_MS = 10 * 60 * 1000;
+
+export async function waitForSyncJob(jobId: string, connectionName?: string): Promise<any> {
+  const deadline = Date.now() + MAX_WAIT_MS;
+  let job: any = null;
+
+  while (Date.now() < deadline) {
+    await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+    const response = await fetch(`/app/api/cron?jobId=${encodeURIComponent(jobId)}`);
+    const data = await response.json();
+    if (!data.success) {
+      throw new Error(data.error || 'Failed to load the sync job');
+    }
+
+    job = data.job;
+    if (job.status === 'completed') return job.result;
+    if (job.status === 'failed') {
+      return { connectionId: job.connectionId, connectionName, success: false, error: job.error || 'Sync failed' };
+    }
+  }
+
+  return {
+    connectionId: job?.connectionId,
+    connectionName,
+    success: false,
+    stillQueued: true,
+    error: `Still ${job?.status === 'running' ? 'running' : 'queued'} - check the sync history for the result`
+  };
+}
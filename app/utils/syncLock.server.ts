@@ -0,0 +1,130 @@
+import { randomUUID } from "crypto";
+import prisma from "../db.server";
+
+// Database-backed lease per (shop, connectionId). Manual syncs, scheduled syncs and wizard
+// imports all take it before touching a connection's products, so they never race each other.
+// The lease expires on its own if a process dies mid-run; live runs keep it alive with a heartbeat.
+// A run can pass a stable run key (imports use their session id) so that when it is resumed after a
+// crash it takes over the lease it left behind instead of waiting for it to expire. Every
+// acquisition still gets its own token, so a superseded run can't renew or release the new lease.
+
+export type SyncLockHolder = 'manual' | 'scheduled' | 'import';
+
+const LOCK_TTL_MS = 10 * 60 * 1000; // lease length; renewed by the heartbeat while the run is alive
+const HEARTBEAT_INTERVAL_MS = 60 * 1000;
+
+export interface SyncLockHandle {
+  shop: string;
+  connectionId: string;
+  token: string;
+  stopHeartbeat: () => void;
+}
+
+export type AcquireSyncLockResult =
+  | { acquired: true; lock: SyncLockHandle }
+  | { acquired: false; holder: string; since: Date };
+
+export async function acquireSyncLock(
+  shop: string,
+  connectionId: string,
+  holder: SyncLockHolder,
+  options: { runKey?: string } = {}
+): Promise<AcquireSyncLockResult> {
+  const token = randomUUID();
+  const runKey = options.runKey ?? null;
+  const now = new Date();
+  const expiresAt = new Date(now.getTime() + LOCK_TTL_MS);
+
+  // Take over an expired lease, or one this run left behind before it was interrupted
+  const takenOver = await prisma.syncLock.updateMany({
+    where: {
+      shop,
+      connectionId,
+      OR: [{ expiresAt: { lt: now } }, ...(runKey ? [{ runKey }] : [])]
+    },
+    data: { holder, token, runKey, acquiredAt: now, expiresAt }
+  });
+
+  let acquired = takenOver.count > 0;
+  if (!acquired) {
+    try {
+      await prisma.syncLock.create({
+        data: { shop, connectionId, holder, token, runKey, acquiredAt: now, expiresAt }
+      });
+      acquired = true;
+    } catch (error: any) {
+      // P2002 = unique constraint: somebody else holds a live lease
+      if (error?.code !== 'P2002') throw error;
+    }
+  }
+
+  if (!acquired) {
+    const existing = await prisma.syncLock.findUnique({
+      where: { shop_connectionId: { shop, connectionId } }
+    });
+    console.log(`🔒 Sync already in progress for connection ${connectionId} (${existing?.holder})`);
+    return {
+      acquired: false,
+      holder: existing?.holder || 'unknown',
+      since: existing?.acquiredAt || now
+    };
+  }
+
+  const heartbeat = setInterval(async () => {
+    try {
+      await prisma.syncLock.updateMany({
+        where: { shop, connectionId, token },
+        data: { expiresAt: new Date(Date.now() + LOCK_TTL_MS) }
+      });
+    } catch (error) {
+      console.error('❌ Failed to renew sync lock:', error);
+    }
+  }, HEARTBEAT_INTERVAL_MS);
+
+  return {
+    acquired: true,
+    lock: { shop, connectionId, token, stopHeartbeat: () => clearInterval(heartbeat) }
+  };
+}
+
+export async function releaseSyncLock(lock: SyncLockHandle) {
+  lock.stopHeartbeat();
+  await releaseSyncLease(lock.shop, lock.connectionId, lock.token);
+}
+
+// For work that outlives the run that took the lock (bulk imports finish inside Shopify): stops
+// the heartbeat but keeps the lease, which the new owner renews and releases by token
+export function detachSyncLock(lock: SyncLockHandle) {
+  lock.stopHeartbeat();
+  return lock.token;
+}
+
+export async function renewSyncLease(shop: string, connectionId: string, token: string) {
+  const renewed = await prisma.syncLock.updateMany({
+    where: { shop, connectionId, token },
+    data: { expiresAt: new Date(Date.now() + LOCK_TTL_MS) }
+  });
+  return renewed.count > 0;
+}
+
+export async function releaseSyncLease(shop: string, connectionId: string, token: string) {
+  try {
+    // Only delete our own lease - it may have expired and been taken over
+    await prisma.syncLock.deleteMany({ where: { shop, connectionId, token } });
+  } catch (error) {
+    console.error('❌ Failed to release sync lock:', error);
+  }
+}
+
+// Live leases for a shop, keyed by connectionId, for showing "in progress" in the UI
+export async function getActiveSyncLocks(shop: string) {
+  const locks = await prisma.syncLock.findMany({
+    where: { shop, expiresAt: { gt: new Date() } }
+  });
+  return new Map(locks.map(lock => [lock.connectionId, lock]));
+}
+
+export function formatSyncLockMessage(holder: string, since: Date) {
+  const label = holder === 'import' ? 'An import' : holder === 'scheduled' ? 'A scheduled sync' : 'A sync';
+  return `${label} is already in progress since ${since.toLocaleString()}`;
+}
@@ -0,0 +1,47 @@
+// Field groups a recurring sync is allowed to change on products it already imported.
+// Stored per connection in Connection.updateScope (JSON array); creates always use the full mapping.
+// Shared by the sync engine and the connection settings UI.
+
+export type UpdateFieldGroup = 'price' | 'inventory' | 'content' | 'images' | 'tags' | 'status';
+
+export const UPDATE_FIELD_GROUPS: Array<{ value: UpdateFieldGroup; label: string }> = [
+  { value: 'price', label: 'Price and compare-at price' },
+  { value: 'inventory', label: 'Inventory quantities' },
+  { value: 'content', label: 'Content (title, description, vendor, type, SKU, barcode)' },
+  { value: 'images', label: 'Images' },
+  { value: 'tags', label: 'Tags' },
+  { value: 'status', label: 'Status' }
+];
+
+export const FULL_UPDATE_SCOPE: UpdateFieldGroup[] = UPDATE_FIELD_GROUPS.map(group => group.value);
+
+export const UPDATE_SCOPE_PRESETS: Record<string, { label: string; groups: UpdateFieldGroup[] }> = {
+  full: { label: 'Full update', groups: FULL_UPDATE_SCOPE },
+  price: { label: 'Price only', groups: ['price'] },
+  stock: { label: 'Stock only', groups: ['inventory'] },
+  content: { label: 'Content only', groups: ['content', 'images', 'tags'] }
+};
+
+// Accepts the stored JSON string (or an already parsed array). Missing, invalid or empty means full
+// update; the connections route refuses to save an empty scope, so a sync never updates nothing.
+export function parseUpdateScope(raw: any): UpdateFieldGroup[] {
+  let groups: any = raw;
+  if (typeof raw === 'string') {
+    try {
+      groups = JSON.parse(raw);
+    } catch {
+      groups = null;
+    }
+  }
+  if (!Array.isArray(groups)) return [...FULL_UPDATE_SCOPE];
+  const scope = FULL_UPDATE_SCOPE.filter(group => groups.includes(group));
+  return scope.length > 0 ? scope : [...FULL_UPDATE_SCOPE];
+}
+
+// The preset matching a set of groups, or 'custom'
+export function getUpdateScopePreset(groups: UpdateFieldGroup[]): string {
+  const match = Object.entries(UPDATE_SCOPE_PRESETS).find(([, preset]) =>
+    preset.groups.length === groups.length && preset.groups.every(group => groups.includes(group))
+  );
+  return match ? match[0] : 'custom';
+}
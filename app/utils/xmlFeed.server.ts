@@ -0,0 +1,90 @@
+import { XMLParser } from "fast-xml-parser";
+import { detectItemsPaths, normalizeItemsPath, resolveItemsPath } from "./itemsPath";
+
+// XML supplier feeds (Connection.feedFormat 'xml'). The document is parsed into an object tree
+// where repeated elements become arrays, so the connection's items path names the repeating
+// product element ("catalog.products.product"). Each product element is then flattened into
+// one level of fields, which is what key mappings and import filters work with:
+//   <sku>007</sku>                       -> sku: "007"
+//   <price currency="EUR">9.90</price>   -> price: "9.90", price@currency: "EUR"
+//   <product id="7">                     -> @id: "7"
+//   <dim><weight>1</weight></dim>        -> dim.weight: "1"
+//   <image>a.jpg</image><image>b.jpg</image> -> image: "a.jpg, b.jpg"
+// Values stay strings (leading zeros in SKUs and barcodes matter).
+
+export const XML_ACCEPT = 'application/xml, text/xml;q=0.9, */*;q=0.8';
+
+const TEXT_NODE = '#text';
+
+export function isXmlContentType(contentType: string | null | undefined) {
+  return /[/+]xml\b/i.test(contentType || '');
+}
+
+// Parses the document. The items path is needed up front so a feed with a single product
+// element still yields an array there.
+export function parseXmlDocument(xml: string, itemsPath?: string | null): any {
+  const path = normalizeItemsPath(itemsPath);
+  const parser = new XMLParser({
+    ignoreAttributes: false,
+    attributeNamePrefix: '@',
+    textNodeName: TEXT_NODE,
+    parseTagValue: false,
+    parseAttributeValue: false,
+    ignoreDeclaration: true,
+    ignorePiTags: true,
+    trimValues: true,
+    isArray: (_tagName: string, jPath: any) => !!path && jPath === path
+  });
+
+  const document = parser.parse(xml);
+  if (!document || typeof document !== 'object' || Object.keys(document).length === 0) {
+    throw new Error('The feed is not a valid XML document');
+  }
+  return document;
+}
+
+function flattenInto(fields: Record<string, any>, prefix: string, value: any) {
+  if (value === null || value === undefined) {
+    if (prefix) fields[prefix] = '';
+    return;
+  }
+
+  if (Array.isArray(value)) {
+    const texts = value.map(entry => (entry && typeof entry === 'object' ? undefined : String(entry)));
+    if (texts.every(text => text !== undefined)) {
+      fields[prefix] = texts.join(', ');
+    } else {
+      value.forEach((entry, index) => flattenInto(fields, `${prefix}.${index}`, entry));
+    }
+    return;
+  }
+
+  if (typeof value !== 'object') {
+    fields[prefix] = String(value);
+    return;
+  }
+
+  for (const [key, child] of Object.entries(value)) {
+    if (key === TEXT_NODE) {
+      fields[prefix || 'value'] = String(child);
+    } else if (key.startsWith('@')) {
+      fields[`${prefix}${key}`] = String(child);
+    } else {
+      flattenInto(fields, prefix ? `${prefix}.${key}` : key, child);
+    }
+  }
+}
+
+export function flattenXmlItem(item: any): Record<string, any> {
+  const fields: Record<string, any> = {};
+  flattenInto(fields, '', item);
+  return fields;
+}
+
+// The flattened product elements of a parsed document: the elements at the items path, or the
+// best repeating element when the connection has no path yet
+export function extractXmlItems(document: any, itemsPath?: string | null): any[] {
+  const path = normalizeItemsPath(itemsPath) || detectItemsPaths(document)[0]?.path;
+  if (!path) return [];
+  return (resolveItemsPath(document, path) || []).map(flattenXmlItem);
+}
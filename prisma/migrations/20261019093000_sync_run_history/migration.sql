@@ -0,0 +1,42 @@
+-- CreateTable
+CREATE TABLE "public"."SyncRun" (
+    "id" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "connectionId" TEXT,
+    "connectionName" TEXT,
+    "trigger" TEXT NOT NULL DEFAULT 'manual',
+    "status" TEXT NOT NULL DEFAULT 'running',
+    "totalProducts" INTEGER NOT NULL DEFAULT 0,
+    "created" INTEGER NOT NULL DEFAULT 0,
+    "updated" INTEGER NOT NULL DEFAULT 0,
+    "skipped" INTEGER NOT NULL DEFAULT 0,
+    "failed" INTEGER NOT NULL DEFAULT 0,
+    "errorMessage" TEXT,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "completedAt" TIMESTAMP(3),
+
+    CONSTRAINT "SyncRun_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."SyncRunItem" (
+    "id" TEXT NOT NULL,
+    "syncRunId" TEXT NOT NULL,
+    "connectionId" TEXT,
+    "title" TEXT NOT NULL,
+    "sku" TEXT,
+    "action" TEXT NOT NULL,
+    "errorMessage" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "SyncRunItem_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "SyncRun_shop_startedAt_idx" ON "public"."SyncRun"("shop", "startedAt");
+
+-- CreateIndex
+CREATE INDEX "SyncRunItem_syncRunId_idx" ON "public"."SyncRunItem"("syncRunId");
+
+-- AddForeignKey
+ALTER TABLE "public"."SyncRunItem" ADD CONSTRAINT "SyncRunItem_syncRunId_fkey" FOREIGN KEY ("syncRunId") REFERENCES "public"."SyncRun"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "public"."ImportedProduct" ADD COLUMN     "contentHash" TEXT;
+
+-- AlterTable
+ALTER TABLE "public"."SyncRun" ADD COLUMN     "unchanged" INTEGER NOT NULL DEFAULT 0;
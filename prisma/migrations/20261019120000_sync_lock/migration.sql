@@ -0,0 +1,15 @@
+-- CreateTable
+CREATE TABLE "public"."SyncLock" (
+    "id" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "connectionId" TEXT NOT NULL,
+    "holder" TEXT NOT NULL,
+    "token" TEXT NOT NULL,
+    "acquiredAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SyncLock_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SyncLock_shop_connectionId_key" ON "public"."SyncLock"("shop", "connectionId");
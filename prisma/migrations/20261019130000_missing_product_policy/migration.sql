@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "public"."Connection" ADD COLUMN     "missingProductPolicy" TEXT NOT NULL DEFAULT 'none',
+ADD COLUMN     "missingProductThreshold" INTEGER NOT NULL DEFAULT 3;
+
+-- AlterTable
+ALTER TABLE "public"."ImportedProduct" ADD COLUMN     "missingPolicyAppliedAt" TIMESTAMP(3),
+ADD COLUMN     "missingRunCount" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "public"."SyncRun" ADD COLUMN     "missing" INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,26 @@
+-- AlterTable
+ALTER TABLE "public"."SyncRun" ADD COLUMN     "jobDefinitionVersion" INTEGER;
+
+-- CreateTable
+CREATE TABLE "public"."JobDefinition" (
+    "id" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "connectionId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "dataSource" TEXT NOT NULL,
+    "importType" TEXT NOT NULL,
+    "importConfig" TEXT NOT NULL,
+    "keyMappings" TEXT NOT NULL,
+    "importFilters" TEXT NOT NULL,
+    "markupConfig" TEXT NOT NULL,
+    "importSessionId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "JobDefinition_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "JobDefinition_shop_connectionId_idx" ON "public"."JobDefinition"("shop", "connectionId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "JobDefinition_connectionId_version_key" ON "public"."JobDefinition"("connectionId", "version");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."Connection" ADD COLUMN     "updateScope" TEXT;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."ImportedProduct" ADD COLUMN     "lockedFields" TEXT;
@@ -0,0 +1,33 @@
+-- AlterTable
+ALTER TABLE "public"."Connection" ADD COLUMN     "conflictPolicy" TEXT NOT NULL DEFAULT 'supplier_wins';
+
+-- AlterTable
+ALTER TABLE "public"."ImportedProduct" ADD COLUMN     "shopifyHash" TEXT,
+ADD COLUMN     "shopifyUpdatedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "public"."SyncConflict" (
+    "id" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "connectionId" TEXT,
+    "importedProductId" TEXT NOT NULL,
+    "shopifyProductId" TEXT NOT NULL,
+    "syncRunId" TEXT,
+    "title" TEXT NOT NULL,
+    "sku" TEXT,
+    "fields" TEXT NOT NULL,
+    "shopifyValues" TEXT NOT NULL,
+    "supplierData" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'open',
+    "resolvedBy" TEXT,
+    "detectedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "resolvedAt" TIMESTAMP(3),
+
+    CONSTRAINT "SyncConflict_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "SyncConflict_shop_status_idx" ON "public"."SyncConflict"("shop", "status");
+
+-- CreateIndex
+CREATE INDEX "SyncConflict_importedProductId_idx" ON "public"."SyncConflict"("importedProductId");
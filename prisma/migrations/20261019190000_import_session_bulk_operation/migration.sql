@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "public"."ImportSession" ADD COLUMN     "bulkOperationId" TEXT,
+ADD COLUMN     "bulkStage" TEXT,
+ADD COLUMN     "errorMessage" TEXT;
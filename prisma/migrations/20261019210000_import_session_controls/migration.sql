@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."ImportSession" ADD COLUMN     "processedIndex" INTEGER NOT NULL DEFAULT 0;
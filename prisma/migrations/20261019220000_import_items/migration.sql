@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "public"."ImportItem" (
+    "id" TEXT NOT NULL,
+    "importSessionId" TEXT NOT NULL,
+    "rowIndex" INTEGER NOT NULL,
+    "rowKey" TEXT NOT NULL,
+    "outcome" TEXT NOT NULL DEFAULT 'pending',
+    "shopifyProductId" TEXT,
+    "error" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ImportItem_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ImportItem_importSessionId_rowIndex_key" ON "public"."ImportItem"("importSessionId", "rowIndex");
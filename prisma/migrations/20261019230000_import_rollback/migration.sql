@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "public"."ImportSession" ADD COLUMN     "rollbackReport" TEXT,
+ADD COLUMN     "rolledBackAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "public"."ImportItem" ADD COLUMN     "beforeSnapshot" TEXT;
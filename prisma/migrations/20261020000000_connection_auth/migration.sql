@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "public"."Connection" ADD COLUMN     "authType" TEXT NOT NULL DEFAULT 'bearer',
+ADD COLUMN     "authConfig" TEXT;
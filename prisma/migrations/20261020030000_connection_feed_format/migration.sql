@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."Connection" ADD COLUMN     "feedFormat" TEXT NOT NULL DEFAULT 'json';
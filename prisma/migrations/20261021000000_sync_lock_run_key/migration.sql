@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."SyncLock" ADD COLUMN     "runKey" TEXT;
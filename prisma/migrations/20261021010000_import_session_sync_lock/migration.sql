@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."ImportSession" ADD COLUMN     "syncLockToken" TEXT;
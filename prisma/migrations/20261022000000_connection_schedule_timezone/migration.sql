@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "public"."Connection" ADD COLUMN     "scheduleTimezone" TEXT,
+ADD COLUMN     "scheduleDay" INTEGER;